@@ -1,27 +1,38 @@
 const webpack = require('webpack');
 
-module.exports = function override(config, env) {
-  config.resolve.fallback = {
-    ...config.resolve.fallback,
-    "util": require.resolve("util/"),
-    "buffer": require.resolve("buffer/"),
-    "process": require.resolve("process/browser"),
-    "stream": require.resolve("stream-browserify"),
-    "crypto": require.resolve("crypto-browserify"),
-    "path": require.resolve("path-browserify"),
-    "os": require.resolve("os-browserify/browser"),
-    "fs": false,
-    "net": false,
-    "tls": false
-  };
+module.exports = {
+  webpack: function override(config, env) {
+    config.resolve.fallback = {
+      ...config.resolve.fallback,
+      "util": require.resolve("util/"),
+      "buffer": require.resolve("buffer/"),
+      "process": require.resolve("process/browser"),
+      "stream": require.resolve("stream-browserify"),
+      "crypto": require.resolve("crypto-browserify"),
+      "path": require.resolve("path-browserify"),
+      "os": require.resolve("os-browserify/browser"),
+      "fs": false,
+      "net": false,
+      "tls": false
+    };
 
-  config.plugins = [
-    ...config.plugins,
-    new webpack.ProvidePlugin({
-      Buffer: ['buffer', 'Buffer'],
-      process: 'process/browser',
-    }),
-  ];
+    config.plugins = [
+      ...config.plugins,
+      new webpack.ProvidePlugin({
+        Buffer: ['buffer', 'Buffer'],
+        process: 'process/browser',
+      }),
+    ];
 
-  return config;
+    return config;
+  },
+
+  // three's example modules (loaders, SkeletonUtils) are ES modules, so Jest has to transform them
+  jest: function override(config) {
+    config.transformIgnorePatterns = [
+      '[/\\\\]node_modules[/\\\\](?!three[/\\\\]examples[/\\\\]jsm[/\\\\]).+\\.(js|jsx|mjs|cjs|ts|tsx)$',
+      '^.+\\.module\\.(css|sass|scss)$'
+    ];
+    return config;
+  }
 };
\ No newline at end of file
@@ -1,8 +1,21 @@
 import { useState, useEffect } from 'react';
 import { AvatarCreatorPanel } from './components/AvatarCreator';
 import { FinalAnimator } from './components/FinalAnimator';
+import { StageAnimator } from './components/StageAnimator';
 import { AnimationControls } from './components/AnimationControls';
+import { AnimationQueue } from './components/AnimationQueue';
+import { ExpressionPanel } from './components/ExpressionPanel';
+import { LayerPanel } from './components/LayerPanel';
+import { TransportBar } from './components/TransportBar';
+import { TimelinePanel } from './components/TimelinePanel';
+import { AnimationImport } from './components/AnimationImport';
+import { LipSyncPanel } from './components/LipSyncPanel';
+import { ScriptPanel } from './components/ScriptPanel';
+import { ScenePromptPanel } from './components/ScenePromptPanel';
 import { Character } from './types';
+import { verifyAnimationFiles } from './services/animationRegistry';
+import { getAnimationSequencer } from './services/animationSequencer';
+import { loadCustomAnimations } from './services/customAnimations';
 import './App.css';
 
 // No demo avatars - users must create their own through Ready Player Me
@@ -12,6 +25,12 @@ function App() {
   const [characters, setCharacters] = useState<Character[]>([]);
   const [showCreator, setShowCreator] = useState(false);
   const [selectedCharacterId, setSelectedCharacterId] = useState<string | null>(null);
+  const [captions, setCaptions] = useState<Record<string, string>>({});
+  const [stageMode, setStageMode] = useState(false);
+  // Drive the selected stage character with the keyboard or a gamepad
+  const [playMode, setPlayMode] = useState(false);
+  // Multi-track timeline editor under the viewport
+  const [showTimeline, setShowTimeline] = useState(false);
 
   // Load saved characters from localStorage on mount
   useEffect(() => {
@@ -44,6 +63,16 @@ function App() {
     }
   }, []);
 
+  // Make sure every registered animation clip is actually shipped
+  useEffect(() => {
+    verifyAnimationFiles();
+  }, []);
+
+  // Bring back the animations imported in earlier sessions
+  useEffect(() => {
+    loadCustomAnimations();
+  }, []);
+
   // Save characters to localStorage whenever they change
   useEffect(() => {
     if (characters.length > 0) {
@@ -77,6 +106,26 @@ function App() {
     ));
   };
 
+  // Placement, voice and other per-character settings
+  const updateCharacterSettings = (id: string, settings: Partial<Omit<Character, 'id'>>) => {
+    setCharacters(prev => prev.map(char =>
+      char.id === id ? { ...char, ...settings } : char
+    ));
+  };
+
+  // Show (or clear) the line a character is saying
+  const updateCaption = (id: string, text: string | null) => {
+    setCaptions(prev => {
+      const next = { ...prev };
+      if (text) {
+        next[id] = text;
+      } else {
+        delete next[id];
+      }
+      return next;
+    });
+  };
+
   const removeCharacter = (id: string) => {
     setCharacters(prev => prev.filter(char => char.id !== id));
     if (selectedCharacterId === id) {
@@ -88,6 +137,7 @@ function App() {
 
   return (
     <div className="app">
+      <AnimationImport avatarUrl={(selectedCharacter ?? characters[0])?.avatarUrl} />
       <header className="app-header">
         <h1>🎭 Ready Player Me - Character Animator</h1>
         <p>Create and animate 3D avatars in real-time!</p>
@@ -106,6 +156,29 @@ function App() {
             </button>
           </div>
 
+          {characters.length > 0 && (
+            <button
+              className={`btn ${stageMode ? 'btn-primary' : 'btn-secondary'}`}
+              onClick={() => {
+                setStageMode(!stageMode);
+                setPlayMode(false);
+              }}
+              style={{ width: '100%', marginBottom: '1rem' }}
+            >
+              {stageMode ? '🎭 Stage: everyone' : '👤 Single character'}
+            </button>
+          )}
+
+          {characters.length > 0 && (
+            <button
+              className={`btn ${showTimeline ? 'btn-primary' : 'btn-secondary'}`}
+              onClick={() => setShowTimeline(!showTimeline)}
+              style={{ width: '100%', marginBottom: '1rem' }}
+            >
+              🎞️ Timeline
+            </button>
+          )}
+
           {/* Getting Started */}
           {characters.length === 0 && (
             <div className="demo-section">
@@ -147,7 +220,7 @@ function App() {
         </div>
 
         {/* Center - Avatar Display */}
-        <div className="avatar-display">
+        <div className={`avatar-display ${showTimeline && !showCreator ? 'with-timeline' : ''}`}>
           {showCreator ? (
             <div className="creator-container">
               <div className="creator-header">
@@ -163,6 +236,66 @@ function App() {
                 onAvatarCreated={(url) => addCharacter(url)}
               />
             </div>
+          ) : stageMode && characters.length > 0 ? (
+            <>
+              <div className="avatar-viewport">
+                <StageAnimator
+                  characters={characters}
+                  selectedCharacterId={selectedCharacterId}
+                  onSelect={setSelectedCharacterId}
+                  onAnimationChange={updateCharacterAnimation}
+                  onMove={(id, position) => updateCharacterSettings(id, { position })}
+                  onLookAtPoint={(position) => selectedCharacterId && updateCharacterSettings(selectedCharacterId, {
+                    lookAt: { type: 'point', position }
+                  })}
+                  playingCharacterId={playMode ? selectedCharacterId : null}
+                  onTurn={(id, rotation) => updateCharacterSettings(id, { rotation })}
+                />
+              </div>
+              {selectedCharacter && <TransportBar characterId={selectedCharacter.id} />}
+              {showTimeline && <TimelinePanel characters={characters} />}
+              <div className="character-info">
+                {selectedCharacter ? (
+                  <>
+                    <h3>{selectedCharacter.name}</h3>
+                    <p className="animation-status">
+                      🎬 {selectedCharacter.currentAnimation || 'idle'} · click the ground to walk there (shift-click adds waypoints), drag characters to place them, double-click the ground to make them look there
+                    </p>
+                    <label className="facing-control">
+                      Facing
+                      <input
+                        type="range"
+                        min={-180}
+                        max={180}
+                        step={15}
+                        value={Math.round(((selectedCharacter.rotation ?? 0) * 180) / Math.PI)}
+                        onChange={(e) => updateCharacterSettings(selectedCharacter.id, {
+                          rotation: (Number(e.target.value) * Math.PI) / 180
+                        })}
+                      />
+                    </label>
+                    <button
+                      className={`btn ${playMode ? 'btn-primary' : 'btn-secondary'}`}
+                      onClick={() => setPlayMode(!playMode)}
+                    >
+                      {playMode ? '⏹ Stop playing' : '🎮 Play'}
+                    </button>
+                    {playMode && (
+                      <p className="animation-status">
+                        W/S or ↑/↓ move · A/D or ←/→ turn · Q/E strafe · Shift run · Space jump · or use a gamepad
+                      </p>
+                    )}
+                  </>
+                ) : (
+                  <p className="animation-status">Click a character on the stage to select it</p>
+                )}
+                {Object.entries(captions).map(([id, text]) => (
+                  <p key={id} className="speech-caption">
+                    💬 {characters.find(c => c.id === id)?.name}: "{text}"
+                  </p>
+                ))}
+              </div>
+            </>
           ) : selectedCharacter ? (
             <>
               <div className="avatar-viewport">
@@ -171,6 +304,9 @@ function App() {
                     avatarUrl={selectedCharacter.avatarUrl}
                     characterId={selectedCharacter.id}
                     animationType={selectedCharacter.currentAnimation || 'idle'}
+                    onAnimationChange={(type) => updateCharacterAnimation(selectedCharacter.id, type)}
+                    faceLife={selectedCharacter.faceLife}
+                    lookAt={selectedCharacter.lookAt}
                   />
                 ) : (
                   <div style={{ padding: '20px', color: '#999' }}>
@@ -178,11 +314,16 @@ function App() {
                   </div>
                 )}
               </div>
+              <TransportBar characterId={selectedCharacter.id} />
+              {showTimeline && <TimelinePanel characters={[selectedCharacter]} />}
               <div className="character-info">
                 <h3>{selectedCharacter.name}</h3>
                 <p className="animation-status">
                   {selectedCharacter.currentAnimation ? '🎬 Playing animation' : '🧍 Idle pose'}
                 </p>
+                {captions[selectedCharacter.id] && (
+                  <p className="speech-caption">💬 "{captions[selectedCharacter.id]}"</p>
+                )}
                 <p style={{ fontSize: '0.8rem', color: '#666', marginTop: '5px' }}>
                   {selectedCharacter.avatarUrl}
                 </p>
@@ -207,15 +348,33 @@ function App() {
           <div className="controls-panel">
             <h2>Animations</h2>
             <AnimationControls
-              onAnimationChange={(type) => updateCharacterAnimation(selectedCharacter.id, type)}
+              onAnimationChange={(type) => {
+                // A manual pick takes over from any queued clips
+                getAnimationSequencer(selectedCharacter.id).clear();
+                updateCharacterAnimation(selectedCharacter.id, type);
+              }}
+            />
+            <AnimationQueue characterId={selectedCharacter.id} />
+            <LayerPanel characterId={selectedCharacter.id} />
+            <ExpressionPanel
+              character={selectedCharacter}
+              characters={characters}
+              onFaceLifeChange={(faceLife) => updateCharacterSettings(selectedCharacter.id, { faceLife })}
+              onLookAtChange={(lookAt) => updateCharacterSettings(selectedCharacter.id, { lookAt })}
+            />
+            <LipSyncPanel
+              character={selectedCharacter}
+              onVoiceChange={(voice) => updateCharacterSettings(selectedCharacter.id, { voice })}
             />
+            <ScriptPanel characters={characters} onSpeech={updateCaption} />
+            <ScenePromptPanel characters={characters} onSpeech={updateCaption} />
             <div className="tips">
               <h3>💡 Tips</h3>
               <ul>
                 <li>Click any animation button to play</li>
                 <li>Click "Idle" to return to default pose</li>
-                <li>Animations loop automatically</li>
-                <li>Create multiple characters to compare</li>
+                <li>Loops repeat, one-shots return to the previous clip</li>
+                <li>Switch to the stage to see all characters together</li>
               </ul>
             </div>
           </div>
@@ -0,0 +1,222 @@
+import { useEffect, useState } from 'react';
+import { ANIMATION_CATEGORIES } from '../services/animationRegistry';
+import {
+  AnimationImportSettings,
+  getAnimationFileFormat,
+  getLabelFromFileName,
+  importAnimationFile
+} from '../services/customAnimations';
+
+interface Props {
+  // Avatar whose skeleton imported clips are retargeted onto
+  avatarUrl?: string;
+}
+
+interface PendingImport extends AnimationImportSettings {
+  file: File;
+  status: string;
+}
+
+const buttonStyle = {
+  padding: '6px 12px',
+  backgroundColor: '#3b82f6',
+  color: 'white',
+  border: 'none',
+  borderRadius: '6px',
+  cursor: 'pointer',
+  fontSize: '12px',
+  fontWeight: '500'
+};
+
+const inputStyle = {
+  padding: '4px 6px',
+  borderRadius: '4px',
+  border: '1px solid #374151',
+  backgroundColor: '#111827',
+  color: 'white',
+  fontSize: '12px'
+};
+
+function isFileDrag(e: DragEvent): boolean {
+  return !!e.dataTransfer && Array.from(e.dataTransfer.types).includes('Files');
+}
+
+// Drop GLB, FBX or BVH files anywhere on the app to add them as animations.
+// Each file gets a name, category and loop setting before it is imported.
+export function AnimationImport({ avatarUrl }: Props) {
+  const [dragging, setDragging] = useState(false);
+  const [pending, setPending] = useState<PendingImport[]>([]);
+  const [importing, setImporting] = useState(false);
+
+  useEffect(() => {
+    // File inputs (e.g. the lip sync panel's) take their own drops
+    const isOwnDrop = (e: DragEvent) => e.target instanceof HTMLInputElement;
+
+    const handleDragOver = (e: DragEvent) => {
+      if (!isFileDrag(e) || isOwnDrop(e)) return;
+      e.preventDefault();
+      setDragging(true);
+    };
+    const handleDragLeave = (e: DragEvent) => {
+      // Only when the drag leaves the window
+      if (!e.relatedTarget) setDragging(false);
+    };
+    const handleDrop = (e: DragEvent) => {
+      setDragging(false);
+      if (!isFileDrag(e) || isOwnDrop(e)) return;
+      e.preventDefault();
+
+      const files = Array.from(e.dataTransfer?.files ?? []);
+      const added = files.map((file): PendingImport => {
+        const format = getAnimationFileFormat(file.name);
+        return {
+          file,
+          label: getLabelFromFileName(file.name),
+          category: format === 'bvh' ? 'movement' : 'gesture',
+          loop: 'repeat',
+          status: format ? '' : '❌ Not a GLB, FBX or BVH file'
+        };
+      });
+      if (added.length > 0) setPending(prev => [...prev, ...added]);
+    };
+
+    window.addEventListener('dragover', handleDragOver);
+    window.addEventListener('dragleave', handleDragLeave);
+    window.addEventListener('drop', handleDrop);
+    return () => {
+      window.removeEventListener('dragover', handleDragOver);
+      window.removeEventListener('dragleave', handleDragLeave);
+      window.removeEventListener('drop', handleDrop);
+    };
+  }, []);
+
+  const update = (index: number, changes: Partial<PendingImport>) => {
+    setPending(prev => prev.map((item, i) => (i === index ? { ...item, ...changes } : item)));
+  };
+
+  // Import one file at a time - retargeting samples every frame and is heavy
+  const importAll = async () => {
+    if (!avatarUrl) return;
+    setImporting(true);
+    for (let index = 0; index < pending.length; index++) {
+      const item = pending[index];
+      if (item.status || !item.label.trim()) continue;
+      update(index, { status: '⏳ Importing...' });
+      try {
+        const definition = await importAnimationFile(item.file, {
+          label: item.label.trim(),
+          category: item.category,
+          loop: item.loop
+        }, avatarUrl);
+        update(index, { status: `✅ Added as ${definition.label}` });
+      } catch (error) {
+        console.error(`Failed to import ${item.file.name}:`, error);
+        update(index, { status: `❌ ${(error as Error).message}` });
+      }
+    }
+    setImporting(false);
+  };
+
+  const waiting = pending.filter(item => !item.status).length;
+
+  return (
+    <>
+      {dragging && (
+        <div style={{
+          position: 'fixed',
+          inset: 0,
+          zIndex: 1000,
+          display: 'flex',
+          alignItems: 'center',
+          justifyContent: 'center',
+          backgroundColor: 'rgba(59, 130, 246, 0.25)',
+          border: '3px dashed #3b82f6',
+          color: 'white',
+          fontSize: '1.5rem',
+          pointerEvents: 'none'
+        }}>
+          📥 Drop GLB, FBX or BVH animations to import them
+        </div>
+      )}
+
+      {pending.length > 0 && (
+        <div style={{
+          position: 'fixed',
+          top: '50%',
+          left: '50%',
+          transform: 'translate(-50%, -50%)',
+          zIndex: 1001,
+          width: '560px',
+          maxWidth: '90vw',
+          display: 'flex',
+          flexDirection: 'column',
+          gap: '10px',
+          padding: '16px',
+          backgroundColor: '#1f2937',
+          borderRadius: '8px',
+          boxShadow: '0 10px 40px rgba(0, 0, 0, 0.6)',
+          color: 'white'
+        }}>
+          <h3 style={{ margin: 0, fontSize: '1rem' }}>Import animations</h3>
+          {!avatarUrl && (
+            <p style={{ margin: 0, fontSize: '12px', color: '#fbbf24' }}>
+              Create an avatar first - clips are retargeted onto its skeleton.
+            </p>
+          )}
+
+          {pending.map((item, index) => (
+            <div key={index} style={{ display: 'flex', flexDirection: 'column', gap: '4px' }}>
+              <div style={{ display: 'flex', gap: '6px', alignItems: 'center' }}>
+                <input
+                  type="text"
+                  value={item.label}
+                  onChange={(e) => update(index, { label: e.target.value })}
+                  disabled={!!item.status}
+                  style={{ ...inputStyle, flex: 1 }}
+                  title={item.file.name}
+                />
+                <select
+                  value={item.category}
+                  onChange={(e) => update(index, { category: e.target.value as PendingImport['category'] })}
+                  disabled={!!item.status}
+                  style={inputStyle}
+                >
+                  {ANIMATION_CATEGORIES.map(category => (
+                    <option key={category.id} value={category.id}>{category.label}</option>
+                  ))}
+                </select>
+                <select
+                  value={item.loop}
+                  onChange={(e) => update(index, { loop: e.target.value as PendingImport['loop'] })}
+                  disabled={!!item.status}
+                  style={inputStyle}
+                >
+                  <option value="repeat">Loops</option>
+                  <option value="once">Plays once</option>
+                </select>
+              </div>
+              <span style={{ fontSize: '11px', color: '#9ca3af' }}>
+                {item.file.name}{item.status && ` · ${item.status}`}
+              </span>
+            </div>
+          ))}
+
+          <div style={{ display: 'flex', gap: '8px', justifyContent: 'flex-end' }}>
+            <button
+              style={{ ...buttonStyle, backgroundColor: '#4b5563' }}
+              onClick={() => setPending([])}
+              disabled={importing}
+            >
+              {waiting > 0 ? 'Cancel' : 'Close'}
+            </button>
+            {waiting > 0 && (
+              <button style={buttonStyle} onClick={importAll} disabled={importing || !avatarUrl}>
+                {importing ? 'Importing...' : `Import ${waiting}`}
+              </button>
+            )}
+          </div>
+        </div>
+      )}
+    </>
+  );
+}
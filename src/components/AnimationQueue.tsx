@@ -0,0 +1,152 @@
+import { useEffect, useState } from 'react';
+import { ANIMATION_CATEGORIES, getAnimation, getAnimationsByCategory } from '../services/animationRegistry';
+import { getAnimationSequencer, SequenceStep, SequencerState } from '../services/animationSequencer';
+
+interface Props {
+  characterId: string;
+}
+
+const inputStyle = {
+  padding: '4px 6px',
+  backgroundColor: '#111827',
+  color: 'white',
+  border: '1px solid #374151',
+  borderRadius: '4px',
+  fontSize: '11px'
+};
+
+const buttonStyle = {
+  padding: '6px 8px',
+  backgroundColor: '#3b82f6',
+  color: 'white',
+  border: 'none',
+  borderRadius: '6px',
+  cursor: 'pointer',
+  fontSize: '11px',
+  fontWeight: '500'
+};
+
+// Short description of how long a step lasts
+function describeStep(step: SequenceStep): string {
+  const label = getAnimation(step.animation)?.label || step.animation;
+  if (step.duration !== undefined) return `${label} · ${step.duration}s`;
+  return `${label} · ×${step.loops ?? 1}`;
+}
+
+export function AnimationQueue({ characterId }: Props) {
+  const sequencer = getAnimationSequencer(characterId);
+  const [state, setState] = useState<SequencerState>(sequencer.getState());
+  const [animation, setAnimation] = useState('wave');
+  const [mode, setMode] = useState<'loops' | 'duration'>('loops');
+  const [amount, setAmount] = useState(1);
+  const [blendTime, setBlendTime] = useState('');
+
+  // Follow the selected character's queue
+  useEffect(() => {
+    setState(sequencer.getState());
+    return sequencer.subscribe(setState);
+  }, [sequencer]);
+
+  const addStep = () => {
+    const step: SequenceStep = { animation };
+    if (mode === 'duration') {
+      step.duration = amount;
+    } else {
+      step.loops = Math.max(1, Math.round(amount));
+    }
+    if (blendTime !== '') {
+      step.blendTime = Number(blendTime);
+    }
+    sequencer.enqueue(step);
+  };
+
+  return (
+    <div style={{
+      display: 'flex',
+      flexDirection: 'column',
+      gap: '8px',
+      padding: '12px',
+      marginTop: '12px',
+      backgroundColor: '#1f2937',
+      borderRadius: '8px'
+    }}>
+      <h4 style={{
+        fontSize: '12px',
+        textTransform: 'uppercase',
+        color: '#9ca3af',
+        margin: 0,
+        fontWeight: '600',
+        letterSpacing: '0.5px'
+      }}>
+        Queue
+      </h4>
+
+      <div style={{ display: 'flex', gap: '4px', flexWrap: 'wrap' }}>
+        <select value={animation} onChange={(e) => setAnimation(e.target.value)} style={{ ...inputStyle, flex: 1 }}>
+          {ANIMATION_CATEGORIES.map(category => (
+            <optgroup key={category.id} label={category.label}>
+              {getAnimationsByCategory(category.id).map(anim => (
+                <option key={anim.id} value={anim.id}>{anim.label}</option>
+              ))}
+            </optgroup>
+          ))}
+        </select>
+        <input
+          type="number"
+          min={mode === 'loops' ? 1 : 0.1}
+          step={mode === 'loops' ? 1 : 0.5}
+          value={amount}
+          onChange={(e) => setAmount(Number(e.target.value))}
+          style={{ ...inputStyle, width: '48px' }}
+        />
+        <select value={mode} onChange={(e) => setMode(e.target.value as 'loops' | 'duration')} style={inputStyle}>
+          <option value="loops">times</option>
+          <option value="duration">sec</option>
+        </select>
+        <input
+          type="number"
+          min={0}
+          step={0.1}
+          placeholder="blend"
+          title="Blend time in seconds (leave empty for the default)"
+          value={blendTime}
+          onChange={(e) => setBlendTime(e.target.value)}
+          style={{ ...inputStyle, width: '52px' }}
+        />
+      </div>
+
+      <div style={{ display: 'flex', gap: '6px' }}>
+        <button style={{ ...buttonStyle, flex: 1 }} onClick={addStep}>+ Add</button>
+        <button
+          style={{ ...buttonStyle, backgroundColor: '#4b5563' }}
+          onClick={() => sequencer.skip()}
+          disabled={!state.current}
+        >
+          Skip
+        </button>
+        <button
+          style={{ ...buttonStyle, backgroundColor: '#4b5563' }}
+          onClick={() => sequencer.clear()}
+          disabled={!state.current && state.upcoming.length === 0}
+        >
+          Clear
+        </button>
+      </div>
+
+      {state.current || state.upcoming.length > 0 ? (
+        <ol style={{ margin: 0, paddingLeft: '18px', fontSize: '11px', color: '#d1d5db' }}>
+          {state.current && (
+            <li style={{ color: '#60a5fa', fontWeight: 600 }}>▶ {describeStep(state.current)}</li>
+          )}
+          {state.upcoming.map((step, index) => (
+            <li key={index}>{describeStep(step)}</li>
+          ))}
+        </ol>
+      ) : (
+        <p style={{ fontSize: '11px', color: '#6b7280', margin: 0 }}>
+          Queue clips to play them one after another
+        </p>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,189 @@
+import { useEffect, useState } from 'react';
+import { getAvatarController } from '../services/avatarControllers';
+import { DEFAULT_FACE_LIFE } from '../services/faceLife';
+import { EXPRESSIONS } from '../services/facialExpressions';
+import { Character, FaceLifeSettings, LookAtTarget } from '../types';
+
+interface Props {
+  character: Character;
+  characters: Character[];
+  onFaceLifeChange: (faceLife: FaceLifeSettings) => void;
+  onLookAtChange: (lookAt: LookAtTarget) => void;
+}
+
+// Select value for a look-at target, e.g. 'character:abc'
+function lookAtValue(target: LookAtTarget | undefined): string {
+  if (!target) return 'ahead';
+  return target.type === 'character' ? `character:${target.characterId}` : target.type;
+}
+
+const buttonStyle = {
+  padding: '6px 8px',
+  backgroundColor: '#3b82f6',
+  color: 'white',
+  border: 'none',
+  borderRadius: '6px',
+  cursor: 'pointer',
+  fontSize: '11px',
+  fontWeight: '500',
+  whiteSpace: 'nowrap' as const,
+  overflow: 'hidden',
+  textOverflow: 'ellipsis'
+};
+
+// Pick a facial expression for the selected character. Emotion clips show their own
+// expression until one is picked here. Blink settings are saved with the character.
+export function ExpressionPanel({ character, characters, onFaceLifeChange, onLookAtChange }: Props) {
+  const characterId = character.id;
+  const faceLife = { ...DEFAULT_FACE_LIFE, ...character.faceLife };
+  const [expression, setExpression] = useState<string | null>(null);
+  const [intensity, setIntensity] = useState(1);
+
+  // A different character starts with its clip's own expression
+  useEffect(() => {
+    setExpression(null);
+  }, [characterId]);
+
+  const apply = (id: string | null, value = intensity) => {
+    setExpression(id);
+    getAvatarController(characterId)?.setExpression(id, { intensity: value });
+  };
+
+  const updateIntensity = (value: number) => {
+    setIntensity(value);
+    if (expression) apply(expression, value);
+  };
+
+  const updateLookAt = (value: string) => {
+    if (value.startsWith('character:')) {
+      onLookAtChange({ type: 'character', characterId: value.slice('character:'.length) });
+    } else if (value === 'camera' || value === 'ahead') {
+      onLookAtChange({ type: value });
+    }
+  };
+
+  const updateFaceLife = (changes: Partial<FaceLifeSettings>) => {
+    onFaceLifeChange({ ...faceLife, ...changes });
+  };
+
+  return (
+    <div style={{
+      display: 'flex',
+      flexDirection: 'column',
+      gap: '8px',
+      padding: '12px',
+      marginTop: '12px',
+      backgroundColor: '#1f2937',
+      borderRadius: '8px'
+    }}>
+      <h4 style={{
+        fontSize: '12px',
+        textTransform: 'uppercase',
+        color: '#9ca3af',
+        margin: 0,
+        fontWeight: '600',
+        letterSpacing: '0.5px'
+      }}>
+        Face
+      </h4>
+
+      <div style={{
+        display: 'grid',
+        gridTemplateColumns: 'repeat(auto-fill, minmax(90px, 1fr))',
+        gap: '6px'
+      }}>
+        {EXPRESSIONS.map(item => (
+          <button
+            key={item.id}
+            style={{ ...buttonStyle, backgroundColor: expression === item.id ? '#2563eb' : '#374151' }}
+            onClick={() => apply(expression === item.id ? null : item.id)}
+            title={item.label}
+          >
+            {item.label}
+          </button>
+        ))}
+        <button
+          style={{ ...buttonStyle, backgroundColor: '#4b5563' }}
+          onClick={() => apply(null)}
+          title="Back to the clip's own expression"
+        >
+          😐 Neutral
+        </button>
+      </div>
+
+      <label style={{ display: 'flex', alignItems: 'center', gap: '6px', fontSize: '11px', color: '#9ca3af' }}>
+        Intensity
+        <input
+          type="range"
+          min={0}
+          max={1}
+          step={0.05}
+          value={intensity}
+          onChange={(e) => updateIntensity(Number(e.target.value))}
+          style={{ flex: 1 }}
+        />
+        {Math.round(intensity * 100)}%
+      </label>
+
+      <label style={{ display: 'flex', alignItems: 'center', gap: '6px', fontSize: '11px', color: '#9ca3af' }}>
+        Look at
+        <select
+          value={lookAtValue(character.lookAt)}
+          onChange={(e) => updateLookAt(e.target.value)}
+          style={{
+            flex: 1,
+            padding: '4px 6px',
+            backgroundColor: '#111827',
+            color: 'white',
+            border: '1px solid #374151',
+            borderRadius: '4px',
+            fontSize: '11px'
+          }}
+        >
+          <option value="ahead">Straight ahead</option>
+          <option value="camera">🎥 Camera</option>
+          {characters.filter(other => other.id !== characterId).map(other => (
+            <option key={other.id} value={`character:${other.id}`}>{other.name}</option>
+          ))}
+          {/* Points are picked by double-clicking the stage */}
+          {character.lookAt?.type === 'point' && <option value="point">📍 Picked point</option>}
+        </select>
+      </label>
+
+      {/* Turn both off for recordings that have to come out the same every time */}
+      <div style={{ display: 'flex', gap: '12px', fontSize: '11px', color: '#9ca3af' }}>
+        <label style={{ display: 'flex', alignItems: 'center', gap: '4px' }}>
+          <input
+            type="checkbox"
+            checked={faceLife.blink}
+            onChange={(e) => updateFaceLife({ blink: e.target.checked })}
+          />
+          Blink
+        </label>
+        <label style={{ display: 'flex', alignItems: 'center', gap: '4px' }}>
+          <input
+            type="checkbox"
+            checked={faceLife.saccades}
+            onChange={(e) => updateFaceLife({ saccades: e.target.checked })}
+          />
+          Eye movement
+        </label>
+      </div>
+      {faceLife.blink && (
+        <label style={{ display: 'flex', alignItems: 'center', gap: '6px', fontSize: '11px', color: '#9ca3af' }}>
+          Blinks
+          <input
+            type="range"
+            min={4}
+            max={30}
+            step={1}
+            value={faceLife.blinksPerMinute}
+            onChange={(e) => updateFaceLife({ blinksPerMinute: Number(e.target.value) })}
+            style={{ flex: 1 }}
+          />
+          {faceLife.blinksPerMinute}/min
+        </label>
+      )}
+    </div>
+  );
+}
@@ -1,146 +1,903 @@
-import React, { useEffect, useRef, useState } from 'react';
-import { Canvas, useFrame } from '@react-three/fiber';
+import React, { useEffect, useMemo, useRef } from 'react';
+import { Canvas, useFrame, useThree } from '@react-three/fiber';
 import { OrbitControls, useGLTF } from '@react-three/drei';
 import * as THREE from 'three';
-import { GLTFLoader } from 'three/examples/jsm/loaders/GLTFLoader';
+import { clone as cloneSkinned } from 'three/examples/jsm/utils/SkeletonUtils';
+import {
+  getBlendTime,
+  getAnimationClipInfo,
+  getClipExpression,
+  getFollowUp,
+  getPreloadAnimationUrls,
+  getRootMotionMode,
+  getTransitionBlendTime,
+  isLipSyncAnimation,
+  isLoopingAnimation,
+  isSyncedTransition
+} from '../services/animationRegistry';
+import { BONE_MASKS, filterTracksByMask, getTrackBone } from '../services/boneMasks';
+import { getAvatarController, registerAvatarController } from '../services/avatarControllers';
+import { onCameraCue } from '../services/cameraCues';
+import { loadAnimationClip } from '../services/clipLoader';
+import { DEFAULT_FACE_LIFE, FaceLife } from '../services/faceLife';
+import { getExpression, getExpressionWeights, resolveMorphTargets } from '../services/facialExpressions';
+import { EYE_LIMITS, getLookAngles, HEAD_LIMITS, limitLookAngles, NECK_SHARE } from '../services/lookAt';
+import { getRootDisplacement, RootMotion, stripRootMotion } from '../services/rootMotion';
+import { BlendWeights, getBlendPlaybackRate, getBlendWeights, LOCOMOTION_BLEND_SPACE } from '../services/blendSpace';
+import { createBabbleLipSync, getMorphTargetName, VISEME_NAMES, VISEME_OPENNESS } from '../services/visemes';
+import {
+  AnimationLayerOptions,
+  AvatarController,
+  BlendShapeWeights,
+  BoneMaskName,
+  ExpressionOptions,
+  FaceLifeSettings,
+  FacialExpression,
+  LipSyncSource,
+  LocomotionVelocity,
+  LookAtTarget,
+  PlayAnimationOptions,
+  PlaybackChanges,
+  PlaybackState,
+  RootMotionMode,
+  VisemeWeights
+} from '../types';
+
+// How quickly the mouth moves towards a new shape (per second) - opening is faster than closing
+const LIP_SYNC_ATTACK = 25;
+const LIP_SYNC_RELEASE = 12;
+// How quickly the face moves into (and out of) an expression, per second
+const EXPRESSION_BLEND_SPEED = 6;
+
+// How quickly the head and the eyes turn towards a look-at target, per second
+const LOOK_AT_HEAD_SPEED = 4;
+const LOOK_AT_EYE_SPEED = 15;
+// Bones turned on top of the clip by look-at and eye movement
+const LOOK_BONE_NAMES = ['Neck', 'Head', 'LeftEye', 'RightEye'];
+
+// How quickly the locomotion blend follows a change of velocity, per second
+const BLEND_SPACE_RESPONSE = 6;
+// Seconds for a clip that isn't part of the blend to fade out when the blend starts
+const BLEND_SPACE_FADE = 0.3;
+
+// Transport speed limits, and the frame rate assumed for clips the manifest doesn't know
+const MIN_PLAYBACK_SPEED = 0.1;
+const MAX_PLAYBACK_SPEED = 2;
+const DEFAULT_FRAME_RATE = 30;
+
+// Scratch objects for turning bones, reused every frame
+const avatarInverse = new THREE.Quaternion();
+const parentInAvatar = new THREE.Quaternion();
+const parentInverse = new THREE.Quaternion();
+const turnRotation = new THREE.Quaternion();
+const turnEuler = new THREE.Euler(0, 0, 0, 'YXZ');
+const headPosition = new THREE.Vector3();
+const lookTarget = new THREE.Vector3();
+const rootStep = new THREE.Vector3();
+const rootMatrix = new THREE.Matrix3();
+
+// Copy of a clip ready for this avatar's mixer. Unless the mode is raw, the hips' horizontal
+// travel is taken out of the pose and returned so it can be applied to the character instead.
+function prepareClip(sourceClip: THREE.AnimationClip, mode: RootMotionMode): { clip: THREE.AnimationClip; rootMotion: RootMotion | null } {
+  const clip = sourceClip.clone();
+  const hipsTrack = clip.tracks.find(track => track.name === 'Hips.position');
+  const rootMotion = hipsTrack && mode !== 'raw' ? stripRootMotion(hipsTrack.times, hipsTrack.values) : null;
+  return { clip, rootMotion };
+}
+
+// A clip playing on part of the body over the base clip. Each layer has its own mixer,
+// updated after the base one; its bones are then blended from the base pose by weight.
+interface AnimationLayer {
+  animationType: string;
+  mixer: THREE.AnimationMixer;
+  action: THREE.AnimationAction;
+  // Bones the layer animates, with room for the base clip's pose
+  bones: { bone: THREE.Object3D; quaternion: THREE.Quaternion; position: THREE.Vector3 }[];
+  weight: number;
+  targetWeight: number;
+  // Weight change per second while fading
+  fadeSpeed: number;
+}
+
+// Rotate a bone by a yaw and pitch given in the avatar's space.
+// avatarInverse must hold the inverse of the avatar's world rotation for this frame.
+function turnBone(bone: THREE.Object3D, yaw: number, pitch: number) {
+  if (!bone.parent || (yaw === 0 && pitch === 0)) return;
+  parentInAvatar.copy(avatarInverse).multiply(bone.parent.getWorldQuaternion(turnRotation));
+  parentInverse.copy(parentInAvatar).invert();
+  turnEuler.set(pitch, yaw, 0);
+  turnRotation.setFromEuler(turnEuler).premultiply(parentInverse).multiply(parentInAvatar);
+  bone.quaternion.premultiply(turnRotation);
+}
 
 // Component to display avatar with animations
-function AnimatedAvatar({
+export function AnimatedAvatar({
   avatarUrl,
-  animationType = 'idle'
+  characterId,
+  animationType = 'idle',
+  onAnimationChange,
+  faceLife = DEFAULT_FACE_LIFE,
+  lookAt,
+  rootRef,
+  constrainRoot,
+  onRootMove
 }: {
   avatarUrl: string;
+  characterId: string;
   animationType?: string;
+  onAnimationChange?: (animationType: string) => void;
+  faceLife?: FaceLifeSettings;
+  lookAt?: LookAtTarget;
+  // Object moved by extracted root motion; without it every clip plays in place
+  rootRef?: React.RefObject<THREE.Object3D | null>;
+  // Keeps the root inside the scene, given and returning [x, z]
+  constrainRoot?: (x: number, z: number) => [number, number];
+  // Called with the root's [x, z] once root motion stops moving it
+  onRootMove?: (position: [number, number]) => void;
 }) {
   const group = useRef<THREE.Group>(null);
-  const { scene: avatarScene } = useGLTF(avatarUrl);
+  const { scene: gltfScene } = useGLTF(avatarUrl);
+  // Each avatar gets its own skeleton so the same model can stand on the stage more than once
+  const avatarScene = useMemo(() => cloneSkinned(gltfScene), [gltfScene]);
   const mixerRef = useRef<THREE.AnimationMixer | null>(null);
   const actionsRef = useRef<{ [key: string]: THREE.AnimationAction }>({});
-  const [animationsLoaded, setAnimationsLoaded] = useState<Set<string>>(new Set());
-  const skinnedMeshRef = useRef<any>(null);
-  const lipSyncIntervalRef = useRef<NodeJS.Timeout | null>(null);
-
-  // Build animation URL
-  const getAnimationUrl = (type: string) => `/animations/${type}.glb`;
+  const currentAnimationRef = useRef<string | null>(null);
+  const requestedAnimationRef = useRef<string | null>(null);
+  const playOptionsRef = useRef<PlayAnimationOptions>({});
+  const loopCountRef = useRef(0);
+  const finishedListenersRef = useRef(new Set<(animationType: string) => void>());
+  const updateListenersRef = useRef(new Set<(delta: number) => void>());
+  const lastLoopingAnimationRef = useRef<string>('idle');
+  const onAnimationChangeRef = useRef(onAnimationChange);
+  onAnimationChangeRef.current = onAnimationChange;
+  const morphMeshesRef = useRef<THREE.Mesh[]>([]);
+  const lipSyncSourceRef = useRef<LipSyncSource | null>(null);
+  const babbleRef = useRef<LipSyncSource | null>(null);
+  const visemeWeightsRef = useRef<VisemeWeights>({});
+  // Expression of the clip that is playing, and one set from the UI or a script (which wins)
+  const clipExpressionRef = useRef<string | null>(null);
+  const manualExpressionRef = useRef<{ id: string; intensity: number; remaining?: number } | null>(null);
+  const expressionWeightsRef = useRef<BlendShapeWeights>({});
+  const activeExpressionRef = useRef<FacialExpression | null>(null);
+  const faceLifeRef = useRef<FaceLife | null>(null);
+  const gazeRef = useRef<[number, number]>([0, 0]);
+  // Neck, head and eye bones with their pose as the clip left it
+  const lookBonesRef = useRef<{ [name: string]: { bone: THREE.Object3D; pose: THREE.Quaternion } }>({});
+  // The character's own look-at setting, and one set by a script (which wins)
+  const lookAtRef = useRef(lookAt);
+  lookAtRef.current = lookAt;
+  const scriptLookAtRef = useRef<LookAtTarget | null>(null);
+  const headAnglesRef = useRef<[number, number]>([0, 0]);
+  const eyeAnglesRef = useRef<[number, number]>([0, 0]);
+  // Horizontal travel of each loaded clip, and each action's time when the root last moved
+  const rootMotionsRef = useRef<{ [key: string]: RootMotion }>({});
+  const rootTimesRef = useRef(new Map<THREE.AnimationAction, number>());
+  const rootMovingRef = useRef(false);
+  const onRootMoveRef = useRef(onRootMove);
+  onRootMoveRef.current = onRootMove;
+  const constrainRootRef = useRef(constrainRoot);
+  constrainRootRef.current = constrainRoot;
+  // Locomotion blend space: the velocity asked for and each clip's smoothed weight (null
+  // until the clips have loaded). While it is set the blend owns the base clips.
+  const blendSpaceRef = useRef<{ velocity: LocomotionVelocity; weights: BlendWeights | null } | null>(null);
+  // Transport: pause and speed apply to every clip, the A-B range to the current one. While a
+  // range is set the clip loops; rangeLoopRef is whether it loops once the range is cleared.
+  const pausedRef = useRef(false);
+  const speedRef = useRef(1);
+  const loopRangeRef = useRef<[number, number] | null>(null);
+  const rangeLoopRef = useRef(true);
+  const layersRef = useRef<Partial<Record<BoneMaskName, AnimationLayer>>>({});
+  // Clip last asked for on each mask, so a slow load doesn't override a newer request
+  const requestedLayersRef = useRef<Partial<Record<BoneMaskName, string>>>({});
 
-  // Start lip sync animation
+  // Talk clips mouth nonsense syllables unless a lip sync source has taken over
   const startLipSync = () => {
-    if (!skinnedMeshRef.current || !skinnedMeshRef.current.morphTargetDictionary) return;
-
-    const mesh = skinnedMeshRef.current;
-    const dict = mesh.morphTargetDictionary;
-
-    // Available visemes for lip sync
-    const visemes = [
-      'viseme_sil', 'viseme_PP', 'viseme_FF', 'viseme_TH',
-      'viseme_DD', 'viseme_kk', 'viseme_CH', 'viseme_SS', 'viseme_nn',
-      'mouthOpen'
-    ];
-
-    // Filter to only available visemes
-    const availableVisemes = visemes.filter(v => dict[v] !== undefined);
-
-    if (availableVisemes.length === 0) return;
-
-    // Animate mouth randomly to simulate talking
-    lipSyncIntervalRef.current = setInterval(() => {
-      // Reset all visemes
-      availableVisemes.forEach(viseme => {
-        const index = dict[viseme];
-        if (index !== undefined) {
-          mesh.morphTargetInfluences[index] = 0;
-        }
+    babbleRef.current = createBabbleLipSync();
+  };
+
+  const stopLipSync = () => {
+    babbleRef.current = null;
+  };
+
+  // Move the mouth towards the current source's visemes, smoothed so it doesn't snap
+  const updateLipSync = (delta: number) => {
+    const meshes = morphMeshesRef.current;
+    if (meshes.length === 0) return;
+
+    let target: VisemeWeights | null = null;
+    if (lipSyncSourceRef.current) {
+      target = lipSyncSourceRef.current.sample();
+      if (!target) lipSyncSourceRef.current = null;
+    }
+    if (!target && babbleRef.current) {
+      target = babbleRef.current.sample();
+    }
+
+    const weights = visemeWeightsRef.current;
+    let openness = 0;
+    VISEME_NAMES.forEach(viseme => {
+      const goal = target?.[viseme] ?? 0;
+      const current = weights[viseme] ?? 0;
+      const speed = goal > current ? LIP_SYNC_ATTACK : LIP_SYNC_RELEASE;
+      weights[viseme] = current + (goal - current) * (1 - Math.exp(-speed * delta));
+      openness = Math.max(openness, weights[viseme]! * VISEME_OPENNESS[viseme]);
+    });
+
+    meshes.forEach(mesh => {
+      const dict = mesh.morphTargetDictionary!;
+      const influences = mesh.morphTargetInfluences!;
+      VISEME_NAMES.forEach(viseme => {
+        const index = dict[getMorphTargetName(viseme)];
+        if (index !== undefined) influences[index] = weights[viseme] ?? 0;
       });
+      // Avatars without visemes just open and close the mouth
+      if (dict.mouthOpen !== undefined && dict[getMorphTargetName('aa')] === undefined) {
+        influences[dict.mouthOpen] = openness;
+      }
+    });
+  };
 
-      // Randomly activate 1-2 visemes
-      const numVisemes = Math.random() > 0.7 ? 2 : 1;
-      for (let i = 0; i < numVisemes; i++) {
-        const randomViseme = availableVisemes[Math.floor(Math.random() * availableVisemes.length)];
-        const index = dict[randomViseme];
-        if (index !== undefined) {
-          // Random intensity between 0.3 and 1.0
-          mesh.morphTargetInfluences[index] = 0.3 + Math.random() * 0.7;
-        }
+  // Blend the active expression into the face, keeping the lips free for visemes while speaking
+  const updateExpression = (delta: number) => {
+    const meshes = morphMeshesRef.current;
+    if (meshes.length === 0) return;
+
+    const manual = manualExpressionRef.current;
+    if (manual?.remaining !== undefined) {
+      manual.remaining -= delta;
+      if (manual.remaining <= 0) manualExpressionRef.current = null;
+    }
+
+    const active = manualExpressionRef.current
+      || (clipExpressionRef.current ? { id: clipExpressionRef.current, intensity: 1 } : null);
+    const expression = active ? getExpression(active.id) : undefined;
+    const mouthActivity = Math.min(1, Math.max(0, ...Object.values(visemeWeightsRef.current).map(w => w ?? 0)));
+    const target = expression ? getExpressionWeights(expression, active!.intensity, mouthActivity) : {};
+    activeExpressionRef.current = expression ?? null;
+
+    const weights = expressionWeightsRef.current;
+    const blend = 1 - Math.exp(-EXPRESSION_BLEND_SPEED * delta);
+    new Set([...Object.keys(weights), ...Object.keys(target)]).forEach(shape => {
+      const current = weights[shape] ?? 0;
+      weights[shape] = current + ((target[shape] ?? 0) - current) * blend;
+    });
+
+    meshes.forEach(mesh => {
+      const dict = mesh.morphTargetDictionary!;
+      const influences = mesh.morphTargetInfluences!;
+      Object.entries(weights).forEach(([shape, weight]) => {
+        resolveMorphTargets(dict, shape).forEach(index => {
+          influences[index] = weight;
+        });
+      });
+    });
+
+    // Forget shapes that have relaxed back to zero
+    Object.keys(weights).forEach(shape => {
+      if (target[shape] === undefined && weights[shape] < 0.001) delete weights[shape];
+    });
+  };
+
+  // Put the turned bones back where the clip left them, so the offsets don't add up
+  // on bones the clip doesn't animate
+  const restoreLookBones = () => {
+    Object.values(lookBonesRef.current).forEach(({ bone, pose }) => bone.quaternion.copy(pose));
+  };
+
+  // Blink on top of the clip and the expression, and pick the eyes' next saccade
+  const updateFaceLife = (delta: number) => {
+    if (!faceLifeRef.current) faceLifeRef.current = new FaceLife(faceLife);
+    const frame = faceLifeRef.current.update(delta, activeExpressionRef.current?.suppressBlink);
+    gazeRef.current = frame.gaze;
+
+    morphMeshesRef.current.forEach(mesh => {
+      const dict = mesh.morphTargetDictionary!;
+      const influences = mesh.morphTargetInfluences!;
+      // Avatars without ARKit shapes only have eyesClosed
+      const shape = resolveMorphTargets(dict, 'eyeBlink').length > 0 ? 'eyeBlink' : 'eyesClosed';
+      const base = expressionWeightsRef.current[shape] ?? 0;
+      resolveMorphTargets(dict, shape).forEach(index => {
+        influences[index] = Math.max(base, frame.blink);
+      });
+    });
+  };
+
+  // World position of a look-at target, or null to look straight ahead
+  const getLookTargetPosition = (target: LookAtTarget | undefined, camera: THREE.Camera): THREE.Vector3 | null => {
+    switch (target?.type) {
+      case 'camera':
+        return camera.getWorldPosition(lookTarget);
+      case 'character': {
+        if (target.characterId === characterId) return null;
+        const position = getAvatarController(target.characterId)?.getHeadPosition();
+        return position ? lookTarget.set(...position) : null;
       }
+      case 'point':
+        return lookTarget.set(...target.position);
+      default:
+        return null;
+    }
+  };
 
-      // Sometimes close mouth completely (silence)
-      if (Math.random() > 0.8) {
-        availableVisemes.forEach(viseme => {
-          const index = dict[viseme];
-          if (index !== undefined) {
-            mesh.morphTargetInfluences[index] = 0;
-          }
+  // Turn the neck, head and eyes towards the target on top of the clip. The eyes get
+  // there first and re-centre as the head catches up; saccades are added to the eyes.
+  const updateLookAt = (delta: number, camera: THREE.Camera) => {
+    const avatar = group.current?.children[0];
+    const bones = lookBonesRef.current;
+    if (!avatar) return;
+    Object.values(bones).forEach(({ bone, pose }) => pose.copy(bone.quaternion));
+
+    avatar.getWorldQuaternion(avatarInverse).invert();
+    const target = getLookTargetPosition(scriptLookAtRef.current ?? lookAtRef.current, camera);
+    let angles: [number, number] | null = null;
+    if (target && bones.Head) {
+      bones.Head.bone.getWorldPosition(headPosition);
+      target.sub(headPosition).applyQuaternion(avatarInverse);
+      angles = getLookAngles([target.x, target.y, target.z]);
+    }
+
+    const head = headAnglesRef.current;
+    const headGoal = angles ? limitLookAngles(angles, HEAD_LIMITS) : [0, 0];
+    const headStep = 1 - Math.exp(-LOOK_AT_HEAD_SPEED * delta);
+    head[0] += (headGoal[0] - head[0]) * headStep;
+    head[1] += (headGoal[1] - head[1]) * headStep;
+
+    const eyes = eyeAnglesRef.current;
+    const eyeGoal = angles ? limitLookAngles([angles[0] - head[0], angles[1] - head[1]], EYE_LIMITS) : [0, 0];
+    const eyeStep = 1 - Math.exp(-LOOK_AT_EYE_SPEED * delta);
+    eyes[0] += (eyeGoal[0] - eyes[0]) * eyeStep;
+    eyes[1] += (eyeGoal[1] - eyes[1]) * eyeStep;
+
+    const headShare = bones.Neck ? 1 - NECK_SHARE : 1;
+    if (bones.Neck) turnBone(bones.Neck.bone, head[0] * NECK_SHARE, head[1] * NECK_SHARE);
+    if (bones.Head) turnBone(bones.Head.bone, head[0] * headShare, head[1] * headShare);
+
+    const [gazeYaw, gazePitch] = gazeRef.current;
+    [bones.LeftEye, bones.RightEye].forEach(eye => {
+      if (eye) turnBone(eye.bone, eyes[0] + gazeYaw, eyes[1] + gazePitch);
+    });
+  };
+
+  const setExpression = (id: string | null, options: ExpressionOptions = {}) => {
+    if (id && !getExpression(id)) {
+      console.warn(`Unknown facial expression '${id}'`);
+      return;
+    }
+    manualExpressionRef.current = id
+      ? { id, intensity: options.intensity ?? 1, remaining: options.duration }
+      : null;
+  };
+
+  const hasLipSyncLayer = () =>
+    Object.values(layersRef.current).some(layer => isLipSyncAnimation(layer!.animationType));
+
+  const removeLayer = (mask: BoneMaskName) => {
+    const layer = layersRef.current[mask];
+    if (!layer) return;
+    layer.mixer.stopAllAction();
+    layer.mixer.uncacheRoot(layer.mixer.getRoot());
+    delete layersRef.current[mask];
+    if (!hasLipSyncLayer() && !isLipSyncAnimation(currentAnimationRef.current || '')) {
+      stopLipSync();
+    }
+  };
+
+  const clearLayers = () => {
+    (Object.keys(layersRef.current) as BoneMaskName[]).forEach(removeLayer);
+    requestedLayersRef.current = {};
+  };
+
+  // Play a clip on the masked bones only, crossfading from the layer's previous clip
+  const playLayer = (animType: string, options: AnimationLayerOptions) => {
+    const { mask } = options;
+    requestedLayersRef.current[mask] = animType;
+
+    loadAnimationClip(animType).then(sourceClip => {
+      const avatar = group.current?.children[0];
+      if (!avatar || requestedLayersRef.current[mask] !== animType) return;
+
+      // Layers never move the character
+      const tracks = filterTracksByMask(prepareClip(sourceClip, 'inPlace').clip.tracks, mask);
+      if (tracks.length === 0) {
+        console.warn(`Animation ${animType} doesn't move the ${BONE_MASKS[mask].label.toLowerCase()}`);
+        return;
+      }
+      const clip = new THREE.AnimationClip(`${animType}@${mask}`, sourceClip.duration, tracks);
+      const blendTime = options.blendTime ?? getBlendTime(animType);
+
+      const previous = layersRef.current[mask];
+      const mixer = previous?.mixer || new THREE.AnimationMixer(avatar);
+      const action = mixer.clipAction(clip);
+      if (isLoopingAnimation(animType)) {
+        action.setLoop(THREE.LoopRepeat, Infinity);
+      } else {
+        const loops = options.loops ?? 1;
+        action.setLoop(loops === 1 ? THREE.LoopOnce : THREE.LoopRepeat, loops);
+        action.clampWhenFinished = true;
+      }
+      action.play();
+      if (previous) {
+        action.crossFadeFrom(previous.action, blendTime, false);
+      } else {
+        // One-shots fade the layer out again once they're done
+        mixer.addEventListener('finished', event => {
+          if (layersRef.current[mask]?.action === event.action) stopLayer(mask);
         });
       }
-    }, 100); // Change mouth shape every 100ms
+
+      const boneNames = Array.from(new Set(tracks.map(track => getTrackBone(track.name))));
+      layersRef.current[mask] = {
+        animationType: animType,
+        mixer,
+        action,
+        bones: boneNames
+          .map(name => avatar.getObjectByName(name))
+          .filter((bone): bone is THREE.Object3D => bone !== undefined)
+          .map(bone => ({ bone, quaternion: new THREE.Quaternion(), position: new THREE.Vector3() })),
+        weight: previous?.weight ?? 0,
+        targetWeight: Math.max(0, Math.min(1, options.weight ?? 1)),
+        fadeSpeed: 1 / Math.max(blendTime, 0.01)
+      };
+      console.log(`Layer ${mask} playing ${animType} (blend ${blendTime}s)`);
+
+      if (isLipSyncAnimation(animType)) startLipSync();
+    }).catch(error => {
+      console.warn(`Failed to load layer animation ${animType}:`, error);
+    });
   };
 
-  // Stop lip sync animation
-  const stopLipSync = () => {
-    if (lipSyncIntervalRef.current) {
-      clearInterval(lipSyncIntervalRef.current);
-      lipSyncIntervalRef.current = null;
-    }
-
-    // Reset all morph targets
-    if (skinnedMeshRef.current && skinnedMeshRef.current.morphTargetDictionary) {
-      const mesh = skinnedMeshRef.current;
-      const dict = mesh.morphTargetDictionary;
-      Object.keys(dict).forEach(key => {
-        const index = dict[key];
-        if (index !== undefined) {
-          mesh.morphTargetInfluences[index] = 0;
-        }
+  const stopLayer = (mask: BoneMaskName, blendTime?: number) => {
+    delete requestedLayersRef.current[mask];
+    const layer = layersRef.current[mask];
+    if (!layer) return;
+    layer.targetWeight = 0;
+    layer.fadeSpeed = 1 / Math.max(blendTime ?? getBlendTime(layer.animationType), 0.01);
+  };
+
+  // Run each layer's mixer over the base pose and blend its bones in by the layer weight
+  const updateLayers = (delta: number) => {
+    (Object.keys(layersRef.current) as BoneMaskName[]).forEach(mask => {
+      const layer = layersRef.current[mask]!;
+      const step = layer.fadeSpeed * delta;
+      layer.weight += Math.max(-step, Math.min(step, layer.targetWeight - layer.weight));
+      if (layer.weight <= 0 && layer.targetWeight === 0) {
+        removeLayer(mask);
+        return;
+      }
+
+      layer.bones.forEach(entry => {
+        entry.quaternion.copy(entry.bone.quaternion);
+        entry.position.copy(entry.bone.position);
       });
+      layer.mixer.update(delta);
+      if (layer.weight < 1) {
+        layer.bones.forEach(({ bone, quaternion, position }) => {
+          bone.quaternion.copy(quaternion.slerp(bone.quaternion, layer.weight));
+          bone.position.copy(position.lerp(bone.position, layer.weight));
+        });
+      }
+    });
+  };
+
+  // Move the root by the extracted root motion of every clip that is playing, weighted
+  // like the clips themselves so crossfades between walk and run stay smooth
+  const updateRootMotion = () => {
+    const root = rootRef?.current;
+    const hipsParent = avatarScene.getObjectByName('Hips')?.parent;
+    if (!root || !hipsParent) return;
+
+    let x = 0;
+    let z = 0;
+    Object.entries(actionsRef.current).forEach(([type, action]) => {
+      const motion = rootMotionsRef.current[type];
+      const lastTime = rootTimesRef.current.get(action);
+      rootTimesRef.current.set(action, action.time);
+      if (!motion || lastTime === undefined || !action.isRunning()) return;
+
+      const weight = action.getEffectiveWeight();
+      const [dx, dz] = getRootDisplacement(motion, lastTime, action.time);
+      x += dx * weight;
+      z += dz * weight;
+    });
+
+    if (x === 0 && z === 0) {
+      // Tell the app where the character ended up
+      if (rootMovingRef.current) {
+        rootMovingRef.current = false;
+        onRootMoveRef.current?.([root.position.x, root.position.z]);
+      }
+      return;
     }
+
+    // From the hips' parent space into the space the root is positioned in
+    rootStep.set(x, 0, z).applyMatrix3(rootMatrix.setFromMatrix4(hipsParent.matrixWorld));
+    if (root.parent) rootStep.applyMatrix3(rootMatrix.setFromMatrix4(root.parent.matrixWorld).invert());
+    root.position.x += rootStep.x;
+    root.position.z += rootStep.z;
+    if (constrainRootRef.current) {
+      const [constrainedX, constrainedZ] = constrainRootRef.current(root.position.x, root.position.z);
+      root.position.x = constrainedX;
+      root.position.z = constrainedZ;
+    }
+    rootMovingRef.current = true;
   };
 
-  // Dynamically load animation when requested
-  const loadAnimation = async (animType: string) => {
-    if (animationsLoaded.has(animType) || !mixerRef.current || !group.current) return;
+  // Load an animation clip and create its action on this avatar's mixer
+  const loadAnimation = async (animType: string): Promise<THREE.AnimationAction | null> => {
+    if (actionsRef.current[animType]) return actionsRef.current[animType];
 
     try {
-      const url = getAnimationUrl(animType);
-      // Load the animation GLB file
-      const loader = new GLTFLoader();
-
-      loader.load(
-        url,
-        (gltf) => {
-          if (gltf.animations && gltf.animations.length > 0 && mixerRef.current && group.current) {
-            const clip = gltf.animations[0].clone();
-
-            // Keep avatar in place while animating
-            clip.tracks.forEach((track: any) => {
-              if (track.name === 'Hips.position') {
-                const values = track.values;
-                const itemSize = 3;
-                // Zero out Z (forward) movement
-                for (let i = 2; i < values.length; i += itemSize) {
-                  values[i] = 0;
-                }
-              }
-            });
-
-            // Find the avatar (not the group) to apply the animation to
-            const avatar = group.current.children[0];
-            if (avatar) {
-              const action = mixerRef.current.clipAction(clip, avatar);
-              actionsRef.current[animType] = action;
-              setAnimationsLoaded(prev => new Set(prev).add(animType));
-            }
-          }
-        },
-        undefined,
-        (error: any) => {
-          console.warn(`Failed to load animation ${animType}:`, error);
-        }
-      );
+      const mixer = mixerRef.current;
+      const sourceClip = await loadAnimationClip(animType);
+
+      // The avatar may have been swapped (or the clip loaded twice) while we waited
+      if (!mixer || mixer !== mixerRef.current || !group.current) return null;
+      if (actionsRef.current[animType]) return actionsRef.current[animType];
+
+      const { clip, rootMotion } = prepareClip(sourceClip, getRootMotionMode(animType));
+      if (rootMotion && getRootMotionMode(animType) === 'extract') {
+        rootMotionsRef.current[animType] = rootMotion;
+      }
+
+      // Find the avatar (not the group) to apply the animation to
+      const avatar = group.current.children[0];
+      if (!avatar) return null;
+
+      const action = mixer.clipAction(clip, avatar);
+      actionsRef.current[animType] = action;
+      return action;
     } catch (error) {
       console.warn(`Failed to load animation ${animType}:`, error);
+      return null;
+    }
+  };
+
+  // Play every clip in the blend space at once, starting from where the current clip is in
+  // its gait cycle. Clips that aren't part of the blend fade out.
+  const startBlendSpace = (blend: { velocity: LocomotionVelocity; weights: BlendWeights | null }) => {
+    const clips = LOCOMOTION_BLEND_SPACE.map(point => point.clip);
+    const previousType = currentAnimationRef.current;
+    const previousAction = previousType ? actionsRef.current[previousType] : null;
+    const phase = previousAction && clips.includes(previousType!)
+      ? previousAction.time / previousAction.getClip().duration
+      : 0;
+
+    const weights = getBlendWeights(LOCOMOTION_BLEND_SPACE, blend.velocity);
+    blend.weights = weights;
+    clips.forEach(clip => {
+      const action = actionsRef.current[clip]!;
+      if (action !== previousAction) {
+        action.reset();
+        action.time = phase * action.getClip().duration;
+      }
+      action.stopFading();
+      action.stopWarping();
+      action.setLoop(THREE.LoopRepeat, Infinity);
+      action.setEffectiveWeight(weights[clip] ?? 0);
+      action.play();
+      rootTimesRef.current.set(action, action.time);
+    });
+    if (previousAction && !clips.includes(previousType!)) {
+      previousAction.fadeOut(BLEND_SPACE_FADE);
+    }
+
+    stopLipSync();
+    clipExpressionRef.current = null;
+    playOptionsRef.current = {};
+    loopCountRef.current = 0;
+    console.log('Locomotion blend started');
+  };
+
+  // Hand the base clips back from the blend, keeping the given clip (or the strongest one)
+  // playing at full weight while the rest fade out
+  const stopBlendSpace = (keep: string, fadeTime: number) => {
+    const blend = blendSpaceRef.current;
+    blendSpaceRef.current = null;
+    if (!blend?.weights) return;
+
+    const clips = LOCOMOTION_BLEND_SPACE.map(point => point.clip);
+    const keeper = clips.includes(keep) ? keep : currentAnimationRef.current;
+    clips.forEach(clip => {
+      const action = actionsRef.current[clip];
+      if (!action) return;
+      if (clip === keeper) {
+        action.setEffectiveTimeScale(1);
+        action.setEffectiveWeight(1);
+      } else {
+        action.fadeOut(fadeTime);
+      }
+    });
+    currentAnimationRef.current = keeper;
+  };
+
+  // Ease the blend weights towards the velocity asked for. Moving clips are time-scaled to one
+  // shared cycle length so their feet stay in step; the standing clip plays at its own pace.
+  const updateBlendSpace = (delta: number) => {
+    const blend = blendSpaceRef.current;
+    const weights = blend?.weights;
+    if (!blend || !weights) return;
+
+    const targets = getBlendWeights(LOCOMOTION_BLEND_SPACE, blend.velocity);
+    const rate = getBlendPlaybackRate(LOCOMOTION_BLEND_SPACE, targets, blend.velocity);
+    const response = 1 - Math.exp(-BLEND_SPACE_RESPONSE * delta);
+
+    let strongest = currentAnimationRef.current;
+    let strongestWeight = 0;
+    let movingWeight = 0;
+    let cycle = 0;
+    LOCOMOTION_BLEND_SPACE.forEach(({ clip, velocity }) => {
+      const weight = (weights[clip] ?? 0) + ((targets[clip] ?? 0) - (weights[clip] ?? 0)) * response;
+      weights[clip] = weight;
+      if (weight > strongestWeight) {
+        strongest = clip;
+        strongestWeight = weight;
+      }
+      const action = actionsRef.current[clip];
+      if (action && (velocity[0] !== 0 || velocity[1] !== 0)) {
+        movingWeight += weight;
+        cycle += weight * action.getClip().duration;
+      }
+    });
+    if (movingWeight > 0) cycle /= movingWeight;
+
+    LOCOMOTION_BLEND_SPACE.forEach(({ clip, velocity }) => {
+      const action = actionsRef.current[clip];
+      if (!action) return;
+      const moving = velocity[0] !== 0 || velocity[1] !== 0;
+      action.setEffectiveWeight(weights[clip] ?? 0);
+      action.setEffectiveTimeScale(moving && cycle > 0 ? (action.getClip().duration / cycle) * rate : 1);
+    });
+
+    // Report the strongest clip as the one playing, and return to it after a one-shot
+    if (strongest) {
+      currentAnimationRef.current = strongest;
+      lastLoopingAnimationRef.current = strongest;
+    }
+  };
+
+  // Move with the locomotion blend space, starting it (once its clips have loaded) if needed
+  const setLocomotion = (velocity: LocomotionVelocity | null) => {
+    const blend = blendSpaceRef.current;
+    if (!velocity) {
+      // Settle back into the standing clip
+      if (blend) {
+        requestAnimation('idle');
+        onAnimationChangeRef.current?.('idle');
+      }
+      return;
+    }
+    if (blend) {
+      blend.velocity = velocity;
+      return;
+    }
+
+    const started = { velocity, weights: null };
+    blendSpaceRef.current = started;
+    // A clip still loading would otherwise take over once it arrives
+    requestedAnimationRef.current = null;
+    Promise.all(LOCOMOTION_BLEND_SPACE.map(point => loadAnimation(point.clip))).then(actions => {
+      if (blendSpaceRef.current !== started) return;
+      if (actions.some(action => !action)) {
+        console.warn('Locomotion blend clips failed to load');
+        blendSpaceRef.current = null;
+        return;
+      }
+      startBlendSpace(started);
+    });
+  };
+
+  // Crossfade from the clip that is playing now to the given action
+  const playAnimation = (animType: string, action: THREE.AnimationAction, options: PlayAnimationOptions = {}) => {
+    // A clip asked for by name takes over from the locomotion blend
+    if (blendSpaceRef.current) {
+      stopBlendSpace(animType, options.blendTime ?? getBlendTime(animType));
+    }
+
+    const previousType = currentAnimationRef.current;
+    const looping = isLoopingAnimation(animType);
+
+    // Re-selecting a running loop keeps it going (and restarts its loop count)
+    if (previousType === animType && looping) {
+      playOptionsRef.current = options;
+      loopCountRef.current = 0;
+      return;
+    }
+
+    const previousAction = previousType ? actionsRef.current[previousType] : null;
+    const blendTime = options.blendTime ?? getTransitionBlendTime(previousType, animType);
+    // An A-B range belongs to the clip it was set on
+    loopRangeRef.current = null;
+    const synced = isSyncedTransition(previousType, animType);
+    playOptionsRef.current = options;
+    loopCountRef.current = 0;
+
+    // Stop any existing lip sync
+    stopLipSync();
+    clipExpressionRef.current = getClipExpression(animType) ?? null;
+
+    action.reset();
+    action.setEffectiveTimeScale(1);
+    action.setEffectiveWeight(1);
+
+    // Set loop mode - one-shots play the requested number of times and hold the last frame.
+    // Looping clips always keep looping; a loop count only decides when 'finished' is reported.
+    if (!looping) {
+      const loops = options.loops ?? 1;
+      action.setLoop(loops === 1 ? THREE.LoopOnce : THREE.LoopRepeat, loops);
+      action.clampWhenFinished = true;
+    } else {
+      action.setLoop(THREE.LoopRepeat, Infinity);
+    }
+
+    if (previousAction && previousAction !== action) {
+      // Locomotion clips start at the same point in the gait cycle as the outgoing clip
+      if (synced) {
+        const phase = previousAction.time / previousAction.getClip().duration;
+        action.time = phase * action.getClip().duration;
+      }
+      action.play();
+      action.crossFadeFrom(previousAction, blendTime, synced);
+    } else {
+      action.play();
+    }
+    rootTimesRef.current.set(action, action.time);
+
+    currentAnimationRef.current = animType;
+    if (looping) {
+      lastLoopingAnimationRef.current = animType;
+    }
+    console.log('Animation switched to:', animType, `(blend ${blendTime}s${synced ? ', synced' : ''})`);
+
+    // Start lip sync for talking animations (on the whole body or a layer)
+    if (isLipSyncAnimation(animType) || hasLipSyncLayer()) {
+      console.log('Starting lip sync for talking animation');
+      startLipSync();
+    }
+  };
+
+  const getCurrentAction = (): THREE.AnimationAction | null => {
+    const animType = currentAnimationRef.current;
+    return animType ? actionsRef.current[animType] ?? null : null;
+  };
+
+  const setActionLoop = (action: THREE.AnimationAction, loop: boolean) => {
+    if (loop) {
+      action.setLoop(THREE.LoopRepeat, Infinity);
+      // A one-shot holding its last frame starts over
+      action.paused = false;
+    } else {
+      action.setLoop(THREE.LoopOnce, 1);
+      action.clampWhenFinished = true;
+    }
+  };
+
+  const getPlayback = (): PlaybackState | null => {
+    const animType = currentAnimationRef.current;
+    const action = getCurrentAction();
+    if (!animType || !action) return null;
+    return {
+      animation: animType,
+      time: action.time,
+      duration: action.getClip().duration,
+      frameRate: getAnimationClipInfo(animType)?.frameRate ?? DEFAULT_FRAME_RATE,
+      paused: pausedRef.current,
+      speed: speedRef.current,
+      loop: loopRangeRef.current ? rangeLoopRef.current : action.loop === THREE.LoopRepeat,
+      range: loopRangeRef.current
+    };
+  };
+
+  const setPlayback = (changes: PlaybackChanges) => {
+    if (changes.paused !== undefined) pausedRef.current = changes.paused;
+    if (changes.speed !== undefined) {
+      speedRef.current = Math.max(MIN_PLAYBACK_SPEED, Math.min(MAX_PLAYBACK_SPEED, changes.speed));
+    }
+
+    const action = getCurrentAction();
+    if (!action) return;
+    if (changes.loop !== undefined) {
+      if (loopRangeRef.current) {
+        rangeLoopRef.current = changes.loop;
+      } else {
+        setActionLoop(action, changes.loop);
+      }
+    }
+    if (changes.range !== undefined) {
+      const duration = action.getClip().duration;
+      const range = changes.range
+        ? [Math.max(0, Math.min(...changes.range)), Math.min(duration, Math.max(...changes.range))] as [number, number]
+        : null;
+      if (range && range[1] - range[0] > 0) {
+        if (!loopRangeRef.current) rangeLoopRef.current = action.loop === THREE.LoopRepeat;
+        loopRangeRef.current = range;
+        setActionLoop(action, true);
+      } else if (loopRangeRef.current) {
+        loopRangeRef.current = null;
+        setActionLoop(action, rangeLoopRef.current);
+      }
+    }
+  };
+
+  // Jump the current clip to a time. The character doesn't travel while scrubbing.
+  const seek = (time: number) => {
+    const action = getCurrentAction();
+    if (!action) return;
+    action.time = Math.max(0, Math.min(action.getClip().duration, time));
+    action.paused = false;
+    action.enabled = true;
+    rootTimesRef.current.set(action, action.time);
+  };
+
+  const stepFrames = (count: number) => {
+    const playback = getPlayback();
+    if (!playback) return;
+    pausedRef.current = true;
+    seek(playback.time + count / playback.frameRate);
+  };
+
+  // Send the current clip back to A once it passes B (or wraps round to before A)
+  const applyLoopRange = () => {
+    const range = loopRangeRef.current;
+    const action = getCurrentAction();
+    if (!range || !action) return;
+    if (action.time >= range[1] || action.time < range[0]) {
+      action.time = range[0];
+      rootTimesRef.current.set(action, action.time);
+    }
+  };
+
+  // Load the animation (if needed) and crossfade to it once it is ready
+  const requestAnimation = (animType: string, options?: PlayAnimationOptions): Promise<boolean> => {
+    requestedAnimationRef.current = animType;
+
+    return loadAnimation(animType).then(action => {
+      if (!action) return false;
+      // Another clip was selected while this one was loading
+      if (requestedAnimationRef.current !== animType) return true;
+      playAnimation(animType, action, options);
+      return true;
+    });
+  };
+
+  const notifyFinished = (animType: string) => {
+    Array.from(finishedListenersRef.current).forEach(listener => listener(animType));
+  };
+
+  // Count loops of a looping clip played with a loop count
+  const handleAnimationLoop = (event: { action: THREE.AnimationAction }) => {
+    const animType = currentAnimationRef.current;
+    const loops = playOptionsRef.current.loops;
+    if (!animType || actionsRef.current[animType] !== event.action) return;
+    if (loops === undefined || !isLoopingAnimation(animType)) return;
+
+    loopCountRef.current += 1;
+    if (loopCountRef.current === loops) {
+      notifyFinished(animType);
     }
   };
 
+  // A one-shot reached its last frame - tell listeners, then move on to its follow-up clip
+  const handleAnimationFinished = (event: { action: THREE.AnimationAction }) => {
+    const finishedType = Object.keys(actionsRef.current).find(
+      type => actionsRef.current[type] === event.action
+    );
+    if (!finishedType || finishedType !== currentAnimationRef.current) return;
+
+    notifyFinished(finishedType);
+    if (playOptionsRef.current.autoFollowUp === false) return;
+
+    const followUp = getFollowUp(finishedType);
+    if (!followUp) return;
+
+    const nextType = followUp.mode === 'next' ? followUp.animation
+      : followUp.mode === 'idle' ? 'idle'
+      : lastLoopingAnimationRef.current;
+
+    console.log(`One-shot ${finishedType} finished, continuing with ${nextType}`);
+    requestAnimation(nextType);
+    onAnimationChangeRef.current?.(nextType);
+  };
+
   // Setup avatar once
   useEffect(() => {
     if (!avatarScene || !group.current) return;
@@ -150,24 +907,31 @@ function AnimatedAvatar({
       group.current.remove(group.current.children[0]);
     }
 
-    // DON'T CLONE - use the original scene directly
     const avatar = avatarScene;
     group.current.add(avatar);
 
     // Create mixer for this avatar
-    mixerRef.current = new THREE.AnimationMixer(avatar);
+    const mixer = new THREE.AnimationMixer(avatar);
+    mixer.addEventListener('finished', handleAnimationFinished);
+    mixer.addEventListener('loop', handleAnimationLoop);
+    mixerRef.current = mixer;
 
     // Verify SkinnedMesh setup and check for blend shapes
     let skinnedMesh: any = null;
     let hasBlendShapes = false;
     avatar.traverse((child: any) => {
+      if (child.isBone && LOOK_BONE_NAMES.includes(child.name)) {
+        lookBonesRef.current[child.name] = { bone: child, pose: child.quaternion.clone() };
+      }
+
       if (child.isSkinnedMesh) {
         skinnedMesh = child;
-        skinnedMeshRef.current = child;
 
         // Check for morph targets (blend shapes) for facial animation
         if (child.morphTargetDictionary && child.morphTargetInfluences) {
           hasBlendShapes = true;
+          // Head, teeth and beard each carry their own copy of the visemes
+          morphMeshesRef.current.push(child);
           const morphTargets = Object.keys(child.morphTargetDictionary);
           console.log('Found blend shapes:', morphTargets.length, 'targets');
 
@@ -195,70 +959,105 @@ function AnimatedAvatar({
       console.log('No blend shapes/morph targets found - lip sync not available');
     }
 
-    // Load idle animation by default
-    loadAnimation('idle');
-
     return () => {
+      clearLayers();
       stopLipSync();
-      if (mixerRef.current) {
-        mixerRef.current.stopAllAction();
-        mixerRef.current.uncacheRoot(avatar);
-      }
+      morphMeshesRef.current = [];
+      lipSyncSourceRef.current = null;
+      visemeWeightsRef.current = {};
+      expressionWeightsRef.current = {};
+      lookBonesRef.current = {};
+      headAnglesRef.current = [0, 0];
+      eyeAnglesRef.current = [0, 0];
+      clipExpressionRef.current = null;
+      mixer.removeEventListener('finished', handleAnimationFinished);
+      mixer.removeEventListener('loop', handleAnimationLoop);
+      mixer.stopAllAction();
+      mixer.uncacheRoot(avatar);
+      actionsRef.current = {};
+      blendSpaceRef.current = null;
+      loopRangeRef.current = null;
+      rootMotionsRef.current = {};
+      rootTimesRef.current = new Map();
+      rootMovingRef.current = false;
+      currentAnimationRef.current = null;
+      requestedAnimationRef.current = null;
     };
   }, [avatarScene]);
 
-  // Play the selected animation
+  // Expose this avatar to the sequencer and other services
   useEffect(() => {
-    if (!mixerRef.current) return;
-
-    const currentAnimationType = animationType || 'idle';
-
-    // Load animation if not already loaded
-    if (!actionsRef.current[currentAnimationType]) {
-      loadAnimation(currentAnimationType);
-      return;
-    }
-
-    // Stop all animations
-    Object.values(actionsRef.current).forEach(action => {
-      action.stop();
-    });
-
-    // Stop any existing lip sync
-    stopLipSync();
-
-    // Play the selected animation
-    const action = actionsRef.current[currentAnimationType];
-    if (action) {
-      action.reset();
-      action.fadeIn(0.5);
-
-      // Set loop mode - single play for certain animations
-      const singlePlayAnimations = ['jump', 'wave', 'fall', 'happy', 'sad',
-                                    'angry', 'surprised', 'think', 'confused'];
-      if (singlePlayAnimations.includes(currentAnimationType)) {
-        action.setLoop(THREE.LoopOnce, 1);
-        action.clampWhenFinished = true;
-      } else {
-        action.setLoop(THREE.LoopRepeat, Infinity);
+    const controller: AvatarController = {
+      characterId,
+      play: (animType, options) => {
+        onAnimationChangeRef.current?.(animType);
+        return requestAnimation(animType, options);
+      },
+      getCurrentAnimation: () => currentAnimationRef.current,
+      onFinished: listener => {
+        finishedListenersRef.current.add(listener);
+        return () => finishedListenersRef.current.delete(listener);
+      },
+      onUpdate: listener => {
+        updateListenersRef.current.add(listener);
+        return () => updateListenersRef.current.delete(listener);
+      },
+      setLipSync: source => {
+        lipSyncSourceRef.current = source;
+      },
+      setExpression,
+      setLocomotion,
+      getPlayback,
+      setPlayback,
+      seek,
+      stepFrames,
+      playLayer,
+      setLayerWeight: (mask, weight) => {
+        const layer = layersRef.current[mask];
+        if (layer) layer.targetWeight = Math.max(0, Math.min(1, weight));
+      },
+      stopLayer,
+      setLookAt: target => {
+        scriptLookAtRef.current = target;
+      },
+      getHeadPosition: () => {
+        const head = lookBonesRef.current.Head?.bone || group.current;
+        return head ? head.getWorldPosition(new THREE.Vector3()).toArray() : null;
       }
+    };
+    return registerAvatarController(controller);
+  }, [characterId]);
 
-      action.play();
-      console.log('Animation switched to:', currentAnimationType);
+  // Blink settings can change while the avatar is on screen
+  useEffect(() => {
+    faceLifeRef.current?.setSettings(faceLife);
+  }, [faceLife]);
 
-      // Start lip sync for talking animations
-      const talkingAnimations = ['talk', 'talk2', 'talk3', 'talk4', 'talk5'];
-      if (talkingAnimations.includes(currentAnimationType)) {
-        console.log('Starting lip sync for talking animation');
-        startLipSync();
-      }
-    }
-  }, [animationType, animationsLoaded]);
+  // Play the selected animation, keeping the current clip running until the new one has loaded
+  useEffect(() => {
+    const currentAnimationType = animationType || 'idle';
+    // Already requested through the controller (or as a follow-up)
+    if (!mixerRef.current || requestedAnimationRef.current === currentAnimationType) return;
+    requestAnimation(currentAnimationType);
+  }, [animationType, avatarScene]);
 
   // Update mixer
   useFrame((state, delta) => {
     if (mixerRef.current) {
-      mixerRef.current.update(delta);
+      // Clips run at the transport's speed; the face keeps living while they are paused
+      const clipDelta = pausedRef.current ? 0 : delta * speedRef.current;
+      restoreLookBones();
+      updateBlendSpace(clipDelta);
+      mixerRef.current.update(clipDelta);
+      applyLoopRange();
+      updateRootMotion();
+      updateLayers(clipDelta);
+      updateLipSync(delta);
+      updateExpression(delta);
+      updateFaceLife(delta);
+      updateLookAt(delta, state.camera);
+      // Step durations follow the clips, so they stop counting while the transport is paused
+      Array.from(updateListenersRef.current).forEach(listener => listener(clipDelta));
 
       // Force SkinnedMesh to update
       if (group.current) {
@@ -275,21 +1074,81 @@ function AnimatedAvatar({
   return <group ref={group} position={[0, 0, 0]} />;
 }
 
+// Kept outside the component so re-renders don't snap the orbit target back
+export const ORBIT_TARGET: [number, number, number] = [0, 1, 0];
+
+// Moves the camera (and orbit target) when a script sends a camera cue
+export function CameraRig() {
+  const camera = useThree(state => state.camera);
+  const controls = useThree(state => state.controls) as any;
+  const moveRef = useRef<{
+    fromPosition: THREE.Vector3;
+    toPosition: THREE.Vector3;
+    fromTarget: THREE.Vector3;
+    toTarget: THREE.Vector3;
+    duration: number;
+    elapsed: number;
+  } | null>(null);
+
+  useEffect(() => {
+    return onCameraCue(cue => {
+      const currentTarget = controls?.target ? controls.target.clone() : new THREE.Vector3(...ORBIT_TARGET);
+      moveRef.current = {
+        fromPosition: camera.position.clone(),
+        toPosition: new THREE.Vector3(...cue.position),
+        fromTarget: currentTarget,
+        toTarget: cue.target ? new THREE.Vector3(...cue.target) : currentTarget.clone(),
+        duration: cue.transition ?? 0,
+        elapsed: 0
+      };
+    });
+  }, [camera, controls]);
+
+  useFrame((state, delta) => {
+    const move = moveRef.current;
+    if (!move) return;
+
+    move.elapsed += delta;
+    const t = move.duration > 0 ? Math.min(1, move.elapsed / move.duration) : 1;
+    const eased = t * t * (3 - 2 * t); // smoothstep
+
+    camera.position.lerpVectors(move.fromPosition, move.toPosition, eased);
+    if (controls?.target) {
+      controls.target.lerpVectors(move.fromTarget, move.toTarget, eased);
+      controls.update();
+    } else {
+      camera.lookAt(move.toTarget);
+    }
+
+    if (t >= 1) {
+      moveRef.current = null;
+    }
+  });
+
+  return null;
+}
+
 // Preload common animations
-const PRELOAD_ANIMATIONS = ['idle', 'walk', 'run', 'jump', 'wave', 'dance'];
-PRELOAD_ANIMATIONS.forEach(anim => {
-  useGLTF.preload(`/animations/${anim}.glb`);
+getPreloadAnimationUrls().forEach(url => {
+  useGLTF.preload(url);
 });
 
 // Main component
 export function FinalAnimator({
   avatarUrl,
   characterId,
-  animationType
+  animationType,
+  onAnimationChange,
+  faceLife,
+  lookAt
 }: {
   avatarUrl: string;
   characterId: string;
   animationType?: string;
+  // Called when the avatar moves on by itself, e.g. a one-shot returning to idle
+  onAnimationChange?: (animationType: string) => void;
+  faceLife?: FaceLifeSettings;
+  lookAt?: LookAtTarget;
 }) {
   return (
     <div id={`avatar-${characterId}`} style={{ width: '100%', height: '100%' }}>
@@ -306,14 +1165,23 @@ export function FinalAnimator({
         <directionalLight position={[10, 10, 5]} intensity={1} />
         <directionalLight position={[-10, -10, -5]} intensity={0.5} />
 
-        <AnimatedAvatar avatarUrl={avatarUrl} animationType={animationType} />
+        <AnimatedAvatar
+          avatarUrl={avatarUrl}
+          characterId={characterId}
+          animationType={animationType}
+          onAnimationChange={onAnimationChange}
+          faceLife={faceLife}
+          lookAt={lookAt}
+        />
 
         <OrbitControls
-          target={[0, 1, 0]}
+          makeDefault
+          target={ORBIT_TARGET}
           enablePan={false}
           minDistance={2}
           maxDistance={5}
         />
+        <CameraRig />
       </Canvas>
     </div>
   );
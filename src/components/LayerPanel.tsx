@@ -0,0 +1,131 @@
+import { useEffect, useState } from 'react';
+import { ANIMATION_CATEGORIES, getAnimationsByCategory } from '../services/animationRegistry';
+import { getAvatarController } from '../services/avatarControllers';
+import { BONE_MASK_NAMES, BONE_MASKS } from '../services/boneMasks';
+import { BoneMaskName } from '../types';
+
+interface Props {
+  characterId: string;
+}
+
+const inputStyle = {
+  padding: '4px 6px',
+  backgroundColor: '#111827',
+  color: 'white',
+  border: '1px solid #374151',
+  borderRadius: '4px',
+  fontSize: '11px'
+};
+
+const buttonStyle = {
+  padding: '6px 8px',
+  backgroundColor: '#3b82f6',
+  color: 'white',
+  border: 'none',
+  borderRadius: '6px',
+  cursor: 'pointer',
+  fontSize: '11px',
+  fontWeight: '500'
+};
+
+// Play a clip on part of the body (e.g. wave on the upper body) while the rest keeps the main clip
+export function LayerPanel({ characterId }: Props) {
+  const [animation, setAnimation] = useState('wave');
+  const [mask, setMask] = useState<BoneMaskName>('upperBody');
+  const [weight, setWeight] = useState(1);
+  // Masks this panel has started a layer on
+  const [activeMasks, setActiveMasks] = useState<BoneMaskName[]>([]);
+
+  useEffect(() => {
+    setActiveMasks([]);
+  }, [characterId]);
+
+  const play = () => {
+    getAvatarController(characterId)?.playLayer(animation, { mask, weight });
+    setActiveMasks(prev => (prev.includes(mask) ? prev : [...prev, mask]));
+  };
+
+  const stop = (stoppedMask: BoneMaskName) => {
+    getAvatarController(characterId)?.stopLayer(stoppedMask);
+    setActiveMasks(prev => prev.filter(m => m !== stoppedMask));
+  };
+
+  const updateWeight = (value: number) => {
+    setWeight(value);
+    getAvatarController(characterId)?.setLayerWeight(mask, value);
+  };
+
+  return (
+    <div style={{
+      display: 'flex',
+      flexDirection: 'column',
+      gap: '8px',
+      padding: '12px',
+      marginTop: '12px',
+      backgroundColor: '#1f2937',
+      borderRadius: '8px'
+    }}>
+      <h4 style={{
+        fontSize: '12px',
+        textTransform: 'uppercase',
+        color: '#9ca3af',
+        margin: 0,
+        fontWeight: '600',
+        letterSpacing: '0.5px'
+      }}>
+        Layers
+      </h4>
+
+      <div style={{ display: 'flex', gap: '4px' }}>
+        <select value={animation} onChange={(e) => setAnimation(e.target.value)} style={{ ...inputStyle, flex: 1 }}>
+          {ANIMATION_CATEGORIES.map(category => (
+            <optgroup key={category.id} label={category.label}>
+              {getAnimationsByCategory(category.id).map(anim => (
+                <option key={anim.id} value={anim.id}>{anim.label}</option>
+              ))}
+            </optgroup>
+          ))}
+        </select>
+        <select value={mask} onChange={(e) => setMask(e.target.value as BoneMaskName)} style={inputStyle}>
+          {BONE_MASK_NAMES.map(name => (
+            <option key={name} value={name}>{BONE_MASKS[name].label}</option>
+          ))}
+        </select>
+        <button style={buttonStyle} onClick={play}>▶</button>
+      </div>
+
+      <label style={{ display: 'flex', alignItems: 'center', gap: '6px', fontSize: '11px', color: '#9ca3af' }}>
+        Weight
+        <input
+          type="range"
+          min={0}
+          max={1}
+          step={0.05}
+          value={weight}
+          onChange={(e) => updateWeight(Number(e.target.value))}
+          style={{ flex: 1 }}
+        />
+        {Math.round(weight * 100)}%
+      </label>
+
+      {activeMasks.length > 0 ? (
+        <div style={{ display: 'flex', gap: '4px', flexWrap: 'wrap' }}>
+          {activeMasks.map(active => (
+            <button
+              key={active}
+              style={{ ...buttonStyle, backgroundColor: '#4b5563' }}
+              onClick={() => stop(active)}
+              title="Fade this layer out"
+            >
+              ⏹ {BONE_MASKS[active].label}
+            </button>
+          ))}
+        </div>
+      ) : (
+        <p style={{ fontSize: '11px', color: '#6b7280', margin: 0 }}>
+          One-shots fade out by themselves, loops play until stopped
+        </p>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,377 @@
+import { useEffect, useRef, useState } from 'react';
+import { ANIMATIONS } from '../services/animationRegistry';
+import { AudioLipSyncPlayback, createSilentBuffer, decodeAudioFile, playAudioLipSync } from '../services/audioLipSync';
+import { LIP_SYNC_CUE_FORMAT_LABELS, LipSyncCueImport, parseLipSyncCues } from '../services/lipSyncCues';
+import {
+  DEFAULT_MICROPHONE_SETTINGS,
+  MicrophoneLipSync,
+  MicrophoneSettings,
+  startMicrophoneLipSync
+} from '../services/microphoneLipSync';
+import {
+  DEFAULT_VOICE,
+  getVoices,
+  isSpeechSynthesisSupported,
+  speakAloud,
+  SpeechPlayback
+} from '../services/speechSynthesis';
+import { speakText, TextLipSyncPlayback } from '../services/textLipSync';
+import { getTimelineDuration } from '../services/visemes';
+import { Character, CharacterVoice } from '../types';
+
+interface Props {
+  character: Character;
+  onVoiceChange: (voice: CharacterVoice) => void;
+}
+
+const TALK_ANIMATIONS = ANIMATIONS.filter(anim => anim.lipSync);
+
+const inputStyle = {
+  padding: '4px 6px',
+  backgroundColor: '#111827',
+  color: 'white',
+  border: '1px solid #374151',
+  borderRadius: '4px',
+  fontSize: '11px'
+};
+
+const buttonStyle = {
+  padding: '6px 8px',
+  backgroundColor: '#3b82f6',
+  color: 'white',
+  border: 'none',
+  borderRadius: '6px',
+  cursor: 'pointer',
+  fontSize: '11px',
+  fontWeight: '500'
+};
+
+export function LipSyncPanel({ character, onVoiceChange }: Props) {
+  const characterId = character.id;
+  const voice = { ...DEFAULT_VOICE, ...character.voice };
+  const [audio, setAudio] = useState<{ name: string; buffer: AudioBuffer } | null>(null);
+  const [cueFile, setCueFile] = useState<{ name: string; cues: LipSyncCueImport } | null>(null);
+  const [animation, setAnimation] = useState(TALK_ANIMATIONS[0]?.id || 'talk');
+  const [status, setStatus] = useState('');
+  const [playing, setPlaying] = useState(false);
+  const [line, setLine] = useState('');
+  const [voices, setVoices] = useState<SpeechSynthesisVoice[]>([]);
+  const playbackRef = useRef<AudioLipSyncPlayback | null>(null);
+  const speechRef = useRef<SpeechPlayback | null>(null);
+  const lineRef = useRef<TextLipSyncPlayback | null>(null);
+  const [micSettings, setMicSettings] = useState<MicrophoneSettings>(DEFAULT_MICROPHONE_SETTINGS);
+  const [micActive, setMicActive] = useState(false);
+  const micRef = useRef<MicrophoneLipSync | null>(null);
+
+  useEffect(() => {
+    getVoices().then(setVoices);
+  }, []);
+
+  // Stop talking when switching characters or closing the panel
+  useEffect(() => {
+    return () => {
+      playbackRef.current?.stop();
+      playbackRef.current = null;
+      speechRef.current?.stop();
+      speechRef.current = null;
+      lineRef.current?.stop();
+      lineRef.current = null;
+      micRef.current?.stop();
+      micRef.current = null;
+      setMicActive(false);
+    };
+  }, [characterId]);
+
+  // The live session picks up slider changes straight away
+  useEffect(() => {
+    micRef.current?.setSettings(micSettings);
+  }, [micSettings]);
+
+  const handleFile = async (file: File | undefined) => {
+    if (!file) return;
+    setStatus('🎧 Decoding...');
+    try {
+      const buffer = await decodeAudioFile(file);
+      setAudio({ name: file.name, buffer });
+      setStatus(`🎧 ${file.name} (${buffer.duration.toFixed(1)}s)`);
+    } catch (error) {
+      console.error('Failed to decode audio file:', error);
+      setAudio(null);
+      setStatus('❌ Could not read that audio file');
+    }
+  };
+
+  // Mouth cues from an offline lip sync tool, played instead of analysing the audio
+  const handleCueFile = async (file: File | undefined) => {
+    if (!file) return;
+    const cues = parseLipSyncCues(await file.text());
+    if (!cues.format || cues.cues.length === 0) {
+      setCueFile(null);
+      setStatus(`❌ ${cues.errors[0] || 'No mouth cues found'}`);
+      return;
+    }
+
+    setCueFile({ name: file.name, cues });
+    setStatus(`🗒️ ${cues.cues.length} cues (${LIP_SYNC_CUE_FORMAT_LABELS[cues.format]})` +
+      (cues.errors.length > 0 ? `, ${cues.errors.length} lines skipped` : ''));
+    if (cues.errors.length > 0) {
+      console.warn(`Skipped lines in ${file.name}:`, cues.errors);
+    }
+  };
+
+  const play = () => {
+    if (!audio && !cueFile) return;
+
+    stop();
+    const timeline = cueFile?.cues.cues;
+    const buffer = audio?.buffer ?? createSilentBuffer(getTimelineDuration(timeline || []));
+    const playback = playAudioLipSync(characterId, buffer, {
+      animation,
+      timeline,
+      onEnd: () => {
+        setPlaying(false);
+        setStatus('');
+      }
+    });
+    playbackRef.current = playback;
+    setPlaying(true);
+    setStatus(`▶ Speaking - ${playback.timeline.length} mouth shapes${timeline ? ' from cue file' : ''}`);
+  };
+
+  // Mouth a typed line without any audio
+  const say = () => {
+    if (!line.trim()) return;
+    stop();
+    const playback = speakText(characterId, line, {
+      rate: voice.rate,
+      animation,
+      onEnd: () => {
+        if (lineRef.current !== playback) return;
+        lineRef.current = null;
+        setPlaying(false);
+        setStatus('');
+      }
+    });
+    lineRef.current = playback;
+    setPlaying(true);
+    setStatus(`💬 Saying a ${playback.duration.toFixed(1)}s line`);
+  };
+
+  // Say the typed line out loud with this character's voice
+  const speak = () => {
+    if (!line.trim()) return;
+    stop();
+    const speech = speakAloud(character, line);
+    speechRef.current = speech;
+    setPlaying(true);
+    setStatus('🔊 Speaking');
+    speech.done.then(() => {
+      if (speechRef.current !== speech) return;
+      speechRef.current = null;
+      setPlaying(false);
+      setStatus('');
+    });
+  };
+
+  const stop = () => {
+    playbackRef.current?.stop();
+    playbackRef.current = null;
+    speechRef.current?.stop();
+    speechRef.current = null;
+    lineRef.current?.stop();
+    lineRef.current = null;
+    micRef.current?.stop();
+    micRef.current = null;
+    setMicActive(false);
+    setPlaying(false);
+  };
+
+  const toggleMicrophone = async () => {
+    if (micRef.current) {
+      micRef.current.stop();
+      micRef.current = null;
+      setMicActive(false);
+      setStatus('');
+      return;
+    }
+
+    stop();
+    try {
+      micRef.current = await startMicrophoneLipSync(characterId, micSettings);
+      setMicActive(true);
+      setStatus('🎙️ Listening - speak to move the mouth');
+    } catch (error) {
+      console.error('Microphone unavailable:', error);
+      setStatus('❌ Microphone access was denied or is unavailable');
+    }
+  };
+
+  const updateVoice = (changes: Partial<CharacterVoice>) => {
+    onVoiceChange({ ...voice, ...changes });
+  };
+
+  return (
+    <div style={{
+      display: 'flex',
+      flexDirection: 'column',
+      gap: '8px',
+      padding: '12px',
+      marginTop: '12px',
+      backgroundColor: '#1f2937',
+      borderRadius: '8px'
+    }}>
+      <h4 style={{
+        fontSize: '12px',
+        textTransform: 'uppercase',
+        color: '#9ca3af',
+        margin: 0,
+        fontWeight: '600',
+        letterSpacing: '0.5px'
+      }}>
+        Lip Sync
+      </h4>
+
+      <input
+        type="file"
+        accept="audio/*,.wav,.mp3,.ogg"
+        onChange={(e) => handleFile(e.target.files?.[0])}
+        style={{ fontSize: '11px', color: '#d1d5db' }}
+        title="Audio to speak"
+      />
+      <label style={{ display: 'flex', alignItems: 'center', gap: '6px', fontSize: '11px', color: '#9ca3af' }}>
+        Cues
+        <input
+          type="file"
+          accept=".tsv,.txt,.json,.csv"
+          onChange={(e) => handleCueFile(e.target.files?.[0])}
+          style={{ flex: 1, fontSize: '11px', color: '#d1d5db' }}
+          title="Rhubarb TSV/JSON or Oculus viseme CSV"
+        />
+        {cueFile && (
+          <button
+            style={{ ...buttonStyle, padding: '2px 6px', backgroundColor: '#4b5563' }}
+            onClick={() => setCueFile(null)}
+            title={`Stop using ${cueFile.name}`}
+          >
+            ×
+          </button>
+        )}
+      </label>
+
+      <div style={{ display: 'flex', gap: '6px' }}>
+        <select value={animation} onChange={(e) => setAnimation(e.target.value)} style={{ ...inputStyle, flex: 1 }}>
+          {TALK_ANIMATIONS.map(anim => (
+            <option key={anim.id} value={anim.id}>{anim.label}</option>
+          ))}
+        </select>
+        {playing ? (
+          <button style={{ ...buttonStyle, backgroundColor: '#dc2626' }} onClick={stop}>
+            ⏹ Stop
+          </button>
+        ) : (
+          <button style={buttonStyle} onClick={play} disabled={!audio && !cueFile}>
+            ▶ Speak
+          </button>
+        )}
+      </div>
+
+      <div style={{ display: 'flex', gap: '6px' }}>
+        <input
+          type="text"
+          value={line}
+          onChange={(e) => setLine(e.target.value)}
+          onKeyDown={(e) => e.key === 'Enter' && say()}
+          placeholder="Type a line to say"
+          style={{ ...inputStyle, flex: 1 }}
+        />
+        <button style={buttonStyle} onClick={say} disabled={!line.trim()} title="Mouth the line without sound">
+          💬 Say
+        </button>
+        {isSpeechSynthesisSupported() && (
+          <button style={buttonStyle} onClick={speak} disabled={!line.trim()} title="Speak the line aloud">
+            🔊
+          </button>
+        )}
+      </div>
+
+      {/* Voice settings are saved with the character */}
+      {voices.length > 0 && (
+        <select
+          value={voice.voiceURI || ''}
+          onChange={(e) => updateVoice({ voiceURI: e.target.value || undefined })}
+          style={inputStyle}
+        >
+          <option value="">Default voice</option>
+          {voices.map(v => (
+            <option key={v.voiceURI} value={v.voiceURI}>{v.name} ({v.lang})</option>
+          ))}
+        </select>
+      )}
+      <label style={{ display: 'flex', alignItems: 'center', gap: '6px', fontSize: '11px', color: '#9ca3af' }}>
+        Rate
+        <input
+          type="range"
+          min={0.5}
+          max={2}
+          step={0.1}
+          value={voice.rate}
+          onChange={(e) => updateVoice({ rate: Number(e.target.value) })}
+          style={{ flex: 1 }}
+        />
+        {voice.rate.toFixed(1)}×
+      </label>
+      <label style={{ display: 'flex', alignItems: 'center', gap: '6px', fontSize: '11px', color: '#9ca3af' }}>
+        Pitch
+        <input
+          type="range"
+          min={0.5}
+          max={2}
+          step={0.1}
+          value={voice.pitch}
+          onChange={(e) => updateVoice({ pitch: Number(e.target.value) })}
+          style={{ flex: 1 }}
+        />
+        {voice.pitch.toFixed(1)}
+      </label>
+
+      <button
+        style={{ ...buttonStyle, backgroundColor: micActive ? '#dc2626' : '#4b5563' }}
+        onClick={toggleMicrophone}
+      >
+        {micActive ? '🎙️ Stop live mic' : '🎙️ Live mic'}
+      </button>
+      {micActive && (
+        <>
+          <label style={{ display: 'flex', alignItems: 'center', gap: '6px', fontSize: '11px', color: '#9ca3af' }}>
+            Sensitivity
+            <input
+              type="range"
+              min={0.25}
+              max={4}
+              step={0.25}
+              value={micSettings.sensitivity}
+              onChange={(e) => setMicSettings({ ...micSettings, sensitivity: Number(e.target.value) })}
+              style={{ flex: 1 }}
+            />
+            {micSettings.sensitivity.toFixed(2)}
+          </label>
+          <label style={{ display: 'flex', alignItems: 'center', gap: '6px', fontSize: '11px', color: '#9ca3af' }}>
+            Noise gate
+            <input
+              type="range"
+              min={0}
+              max={0.1}
+              step={0.005}
+              value={micSettings.noiseGate}
+              onChange={(e) => setMicSettings({ ...micSettings, noiseGate: Number(e.target.value) })}
+              style={{ flex: 1 }}
+            />
+            {micSettings.noiseGate.toFixed(3)}
+          </label>
+        </>
+      )}
+
+      {status && <p style={{ fontSize: '11px', color: '#d1d5db', margin: 0 }}>{status}</p>}
+    </div>
+  );
+}
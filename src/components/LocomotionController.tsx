@@ -0,0 +1,145 @@
+import { useEffect, useRef } from 'react';
+import { useFrame, useThree } from '@react-three/fiber';
+import * as THREE from 'three';
+import { ORBIT_TARGET } from './FinalAnimator';
+import { getAnimationSequencer } from '../services/animationSequencer';
+import { getAvatarController } from '../services/avatarControllers';
+import {
+  combineInputs,
+  getLocomotionVelocity,
+  LOCOMOTION_KEYS,
+  NO_INPUT,
+  readGamepad,
+  readKeyboard,
+  updateTurnSpeed
+} from '../services/locomotion';
+
+// How quickly the camera catches up with the character
+const FOLLOW_RESPONSE = 5;
+
+const followTarget = new THREE.Vector3();
+const cameraOffset = new THREE.Vector3();
+
+// Typing in a panel shouldn't walk the character around
+function isTyping(event: KeyboardEvent): boolean {
+  const target = event.target as HTMLElement | null;
+  return !!target && (target.isContentEditable || ['INPUT', 'TEXTAREA', 'SELECT'].includes(target.tagName));
+}
+
+function getConnectedGamepad(): Gamepad | null {
+  if (typeof navigator === 'undefined' || !navigator.getGamepads) return null;
+  return Array.from(navigator.getGamepads()).find((gamepad): gamepad is Gamepad => !!gamepad?.connected) ?? null;
+}
+
+/**
+ * Drives a character with the keyboard (WASD / arrows, Q/E strafe, Shift run, Space jump)
+ * or a gamepad while mounted, and keeps the orbit camera following it. Lives inside the
+ * character's canvas; the locomotion blend's root motion moves rootRef.
+ */
+export function LocomotionController({
+  characterId,
+  rootRef,
+  onTurn
+}: {
+  characterId: string;
+  rootRef: React.RefObject<THREE.Object3D | null>;
+  // Called with the root's rotation once the character stops turning
+  onTurn: (rotation: number) => void;
+}) {
+  const camera = useThree(state => state.camera);
+  const controls = useThree(state => state.controls) as any;
+  const pressedRef = useRef(new Set<string>());
+  const jumpHeldRef = useRef(false);
+  // A jump has been asked for and hasn't started yet, or is playing
+  const jumpRef = useRef<'requested' | 'playing' | null>(null);
+  const turnSpeedRef = useRef(0);
+  const turningRef = useRef(false);
+  const onTurnRef = useRef(onTurn);
+  onTurnRef.current = onTurn;
+
+  useEffect(() => {
+    const pressed = new Set<string>();
+    pressedRef.current = pressed;
+    const root = rootRef.current;
+
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (!LOCOMOTION_KEYS.includes(event.code) || isTyping(event)) return;
+      event.preventDefault();
+      pressed.add(event.code);
+    };
+    const handleKeyUp = (event: KeyboardEvent) => {
+      pressed.delete(event.code);
+    };
+    // Keys released while the window was in the background never send keyup
+    const handleBlur = () => pressed.clear();
+
+    // Queued clips would fight the player for the character
+    getAnimationSequencer(characterId).clear();
+
+    window.addEventListener('keydown', handleKeyDown);
+    window.addEventListener('keyup', handleKeyUp);
+    window.addEventListener('blur', handleBlur);
+    return () => {
+      window.removeEventListener('keydown', handleKeyDown);
+      window.removeEventListener('keyup', handleKeyUp);
+      window.removeEventListener('blur', handleBlur);
+
+      // Leave the character standing where play mode left it
+      if (root && turningRef.current) onTurnRef.current(root.rotation.y);
+      turnSpeedRef.current = 0;
+      turningRef.current = false;
+      getAvatarController(characterId)?.setLocomotion(null);
+      jumpRef.current = null;
+    };
+  }, [characterId, rootRef]);
+
+  useFrame((state, delta) => {
+    const root = rootRef.current;
+    const controller = getAvatarController(characterId);
+    if (!root || !controller) return;
+
+    const gamepad = getConnectedGamepad();
+    const input = combineInputs(readKeyboard(pressedRef.current), gamepad ? readGamepad(gamepad) : NO_INPUT);
+
+    // Jump once per press; the jump clip takes over from the locomotion blend and returns to
+    // the movement clip by itself
+    const current = controller.getCurrentAnimation();
+    if (input.jump && !jumpHeldRef.current && !jumpRef.current) {
+      controller.play('jump');
+      jumpRef.current = 'requested';
+    }
+    jumpHeldRef.current = input.jump;
+    if (jumpRef.current === 'requested' && current === 'jump') {
+      jumpRef.current = 'playing';
+    } else if (jumpRef.current === 'playing' && current !== 'jump') {
+      jumpRef.current = null;
+    }
+
+    if (!jumpRef.current) {
+      controller.setLocomotion(getLocomotionVelocity(input));
+    }
+
+    // Positive turn input is to the right, which is a negative rotation about Y
+    turnSpeedRef.current = updateTurnSpeed(turnSpeedRef.current, input.turn, delta);
+    if (Math.abs(turnSpeedRef.current) > 0.01) {
+      root.rotation.y -= turnSpeedRef.current * delta;
+      turningRef.current = true;
+    } else if (turningRef.current) {
+      turnSpeedRef.current = 0;
+      turningRef.current = false;
+      onTurnRef.current(root.rotation.y);
+    }
+
+    // Follow camera: keep the user's orbit angle and distance, move the target with the character
+    if (controls?.target) {
+      root.getWorldPosition(followTarget);
+      followTarget.y += ORBIT_TARGET[1];
+      cameraOffset.subVectors(camera.position, controls.target);
+      controls.target.lerp(followTarget, 1 - Math.exp(-FOLLOW_RESPONSE * delta));
+      camera.position.addVectors(controls.target, cameraOffset);
+      controls.update();
+    }
+  });
+
+  return null;
+}
@@ -0,0 +1,87 @@
+import { useEffect, useRef } from 'react';
+import { useFrame } from '@react-three/fiber';
+import * as THREE from 'three';
+import { getAvatarController } from '../services/avatarControllers';
+import { LOCOMOTION_BLEND_SPACE } from '../services/blendSpace';
+import { getSteering, GroundPoint } from '../services/pathFollowing';
+
+const BLEND_CLIPS = LOCOMOTION_BLEND_SPACE.map(point => point.clip);
+
+/**
+ * Walks a character along its waypoints while mounted, through the locomotion blend space.
+ * The parent drops each waypoint as it is reached and unmounts this once none are left,
+ * which settles the character back into idle.
+ */
+export function PathFollower({
+  characterId,
+  rootRef,
+  waypoints,
+  obstacleIds,
+  onWaypointReached,
+  onCancel,
+  onTurn
+}: {
+  characterId: string;
+  rootRef: React.RefObject<THREE.Object3D | null>;
+  waypoints: GroundPoint[];
+  // Characters to steer round
+  obstacleIds: string[];
+  onWaypointReached: () => void;
+  // Called when another clip takes the character over mid-path
+  onCancel: () => void;
+  // Called with the root's rotation once the character stops
+  onTurn: (rotation: number) => void;
+}) {
+  const propsRef = useRef({ waypoints, obstacleIds, onWaypointReached, onCancel, onTurn });
+  propsRef.current = { waypoints, obstacleIds, onWaypointReached, onCancel, onTurn };
+  // Waypoint list already reported as reached, until the parent passes the shortened one
+  const reportedRef = useRef<GroundPoint[] | null>(null);
+  // The blend has been seen running, so anything else playing means another clip took over
+  const movingRef = useRef(false);
+
+  useEffect(() => {
+    const root = rootRef.current;
+    return () => {
+      if (!movingRef.current) return;
+      getAvatarController(characterId)?.setLocomotion(null);
+      if (root) propsRef.current.onTurn(root.rotation.y);
+    };
+  }, [characterId, rootRef]);
+
+  useFrame((state, delta) => {
+    const root = rootRef.current;
+    const controller = getAvatarController(characterId);
+    const current = propsRef.current;
+    if (!root || !controller || reportedRef.current === current.waypoints) return;
+
+    const playing = controller.getCurrentAnimation();
+    if (playing && BLEND_CLIPS.includes(playing)) {
+      movingRef.current = true;
+    } else if (movingRef.current) {
+      movingRef.current = false;
+      current.onCancel();
+      return;
+    }
+
+    const obstacles = current.obstacleIds
+      .map(id => getAvatarController(id)?.getHeadPosition())
+      .filter((head): head is [number, number, number] => !!head)
+      .map(([x, , z]): GroundPoint => [x, z]);
+    const steering = getSteering({
+      position: [root.position.x, root.position.z],
+      facing: root.rotation.y,
+      waypoints: current.waypoints,
+      obstacles
+    });
+
+    root.rotation.y += steering.turnSpeed * delta;
+    if (steering.reached) {
+      reportedRef.current = current.waypoints;
+      current.onWaypointReached();
+      return;
+    }
+    controller.setLocomotion(steering.velocity);
+  });
+
+  return null;
+}
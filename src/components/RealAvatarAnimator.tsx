@@ -2,6 +2,7 @@ import React, { useEffect, useRef, Suspense } from 'react';
 import { Canvas, useFrame } from '@react-three/fiber';
 import { OrbitControls, useGLTF } from '@react-three/drei';
 import * as THREE from 'three';
+import { getAnimationUrl, getPreloadAnimationUrls, isLoopingAnimation } from '../services/animationRegistry';
 
 // Component to load and display the avatar with animations
 function AnimatedAvatar({
@@ -19,21 +20,7 @@ function AnimatedAvatar({
   // Load the avatar model
   const avatar = useGLTF(avatarUrl);
 
-  // Map animation types to URLs
-  const animationMap: { [key: string]: string } = {
-    'idle': '/animations/idle.glb',
-    'walk': '/animations/walk.glb',
-    'run': '/animations/run.glb',
-    'jump': '/animations/jump.glb',
-    'dance': '/animations/dance.glb',
-    'wave': '/animations/wave.glb',
-    'sit': '/animations/idle.glb', // Using idle as placeholder
-    'clap': '/animations/wave.glb', // Using wave as placeholder
-    'nod': '/animations/wave.glb',
-    'shake': '/animations/idle.glb'
-  };
-
-  const animationUrl = animationMap[animationType] || '/animations/idle.glb';
+  const animationUrl = getAnimationUrl(animationType);
 
   // Load the animation file
   const animationGltf = useGLTF(animationUrl);
@@ -122,7 +109,7 @@ function AnimatedAvatar({
       action.fadeIn(0.5);
 
       // Set loop mode
-      if (animationType === 'jump' || animationType === 'wave') {
+      if (!isLoopingAnimation(animationType)) {
         action.setLoop(THREE.LoopOnce, 1);
         action.clampWhenFinished = true;
       } else {
@@ -218,16 +205,7 @@ export function RealAvatarAnimator({
 
 // Preload all animation files
 export function preloadAnimations() {
-  const animations = [
-    '/animations/idle.glb',
-    '/animations/walk.glb',
-    '/animations/run.glb',
-    '/animations/jump.glb',
-    '/animations/dance.glb',
-    '/animations/wave.glb'
-  ];
-
-  animations.forEach(url => {
+  getPreloadAnimationUrls().forEach(url => {
     useGLTF.preload(url);
   });
 }
\ No newline at end of file
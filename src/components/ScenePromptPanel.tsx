@@ -0,0 +1,236 @@
+import { useEffect, useRef, useState } from 'react';
+import { getAnimation } from '../services/animationRegistry';
+import { ScriptValidationError } from '../services/animationScript';
+import { LLMSettings, loadLLMSettings, OpenAICompatibleProvider, saveLLMSettings } from '../services/llmProvider';
+import { generateSceneScript } from '../services/sceneGenerator';
+import { ScriptRunner } from '../services/scriptRunner';
+import { AnimationScript, Character, ScriptStep } from '../types';
+
+interface Props {
+  characters: Character[];
+  onSpeech?: (characterId: string, text: string | null) => void;
+}
+
+const inputStyle = {
+  padding: '6px 8px',
+  borderRadius: '6px',
+  border: '1px solid #374151',
+  backgroundColor: '#111827',
+  color: 'white',
+  fontSize: '11px'
+};
+
+const buttonStyle = {
+  padding: '6px 8px',
+  backgroundColor: '#3b82f6',
+  color: 'white',
+  border: 'none',
+  borderRadius: '6px',
+  cursor: 'pointer',
+  fontSize: '11px',
+  fontWeight: '500'
+};
+
+// One line per step for the preview
+function describeStep(step: ScriptStep, script: AnimationScript): string {
+  const name = step.type === 'camera'
+    ? '🎥 Camera'
+    : script.characters.find(character => character.id === step.character)?.name || step.character;
+
+  switch (step.type) {
+    case 'clip': {
+      const label = getAnimation(step.animation)?.label || step.animation;
+      const length = step.duration !== undefined ? ` for ${step.duration}s` : step.loops ? ` ×${step.loops}` : '';
+      return `${name}: ${label}${length}`;
+    }
+    case 'speech':
+      return `${name}: 💬 "${step.text}"`;
+    case 'expression':
+      return `${name}: ${step.expression} face`;
+    case 'look':
+      return `${name}: 👀 looks at ${Array.isArray(step.target) ? `[${step.target.join(', ')}]` : step.target}`;
+    case 'move': {
+      const direction = step.direction ? ` at ${step.direction}°` : '';
+      return `${name}: 🚶 moves at ${step.speed} m/s${direction}${step.duration !== undefined ? ` for ${step.duration}s` : ''}`;
+    }
+    case 'camera':
+      return `${name} moves to [${step.position.join(', ')}]`;
+  }
+}
+
+export function ScenePromptPanel({ characters, onSpeech }: Props) {
+  const [description, setDescription] = useState('');
+  const [settings, setSettings] = useState<LLMSettings>(loadLLMSettings);
+  const [loading, setLoading] = useState(false);
+  const [script, setScript] = useState<AnimationScript | null>(null);
+  const [errors, setErrors] = useState<ScriptValidationError[]>([]);
+  const [status, setStatus] = useState('');
+  const [playing, setPlaying] = useState(false);
+  const runnerRef = useRef<ScriptRunner | null>(null);
+
+  // Stop the script if the panel goes away
+  useEffect(() => {
+    return () => runnerRef.current?.stop();
+  }, []);
+
+  const updateSettings = (changes: Partial<LLMSettings>) => {
+    const next = { ...settings, ...changes };
+    setSettings(next);
+    saveLLMSettings(next);
+  };
+
+  const handleGenerate = async () => {
+    if (!description.trim()) return;
+
+    setLoading(true);
+    setScript(null);
+    setErrors([]);
+    setStatus('🤖 Generating...');
+
+    try {
+      const provider = new OpenAICompatibleProvider(settings);
+      const result = await generateSceneScript(provider, description, characters);
+
+      if (result.valid && result.script) {
+        setScript(result.script);
+        setStatus(`✅ Generated ${result.script.steps.length} steps` +
+          (result.attempts > 1 ? ` after ${result.attempts} attempts` : ''));
+      } else {
+        setErrors(result.errors);
+        setStatus(`❌ No valid script after ${result.attempts} attempts`);
+      }
+    } catch (err) {
+      console.error('Error generating scene:', err);
+      setStatus(`❌ ${(err as Error).message}`);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const play = () => {
+    if (!script) return;
+
+    runnerRef.current?.stop();
+    const runner = new ScriptRunner(script, characters, {
+      onSpeech,
+      onEnd: () => {
+        setPlaying(false);
+        setStatus('✅ Scene finished');
+      }
+    });
+    runnerRef.current = runner;
+    runner.play();
+    setPlaying(true);
+    setStatus(`▶ Playing (${runner.getDuration().toFixed(1)}s)`);
+  };
+
+  const stop = () => {
+    runnerRef.current?.stop();
+    setPlaying(false);
+    setStatus('⏹ Stopped');
+  };
+
+  return (
+    <div style={{
+      display: 'flex',
+      flexDirection: 'column',
+      gap: '8px',
+      padding: '12px',
+      marginTop: '12px',
+      backgroundColor: '#1f2937',
+      borderRadius: '8px'
+    }}>
+      <h4 style={{
+        fontSize: '12px',
+        textTransform: 'uppercase',
+        color: '#9ca3af',
+        margin: 0,
+        fontWeight: '600',
+        letterSpacing: '0.5px'
+      }}>
+        Describe a Scene
+      </h4>
+
+      <textarea
+        value={description}
+        onChange={(e) => setDescription(e.target.value)}
+        placeholder={`e.g. ${characters[0]?.name || 'Alex'} walks in, waves at the camera and starts dancing`}
+        style={{ ...inputStyle, width: '100%', minHeight: '60px', resize: 'vertical' }}
+      />
+
+      <details style={{ fontSize: '11px', color: '#9ca3af' }}>
+        <summary style={{ cursor: 'pointer' }}>Model settings</summary>
+        <div style={{ display: 'flex', flexDirection: 'column', gap: '4px', marginTop: '6px' }}>
+          <input
+            type="text"
+            value={settings.baseUrl}
+            onChange={(e) => updateSettings({ baseUrl: e.target.value })}
+            placeholder="Base URL, e.g. http://localhost:11434/v1"
+            style={inputStyle}
+          />
+          <input
+            type="text"
+            value={settings.model}
+            onChange={(e) => updateSettings({ model: e.target.value })}
+            placeholder="Model"
+            style={inputStyle}
+          />
+          <input
+            type="password"
+            value={settings.apiKey || ''}
+            onChange={(e) => updateSettings({ apiKey: e.target.value })}
+            placeholder="API key (optional for local servers)"
+            style={inputStyle}
+          />
+        </div>
+      </details>
+
+      <button
+        style={{ ...buttonStyle, backgroundColor: loading ? '#4b5563' : '#3b82f6' }}
+        onClick={handleGenerate}
+        disabled={loading || !description.trim()}
+      >
+        {loading ? 'Generating...' : '✨ Generate Script'}
+      </button>
+
+      {status && <p style={{ fontSize: '11px', color: '#d1d5db', margin: 0 }}>{status}</p>}
+
+      {errors.length > 0 && (
+        <ul style={{
+          margin: 0,
+          padding: '8px 8px 8px 24px',
+          backgroundColor: 'rgba(220, 38, 38, 0.15)',
+          borderRadius: '6px',
+          fontSize: '11px',
+          color: '#fca5a5'
+        }}>
+          {errors.map((error, index) => (
+            <li key={index} title={error.path}>{error.message}</li>
+          ))}
+        </ul>
+      )}
+
+      {script && (
+        <>
+          {/* Preview before playing */}
+          <ol style={{ margin: 0, paddingLeft: '18px', fontSize: '11px', color: '#d1d5db' }}>
+            {script.steps.map((step, index) => (
+              <li key={index}>
+                <span style={{ color: '#6b7280' }}>{step.at}s</span> {describeStep(step, script)}
+              </li>
+            ))}
+          </ol>
+          {playing ? (
+            <button style={{ ...buttonStyle, backgroundColor: '#dc2626' }} onClick={stop}>
+              ⏹ Stop
+            </button>
+          ) : (
+            <button style={{ ...buttonStyle, backgroundColor: '#10b981' }} onClick={play}>
+              ▶ Play Scene
+            </button>
+          )}
+        </>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,203 @@
+import { useEffect, useRef, useState } from 'react';
+import { parseAnimationScript, ScriptValidationError } from '../services/animationScript';
+import { SceneParser, UnmatchedFragment } from '../services/sceneParser';
+import { ScriptRunner } from '../services/scriptRunner';
+import { AnimationScript, Character } from '../types';
+
+interface Props {
+  characters: Character[];
+  onSpeech?: (characterId: string, text: string | null) => void;
+}
+
+// Starter script using the first character in the list
+function buildExampleScript(characters: Character[]): AnimationScript {
+  const name = characters[0]?.name || 'Character 1';
+  return {
+    version: 1,
+    title: 'Hello there',
+    characters: [{ id: 'hero', name }],
+    steps: [
+      { type: 'clip', at: 0, character: 'hero', animation: 'wave' },
+      { type: 'speech', at: 2.5, character: 'hero', text: 'Hi! Welcome to the animator.', animation: 'talk3' },
+      { type: 'camera', at: 2.5, position: [0, 1.6, 2.2], target: [0, 1.4, 0], transition: 1 },
+      { type: 'clip', at: 6, character: 'hero', animation: 'dance', duration: 4 },
+      { type: 'camera', at: 6, position: [0, 1.5, 3], target: [0, 1, 0], transition: 1.5 }
+    ]
+  };
+}
+
+const buttonStyle = {
+  padding: '6px 8px',
+  backgroundColor: '#3b82f6',
+  color: 'white',
+  border: 'none',
+  borderRadius: '6px',
+  cursor: 'pointer',
+  fontSize: '11px',
+  fontWeight: '500'
+};
+
+export function ScriptPanel({ characters, onSpeech }: Props) {
+  const [scriptText, setScriptText] = useState(() => JSON.stringify(buildExampleScript(characters), null, 2));
+  const [errors, setErrors] = useState<ScriptValidationError[]>([]);
+  const [status, setStatus] = useState('');
+  const [playing, setPlaying] = useState(false);
+  const [description, setDescription] = useState('');
+  const [unmatched, setUnmatched] = useState<UnmatchedFragment[]>([]);
+  const runnerRef = useRef<ScriptRunner | null>(null);
+
+  // Stop the script if the panel goes away
+  useEffect(() => {
+    return () => runnerRef.current?.stop();
+  }, []);
+
+  const validate = () => {
+    const result = parseAnimationScript(scriptText, characters);
+    setErrors(result.errors);
+    setStatus(result.valid ? `✅ Valid script with ${result.script!.steps.length} steps` : '');
+    return result;
+  };
+
+  // Turn the plain-English description into script JSON for review
+  const convert = () => {
+    const { script, unmatched } = new SceneParser(characters).parse(description);
+    setScriptText(JSON.stringify(script, null, 2));
+    setUnmatched(unmatched);
+    setErrors([]);
+    setStatus(`📝 Converted into ${script.steps.length} steps`);
+  };
+
+  const play = () => {
+    const result = validate();
+    if (!result.valid || !result.script) return;
+
+    runnerRef.current?.stop();
+    const runner = new ScriptRunner(result.script, characters, {
+      onSpeech,
+      onEnd: () => {
+        setPlaying(false);
+        setStatus('✅ Script finished');
+      }
+    });
+    runnerRef.current = runner;
+    runner.play();
+    setPlaying(true);
+    setStatus(`▶ Playing (${runner.getDuration().toFixed(1)}s)`);
+  };
+
+  const stop = () => {
+    runnerRef.current?.stop();
+    setPlaying(false);
+    setStatus('⏹ Stopped');
+  };
+
+  return (
+    <div style={{
+      display: 'flex',
+      flexDirection: 'column',
+      gap: '8px',
+      padding: '12px',
+      marginTop: '12px',
+      backgroundColor: '#1f2937',
+      borderRadius: '8px'
+    }}>
+      <h4 style={{
+        fontSize: '12px',
+        textTransform: 'uppercase',
+        color: '#9ca3af',
+        margin: 0,
+        fontWeight: '600',
+        letterSpacing: '0.5px'
+      }}>
+        Animation Script
+      </h4>
+
+      <div style={{ display: 'flex', gap: '6px' }}>
+        <input
+          type="text"
+          value={description}
+          onChange={(e) => setDescription(e.target.value)}
+          onKeyDown={(e) => e.key === 'Enter' && description.trim() && convert()}
+          placeholder={`e.g. ${characters[0]?.name || 'Alex'} waves, then dances for five seconds`}
+          style={{
+            flex: 1,
+            padding: '6px 8px',
+            borderRadius: '6px',
+            border: '1px solid #374151',
+            backgroundColor: '#111827',
+            color: 'white',
+            fontSize: '11px'
+          }}
+        />
+        <button style={buttonStyle} onClick={convert} disabled={!description.trim()}>
+          Convert
+        </button>
+      </div>
+
+      {unmatched.length > 0 && (
+        <ul style={{
+          margin: 0,
+          padding: '8px 8px 8px 24px',
+          backgroundColor: 'rgba(245, 158, 11, 0.15)',
+          borderRadius: '6px',
+          fontSize: '11px',
+          color: '#fcd34d'
+        }}>
+          {unmatched.map((fragment, index) => (
+            <li key={index}>"{fragment.text}" - {fragment.reason.toLowerCase()}, try rephrasing</li>
+          ))}
+        </ul>
+      )}
+
+      <textarea
+        value={scriptText}
+        onChange={(e) => setScriptText(e.target.value)}
+        spellCheck={false}
+        style={{
+          width: '100%',
+          minHeight: '160px',
+          padding: '8px',
+          borderRadius: '6px',
+          border: `1px solid ${errors.length > 0 ? '#dc2626' : '#374151'}`,
+          backgroundColor: '#111827',
+          color: 'white',
+          fontFamily: 'monospace',
+          fontSize: '11px',
+          resize: 'vertical'
+        }}
+      />
+
+      <div style={{ display: 'flex', gap: '6px' }}>
+        <button style={{ ...buttonStyle, backgroundColor: '#4b5563' }} onClick={validate}>
+          Validate
+        </button>
+        {playing ? (
+          <button style={{ ...buttonStyle, flex: 1, backgroundColor: '#dc2626' }} onClick={stop}>
+            ⏹ Stop
+          </button>
+        ) : (
+          <button style={{ ...buttonStyle, flex: 1 }} onClick={play}>
+            ▶ Play Script
+          </button>
+        )}
+      </div>
+
+      {status && <p style={{ fontSize: '11px', color: '#d1d5db', margin: 0 }}>{status}</p>}
+
+      {errors.length > 0 && (
+        <ul style={{
+          margin: 0,
+          padding: '8px 8px 8px 24px',
+          backgroundColor: 'rgba(220, 38, 38, 0.15)',
+          borderRadius: '6px',
+          fontSize: '11px',
+          color: '#fca5a5'
+        }}>
+          {errors.map((error, index) => (
+            <li key={index} title={error.path}>{error.message}</li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
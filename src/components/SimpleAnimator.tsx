@@ -2,26 +2,13 @@ import React, { useEffect, useRef, Suspense } from 'react';
 import { Canvas, useFrame } from '@react-three/fiber';
 import { OrbitControls, useGLTF, useAnimations } from '@react-three/drei';
 import * as THREE from 'three';
+import { getAnimationUrl, isLoopingAnimation } from '../services/animationRegistry';
 
 // Component that displays the animation file's model directly with its animation
 function AnimatedModel({ animationType = 'idle' }: { animationType: string }) {
   const group = useRef<THREE.Group>(null);
 
-  // Map animation types to URLs
-  const animationMap: { [key: string]: string } = {
-    'idle': '/animations/idle.glb',
-    'walk': '/animations/walk.glb',
-    'run': '/animations/run.glb',
-    'jump': '/animations/jump.glb',
-    'dance': '/animations/dance.glb',
-    'wave': '/animations/wave.glb',
-    'sit': '/animations/idle.glb',
-    'clap': '/animations/wave.glb',
-    'nod': '/animations/wave.glb',
-    'shake': '/animations/idle.glb'
-  };
-
-  const animationUrl = animationMap[animationType] || '/animations/idle.glb';
+  const animationUrl = getAnimationUrl(animationType);
 
   // Load the GLB file (contains both model and animation)
   const { scene, animations } = useGLTF(animationUrl);
@@ -70,7 +57,7 @@ function AnimatedModel({ animationType = 'idle' }: { animationType: string }) {
         action.reset().fadeIn(0.5).play();
 
         // Set loop mode
-        if (animationType === 'jump' || animationType === 'wave') {
+        if (!isLoopingAnimation(animationType)) {
           action.setLoop(THREE.LoopOnce, 1);
           action.clampWhenFinished = true;
         } else {
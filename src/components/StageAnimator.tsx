@@ -0,0 +1,326 @@
+import { Suspense, useEffect, useRef, useState } from 'react';
+import { Canvas, ThreeEvent, useThree } from '@react-three/fiber';
+import { Html, OrbitControls } from '@react-three/drei';
+import * as THREE from 'three';
+import { AnimatedAvatar, CameraRig, ORBIT_TARGET } from './FinalAnimator';
+import { LocomotionController } from './LocomotionController';
+import { PathFollower } from './PathFollower';
+import { GroundPoint } from '../services/pathFollowing';
+import { Character, Vector3Tuple } from '../types';
+
+interface StageProps {
+  characters: Character[];
+  selectedCharacterId: string | null;
+  onSelect: (characterId: string) => void;
+  onAnimationChange: (characterId: string, animationType: string) => void;
+  // Called once a drag ends with the new [x, z] ground position
+  onMove: (characterId: string, position: [number, number]) => void;
+  // Double-clicking the ground picks a point for the selected character to look at
+  onLookAtPoint: (point: Vector3Tuple) => void;
+  // Character driven with the keyboard or a gamepad, if any
+  playingCharacterId?: string | null;
+  // Called with a character's facing once play mode or click-to-move stops turning it
+  onTurn: (characterId: string, rotation: number) => void;
+}
+
+// Characters can't be dragged further than this from the centre
+const STAGE_RADIUS = 8;
+const CHARACTER_SPACING = 1.2;
+const GROUND_PLANE = new THREE.Plane(new THREE.Vector3(0, 1, 0), 0);
+const NO_WAYPOINTS: GroundPoint[] = [];
+// A click waits this long (ms) in case it turns into a double-click
+const DOUBLE_CLICK_DELAY = 250;
+// Pointer travel (px) beyond which a click was really an orbit drag
+const CLICK_SLOP = 4;
+
+/**
+ * Where a character stands - its saved position, or a slot in a row for new characters
+ */
+export function getStagePosition(character: Character, index: number, count: number): [number, number] {
+  if (character.position) return character.position;
+  return [(index - (count - 1) / 2) * CHARACTER_SPACING, 0];
+}
+
+function clampToStage(x: number, z: number): [number, number] {
+  const distance = Math.hypot(x, z);
+  if (distance <= STAGE_RADIUS) return [x, z];
+  return [(x / distance) * STAGE_RADIUS, (z / distance) * STAGE_RADIUS];
+}
+
+function StageCharacter({
+  character,
+  position,
+  selected,
+  onGrab,
+  onAnimationChange,
+  onRootMove,
+  playing,
+  onTurn,
+  waypoints,
+  obstacleIds,
+  onWaypointReached,
+  onPathCancel
+}: {
+  character: Character;
+  position: [number, number];
+  selected: boolean;
+  onGrab: (event: ThreeEvent<PointerEvent>) => void;
+  onAnimationChange: (animationType: string) => void;
+  onRootMove: (position: [number, number]) => void;
+  playing: boolean;
+  onTurn: (rotation: number) => void;
+  waypoints: GroundPoint[];
+  obstacleIds: string[];
+  onWaypointReached: () => void;
+  onPathCancel: () => void;
+}) {
+  // Walk and run clips move this group across the stage
+  const rootRef = useRef<THREE.Group>(null);
+
+  return (
+    <group ref={rootRef} position={[position[0], 0, position[1]]} rotation={[0, character.rotation ?? 0, 0]}>
+      <AnimatedAvatar
+        avatarUrl={character.avatarUrl}
+        characterId={character.id}
+        animationType={character.currentAnimation || 'idle'}
+        onAnimationChange={onAnimationChange}
+        faceLife={character.faceLife}
+        lookAt={character.lookAt}
+        rootRef={rootRef}
+        constrainRoot={clampToStage}
+        onRootMove={onRootMove}
+      />
+      {playing && <LocomotionController characterId={character.id} rootRef={rootRef} onTurn={onTurn} />}
+      {!playing && waypoints.length > 0 && (
+        <PathFollower
+          characterId={character.id}
+          rootRef={rootRef}
+          waypoints={waypoints}
+          obstacleIds={obstacleIds}
+          onWaypointReached={onWaypointReached}
+          onCancel={onPathCancel}
+          onTurn={onTurn}
+        />
+      )}
+
+      {/* Invisible hit box - easier to grab than the skinned mesh */}
+      <mesh
+        position={[0, 0.9, 0]}
+        visible={false}
+        onPointerDown={onGrab}
+        onClick={(event) => event.stopPropagation()}
+      >
+        <cylinderGeometry args={[0.35, 0.35, 1.8, 12]} />
+        <meshBasicMaterial />
+      </mesh>
+
+      {selected && (
+        <mesh rotation={[-Math.PI / 2, 0, 0]} position={[0, 0.01, 0]}>
+          <ringGeometry args={[0.45, 0.55, 48]} />
+          <meshBasicMaterial color="#3b82f6" transparent opacity={0.8} />
+        </mesh>
+      )}
+
+      <Html position={[0, 2.05, 0]} center style={{ pointerEvents: 'none' }}>
+        <div style={{
+          padding: '2px 6px',
+          borderRadius: '4px',
+          backgroundColor: selected ? '#3b82f6' : 'rgba(0, 0, 0, 0.6)',
+          color: 'white',
+          fontSize: '11px',
+          whiteSpace: 'nowrap'
+        }}>
+          {character.name}
+        </div>
+      </Html>
+    </group>
+  );
+}
+
+function StageScene({
+  characters,
+  selectedCharacterId,
+  onSelect,
+  onAnimationChange,
+  onMove,
+  onLookAtPoint,
+  playingCharacterId,
+  onTurn
+}: StageProps) {
+  const controls = useThree(state => state.controls) as any;
+  const [drag, setDrag] = useState<{ id: string; position: [number, number] } | null>(null);
+  // Offset between the grab point and the character's feet, so it doesn't jump under the cursor
+  const grabOffsetRef = useRef<[number, number]>([0, 0]);
+  const dragRef = useRef(drag);
+  dragRef.current = drag;
+  const dragging = drag !== null;
+  // Waypoints each character is walking to, in order
+  const [paths, setPaths] = useState<{ [characterId: string]: GroundPoint[] }>({});
+  const clickTimerRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+
+  useEffect(() => () => {
+    if (clickTimerRef.current) clearTimeout(clickTimerRef.current);
+  }, []);
+
+  const setPath = (characterId: string, waypoints: GroundPoint[]) => {
+    setPaths(prev => {
+      const next = { ...prev };
+      if (waypoints.length > 0) {
+        next[characterId] = waypoints;
+      } else {
+        delete next[characterId];
+      }
+      return next;
+    });
+  };
+
+  const dropWaypoint = (characterId: string) => {
+    setPaths(prev => {
+      const next = { ...prev };
+      const rest = (prev[characterId] ?? []).slice(1);
+      if (rest.length > 0) {
+        next[characterId] = rest;
+      } else {
+        delete next[characterId];
+      }
+      return next;
+    });
+  };
+
+  // Finish the drag wherever the pointer is released
+  useEffect(() => {
+    if (!dragging) return;
+
+    const handlePointerUp = () => {
+      const current = dragRef.current;
+      if (current) {
+        onMove(current.id, current.position);
+      }
+      setDrag(null);
+      if (controls) controls.enabled = true;
+    };
+
+    window.addEventListener('pointerup', handlePointerUp);
+    return () => window.removeEventListener('pointerup', handlePointerUp);
+  }, [dragging, controls, onMove]);
+
+  const grab = (character: Character, position: [number, number]) => (event: ThreeEvent<PointerEvent>) => {
+    event.stopPropagation();
+    onSelect(character.id);
+    setPath(character.id, []);
+
+    const point = event.ray.intersectPlane(GROUND_PLANE, new THREE.Vector3());
+    grabOffsetRef.current = point ? [position[0] - point.x, position[1] - point.z] : [0, 0];
+    setDrag({ id: character.id, position });
+    if (controls) controls.enabled = false;
+  };
+
+  const handleGroundMove = (event: ThreeEvent<PointerEvent>) => {
+    if (!drag) return;
+    const [offsetX, offsetZ] = grabOffsetRef.current;
+    setDrag({ id: drag.id, position: clampToStage(event.point.x + offsetX, event.point.z + offsetZ) });
+  };
+
+  // Click to walk the selected character there, shift-click to add a waypoint to its path
+  const handleGroundClick = (event: ThreeEvent<MouseEvent>) => {
+    const characterId = selectedCharacterId;
+    if (!characterId || characterId === playingCharacterId || event.delta > CLICK_SLOP) return;
+
+    const point = clampToStage(event.point.x, event.point.z);
+    const queue = event.shiftKey;
+    if (clickTimerRef.current) clearTimeout(clickTimerRef.current);
+    clickTimerRef.current = setTimeout(() => {
+      clickTimerRef.current = null;
+      setPaths(prev => ({ ...prev, [characterId]: queue ? [...(prev[characterId] ?? []), point] : [point] }));
+    }, DOUBLE_CLICK_DELAY);
+  };
+
+  const handleGroundDoubleClick = (event: ThreeEvent<MouseEvent>) => {
+    if (clickTimerRef.current) clearTimeout(clickTimerRef.current);
+    clickTimerRef.current = null;
+    onLookAtPoint(event.point.toArray());
+  };
+
+  const selectedPath = selectedCharacterId ? paths[selectedCharacterId] ?? [] : [];
+
+  return (
+    <>
+      {/* Ground the characters are dragged across and walk to */}
+      <mesh
+        rotation={[-Math.PI / 2, 0, 0]}
+        onPointerMove={handleGroundMove}
+        onClick={handleGroundClick}
+        onDoubleClick={handleGroundDoubleClick}
+      >
+        <circleGeometry args={[STAGE_RADIUS + 0.5, 64]} />
+        <meshStandardMaterial color="#1f2937" transparent opacity={0.6} />
+      </mesh>
+      <gridHelper args={[STAGE_RADIUS * 2, STAGE_RADIUS * 2, '#374151', '#2d3748']} position={[0, 0.005, 0]} />
+
+      {/* Where the selected character is walking to */}
+      {selectedPath.map(([x, z], index) => (
+        <mesh key={index} rotation={[-Math.PI / 2, 0, 0]} position={[x, 0.015, z]}>
+          <circleGeometry args={[index === selectedPath.length - 1 ? 0.14 : 0.08, 24]} />
+          <meshBasicMaterial color="#3b82f6" transparent opacity={0.7} />
+        </mesh>
+      ))}
+
+      {characters.map((character, index) => {
+        const position = drag?.id === character.id
+          ? drag.position
+          : getStagePosition(character, index, characters.length);
+        return (
+          // Each character loads on its own so a new one doesn't hide the rest
+          <Suspense key={character.id} fallback={null}>
+            <StageCharacter
+              character={character}
+              position={position}
+              selected={character.id === selectedCharacterId}
+              onGrab={grab(character, position)}
+              onAnimationChange={(type) => onAnimationChange(character.id, type)}
+              onRootMove={(moved) => onMove(character.id, moved)}
+              playing={character.id === playingCharacterId}
+              onTurn={(rotation) => onTurn(character.id, rotation)}
+              waypoints={paths[character.id] ?? NO_WAYPOINTS}
+              obstacleIds={characters.filter(other => other.id !== character.id).map(other => other.id)}
+              onWaypointReached={() => dropWaypoint(character.id)}
+              onPathCancel={() => setPath(character.id, [])}
+            />
+          </Suspense>
+        );
+      })}
+    </>
+  );
+}
+
+// All characters in one shared scene, each with its own mixer and clip
+export function StageAnimator(props: StageProps) {
+  return (
+    <div id="avatar-stage" style={{ width: '100%', height: '100%' }}>
+      <Canvas
+        camera={{
+          position: [0, 2.2, 6],
+          fov: 50,
+          near: 0.1,
+          far: 1000
+        }}
+        style={{ background: 'transparent' }}
+      >
+        <ambientLight intensity={0.5} />
+        <directionalLight position={[10, 10, 5]} intensity={1} />
+        <directionalLight position={[-10, -10, -5]} intensity={0.5} />
+
+        <StageScene {...props} />
+
+        <OrbitControls
+          makeDefault
+          target={ORBIT_TARGET}
+          maxPolarAngle={Math.PI / 2 - 0.05}
+          minDistance={2}
+          maxDistance={14}
+        />
+        <CameraRig />
+      </Canvas>
+    </div>
+  );
+}
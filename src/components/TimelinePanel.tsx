@@ -0,0 +1,603 @@
+import { useEffect, useRef, useState } from 'react';
+import { ANIMATIONS, getAnimation, getAnimationClipInfo } from '../services/animationRegistry';
+import { estimateSpeechDuration } from '../services/animationScript';
+import { EXPRESSIONS } from '../services/facialExpressions';
+import {
+  CharacterTrackKind,
+  getBlockEnd,
+  getBlockOverlaps,
+  getTimelineLength,
+  getTrackBlocks,
+  loadSavedTimeline,
+  MIN_BLOCK_DURATION,
+  parseTimeline,
+  saveTimeline,
+  setTrackBlocks
+} from '../services/timeline';
+import { addTimelineAudio, deleteTimelineAudio, loadTimelineAudio } from '../services/timelineAudio';
+import { TimelinePlayer } from '../services/timelinePlayer';
+import {
+  Character,
+  Timeline,
+  TimelineAudioBlock,
+  TimelineBlock,
+  TimelineCameraBlock,
+  TimelineCharacterTracks,
+  TimelineClipBlock,
+  TimelineExpressionBlock,
+  TimelineSpeechBlock,
+  TimelineTrackKind,
+  Vector3Tuple
+} from '../types';
+
+interface Props {
+  // Characters to show tracks for
+  characters: Character[];
+}
+
+interface TrackRef {
+  kind: TimelineTrackKind;
+  characterId?: string;
+}
+
+interface SelectedBlock extends TrackRef {
+  id: string;
+}
+
+interface BlockDrag extends SelectedBlock {
+  mode: 'move' | 'resize';
+  startX: number;
+  start: number;
+  duration: number;
+}
+
+// Where the dragged block is now
+interface DragPreview extends SelectedBlock {
+  start: number;
+  duration: number;
+}
+
+// Shots for the camera track
+const CAMERA_SHOTS: { label: string; position: Vector3Tuple; target: Vector3Tuple }[] = [
+  { label: 'Wide', position: [0, 2.2, 6], target: [0, 1, 0] },
+  { label: 'Medium', position: [0, 1.6, 3.5], target: [0, 1.2, 0] },
+  { label: 'Close-up', position: [0, 1.6, 1.8], target: [0, 1.5, 0] },
+  { label: 'Left', position: [-4, 1.8, 4], target: [0, 1, 0] },
+  { label: 'Right', position: [4, 1.8, 4], target: [0, 1, 0] }
+];
+
+const TRACK_LABELS: Record<TimelineTrackKind, string> = {
+  body: 'Body',
+  expression: 'Face',
+  speech: 'Speech',
+  audio: 'Audio',
+  camera: 'Camera'
+};
+
+const TRACK_COLORS: Record<TimelineTrackKind, string> = {
+  body: '#2563eb',
+  expression: '#d97706',
+  speech: '#059669',
+  audio: '#0891b2',
+  camera: '#7c3aed'
+};
+
+const LABEL_WIDTH = 120;
+const ROW_HEIGHT = 26;
+const RULER_HEIGHT = 18;
+// Extra room after the last block to drag blocks into
+const TAIL_SECONDS = 5;
+// Blocks snap to this many seconds
+const SNAP = 0.05;
+
+const buttonStyle = {
+  padding: '4px 8px',
+  backgroundColor: '#374151',
+  color: 'white',
+  border: 'none',
+  borderRadius: '4px',
+  cursor: 'pointer',
+  fontSize: '11px'
+};
+
+const inputStyle = {
+  padding: '3px 6px',
+  borderRadius: '4px',
+  border: '1px solid #374151',
+  backgroundColor: '#111827',
+  color: 'white',
+  fontSize: '11px'
+};
+
+function snap(seconds: number): number {
+  return Math.round(seconds / SNAP) * SNAP;
+}
+
+function getBlockLabel(kind: TimelineTrackKind, block: TimelineBlock): string {
+  if (kind === 'body') {
+    const animation = (block as TimelineClipBlock).animation;
+    return getAnimation(animation)?.label ?? animation;
+  }
+  if (kind === 'expression') {
+    const expression = (block as TimelineExpressionBlock).expression;
+    return EXPRESSIONS.find(e => e.id === expression)?.label ?? expression;
+  }
+  if (kind === 'speech') return `"${(block as TimelineSpeechBlock).text}"`;
+  if (kind === 'audio') return `🔊 ${(block as TimelineAudioBlock).fileName}`;
+  return `🎥 ${(block as TimelineCameraBlock).label}`;
+}
+
+// Blocks edited here are plain TimelineBlocks; each track only ever holds blocks made for it
+function replaceTrackBlocks(timeline: Timeline, track: TrackRef, blocks: TimelineBlock[]): Timeline {
+  if (track.kind === 'camera') return setTrackBlocks(timeline, 'camera', undefined, blocks as TimelineCameraBlock[]);
+  if (!track.characterId) return timeline;
+  return setTrackBlocks(timeline, track.kind, track.characterId, blocks as TimelineCharacterTracks[CharacterTrackKind]);
+}
+
+// A new block for a track, starting at the playhead. Audio blocks start from a file instead.
+function createBlock(kind: Exclude<TimelineTrackKind, 'audio'>, start: number): TimelineBlock {
+  const id = crypto.randomUUID();
+  if (kind === 'body') {
+    return { id, start, duration: getAnimationClipInfo('wave')?.duration ?? 2, animation: 'wave' } as TimelineClipBlock;
+  }
+  if (kind === 'expression') {
+    return { id, start, duration: 2, expression: EXPRESSIONS[0].id, intensity: 1 } as TimelineExpressionBlock;
+  }
+  if (kind === 'speech') {
+    const text = 'Hello there!';
+    return { id, start, duration: estimateSpeechDuration(text), text } as TimelineSpeechBlock;
+  }
+  return { id, start, duration: 4, ...CAMERA_SHOTS[0] } as TimelineCameraBlock;
+}
+
+/**
+ * Non-linear editor for a scene: body, face, speech and audio tracks per character plus a camera
+ * track. Blocks drag to move and resize from their right edge; where two blocks overlap the
+ * overlap is the crossfade between them. The playhead drives every character at once.
+ */
+export function TimelinePanel({ characters }: Props) {
+  const [timeline, setTimeline] = useState<Timeline>(loadSavedTimeline);
+  const [player] = useState(() => new TimelinePlayer(timeline));
+  const [time, setTime] = useState(0);
+  const [playing, setPlaying] = useState(false);
+  // Pixels per second
+  const [zoom, setZoom] = useState(60);
+  const [selected, setSelected] = useState<SelectedBlock | null>(null);
+  const [status, setStatus] = useState('');
+  const timeRef = useRef(0);
+  const dragRef = useRef<BlockDrag | null>(null);
+  // Only shown while dragging - the timeline itself changes once, when the drag ends
+  const [dragPreview, setDragPreview] = useState<DragPreview | null>(null);
+  // Bumped when stored audio has been decoded, so the paused frame picks it up
+  const [audioLoads, setAudioLoads] = useState(0);
+
+  const shown = dragPreview
+    ? replaceTrackBlocks(timeline, dragPreview, getTrackBlocks(timeline, dragPreview.kind, dragPreview.characterId).map(block => (
+      block.id === dragPreview.id ? { ...block, start: dragPreview.start, duration: dragPreview.duration } : block
+    )))
+    : timeline;
+  const length = getTimelineLength(shown);
+
+  // Hand the characters back when the editor closes
+  useEffect(() => {
+    return () => player.stop();
+  }, [player]);
+
+  // Keep the player and the saved copy up to date with every edit
+  useEffect(() => {
+    player.setTimeline(timeline);
+    saveTimeline(timeline);
+  }, [player, timeline]);
+
+  // Decode the audio of saved or imported audio blocks
+  useEffect(() => {
+    loadTimelineAudio(timeline).then(missing => {
+      if (missing.length > 0) setStatus(`⚠️ Audio not in this browser any more: ${missing.join(', ')}`);
+      setAudioLoads(count => count + 1);
+    });
+  }, [timeline]);
+
+  // Hold every character on the playhead's frame while paused
+  useEffect(() => {
+    if (!playing) player.apply(time, false);
+  }, [player, time, playing, timeline, audioLoads]);
+
+  // Run the playhead in real time
+  useEffect(() => {
+    if (!playing) return;
+    let frame = 0;
+    let last = performance.now();
+    const tick = (now: number) => {
+      const next = Math.min(length, timeRef.current + (now - last) / 1000);
+      last = now;
+      timeRef.current = next;
+      setTime(next);
+      player.apply(next, true);
+      if (next >= length) {
+        setPlaying(false);
+        return;
+      }
+      frame = requestAnimationFrame(tick);
+    };
+    frame = requestAnimationFrame(tick);
+    return () => cancelAnimationFrame(frame);
+  }, [player, playing, length]);
+
+  const seek = (seconds: number) => {
+    const next = Math.max(0, Math.min(length, seconds));
+    timeRef.current = next;
+    setTime(next);
+  };
+
+  const togglePlay = () => {
+    if (!playing && timeRef.current >= length) seek(0);
+    setPlaying(!playing);
+  };
+
+  const updateBlocks = (track: TrackRef, update: (blocks: TimelineBlock[]) => TimelineBlock[]) => {
+    setTimeline(prev => replaceTrackBlocks(prev, track, update(getTrackBlocks(prev, track.kind, track.characterId))));
+  };
+
+  const updateBlock = (block: SelectedBlock, changes: Partial<TimelineBlock> & Record<string, unknown>) => {
+    updateBlocks(block, blocks => blocks.map(existing => (existing.id === block.id ? { ...existing, ...changes } : existing)));
+  };
+
+  const addBlock = (track: TrackRef) => {
+    if (track.kind === 'audio') return;
+    const block = createBlock(track.kind, snap(timeRef.current));
+    updateBlocks(track, blocks => [...blocks, block]);
+    setSelected({ ...track, id: block.id });
+  };
+
+  // An audio block as long as the sound, at the playhead
+  const addAudioBlock = async (track: TrackRef, file: File | undefined) => {
+    if (!file) return;
+    const start = snap(timeRef.current);
+    setStatus(`⏳ Loading ${file.name}...`);
+    try {
+      const { audioId, duration } = await addTimelineAudio(file);
+      const block: TimelineAudioBlock = {
+        id: crypto.randomUUID(),
+        start,
+        duration: Math.max(MIN_BLOCK_DURATION, duration),
+        audioId,
+        fileName: file.name
+      };
+      updateBlocks(track, blocks => [...blocks, block]);
+      setSelected({ ...track, id: block.id });
+      setStatus('');
+    } catch (error) {
+      console.error('Failed to add timeline audio:', error);
+      setStatus(`❌ Could not read ${file.name}`);
+    }
+  };
+
+  const deleteSelected = () => {
+    if (!selected) return;
+    if (selected.kind === 'audio' && selectedBlock) {
+      deleteTimelineAudio((selectedBlock as TimelineAudioBlock).audioId).catch(error => {
+        console.error('Failed to delete timeline audio:', error);
+      });
+    }
+    updateBlocks(selected, blocks => blocks.filter(block => block.id !== selected.id));
+    setSelected(null);
+  };
+
+  const startDrag = (e: React.PointerEvent, block: TimelineBlock, track: TrackRef, mode: BlockDrag['mode']) => {
+    e.stopPropagation();
+    e.currentTarget.setPointerCapture(e.pointerId);
+    setSelected({ ...track, id: block.id });
+    dragRef.current = { ...track, id: block.id, mode, startX: e.clientX, start: block.start, duration: block.duration };
+  };
+
+  const moveDrag = (e: React.PointerEvent) => {
+    const drag = dragRef.current;
+    if (!drag) return;
+    const offset = (e.clientX - drag.startX) / zoom;
+    setDragPreview({
+      kind: drag.kind,
+      characterId: drag.characterId,
+      id: drag.id,
+      start: drag.mode === 'move' ? Math.max(0, snap(drag.start + offset)) : drag.start,
+      duration: drag.mode === 'resize' ? Math.max(MIN_BLOCK_DURATION, snap(drag.duration + offset)) : drag.duration
+    });
+  };
+
+  const endDrag = () => {
+    if (dragPreview) updateBlock(dragPreview, { start: dragPreview.start, duration: dragPreview.duration });
+    dragRef.current = null;
+    setDragPreview(null);
+  };
+
+  const seekFromPointer = (e: React.PointerEvent) => {
+    const rect = e.currentTarget.getBoundingClientRect();
+    seek((e.clientX - rect.left) / zoom);
+  };
+
+  const exportTimeline = () => {
+    const url = URL.createObjectURL(new Blob([JSON.stringify(timeline, null, 2)], { type: 'application/json' }));
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = 'timeline.json';
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
+  const importTimeline = async (file: File | undefined) => {
+    if (!file) return;
+    try {
+      const imported = parseTimeline(await file.text());
+      setTimeline(imported);
+      setSelected(null);
+      seek(0);
+      const missing = imported.characters.filter(tracks => !characters.some(c => c.id === tracks.characterId));
+      setStatus(missing.length > 0
+        ? `⚠️ Loaded, but ${missing.length} character track(s) belong to characters that aren't here`
+        : `✅ Loaded ${file.name}`);
+    } catch (error) {
+      setStatus(`❌ ${(error as Error).message}`);
+    }
+  };
+
+  const tracks: (TrackRef & { label: string })[] = [
+    ...characters.flatMap(character => (['body', 'expression', 'speech', 'audio'] as const).map(kind => ({
+      kind,
+      characterId: character.id,
+      label: `${character.name} · ${TRACK_LABELS[kind]}`
+    }))),
+    { kind: 'camera', label: TRACK_LABELS.camera }
+  ];
+  const width = (length + TAIL_SECONDS) * zoom;
+
+  const selectedBlock = selected
+    ? getTrackBlocks(timeline, selected.kind, selected.characterId).find(block => block.id === selected.id)
+    : undefined;
+
+  return (
+    <div style={{
+      display: 'flex',
+      flexDirection: 'column',
+      gap: '6px',
+      width: '100%',
+      maxWidth: '800px',
+      padding: '8px 12px',
+      boxSizing: 'border-box',
+      backgroundColor: '#1f2937',
+      borderRadius: '8px',
+      marginTop: '6px'
+    }}>
+      <div style={{ display: 'flex', alignItems: 'center', gap: '6px' }}>
+        <button style={{ ...buttonStyle, backgroundColor: '#3b82f6' }} onClick={togglePlay} title={playing ? 'Pause' : 'Play'}>
+          {playing ? '⏸' : '▶'}
+        </button>
+        <button style={buttonStyle} onClick={() => { setPlaying(false); seek(0); }} title="Back to the start">⏹</button>
+        <span style={{ fontSize: '11px', color: 'white', fontVariantNumeric: 'tabular-nums' }}>
+          {time.toFixed(2)}s / {length.toFixed(2)}s
+        </span>
+        <label style={{ display: 'flex', alignItems: 'center', gap: '4px', fontSize: '11px', color: '#9ca3af' }}>
+          Zoom
+          <input type="range" min={20} max={200} step={10} value={zoom} onChange={(e) => setZoom(Number(e.target.value))} style={{ width: '70px' }} />
+        </label>
+        <div style={{ flex: 1 }} />
+        <button style={buttonStyle} onClick={exportTimeline}>Export</button>
+        <label style={{ ...buttonStyle, display: 'inline-block' }}>
+          Import
+          <input type="file" accept=".json,application/json" onChange={(e) => importTimeline(e.target.files?.[0])} style={{ display: 'none' }} />
+        </label>
+      </div>
+
+      <div style={{ display: 'flex', maxHeight: '180px', overflowY: 'auto' }}>
+        {/* Track names, each with a button adding a block at the playhead */}
+        <div style={{ width: LABEL_WIDTH, flexShrink: 0, paddingTop: RULER_HEIGHT }}>
+          {tracks.map(track => (
+            <div
+              key={`${track.characterId ?? ''}:${track.kind}`}
+              style={{ height: ROW_HEIGHT, display: 'flex', alignItems: 'center', gap: '4px', fontSize: '11px', color: '#d1d5db' }}
+            >
+              {track.kind === 'audio' ? (
+                <label style={{ ...buttonStyle, padding: '0 5px' }} title="Add an audio file at the playhead">
+                  +
+                  <input
+                    type="file"
+                    accept="audio/*,.wav,.mp3,.ogg"
+                    onChange={(e) => {
+                      addAudioBlock(track, e.target.files?.[0]);
+                      e.target.value = '';
+                    }}
+                    style={{ display: 'none' }}
+                  />
+                </label>
+              ) : (
+                <button style={{ ...buttonStyle, padding: '0 5px' }} onClick={() => addBlock(track)} title="Add a block at the playhead">+</button>
+              )}
+              <span style={{ overflow: 'hidden', textOverflow: 'ellipsis', whiteSpace: 'nowrap' }}>{track.label}</span>
+            </div>
+          ))}
+        </div>
+
+        <div style={{ flex: 1, overflowX: 'auto' }}>
+          <div style={{ position: 'relative', width }}>
+            {/* Ruler - click or drag to move the playhead */}
+            <div
+              style={{ position: 'relative', height: RULER_HEIGHT, cursor: 'pointer', borderBottom: '1px solid #374151' }}
+              onPointerDown={(e) => {
+                e.currentTarget.setPointerCapture(e.pointerId);
+                setPlaying(false);
+                seekFromPointer(e);
+              }}
+              onPointerMove={(e) => e.buttons === 1 && seekFromPointer(e)}
+            >
+              {Array.from({ length: Math.ceil(length + TAIL_SECONDS) }, (_, second) => (
+                <span key={second} style={{ position: 'absolute', left: second * zoom, fontSize: '9px', color: '#6b7280', paddingLeft: '2px', borderLeft: '1px solid #374151' }}>
+                  {second}s
+                </span>
+              ))}
+            </div>
+
+            {tracks.map(track => {
+              const blocks = getTrackBlocks(shown, track.kind, track.characterId);
+              return (
+                <div key={`${track.characterId ?? ''}:${track.kind}`} style={{ position: 'relative', height: ROW_HEIGHT, borderBottom: '1px solid #111827' }}>
+                  {blocks.map(block => {
+                    const isSelected = selected?.id === block.id;
+                    return (
+                      <div
+                        key={block.id}
+                        onPointerDown={(e) => startDrag(e, block, track, 'move')}
+                        onPointerMove={moveDrag}
+                        onPointerUp={endDrag}
+                        title={`${getBlockLabel(track.kind, block)} · ${block.start.toFixed(2)}s-${getBlockEnd(block).toFixed(2)}s`}
+                        style={{
+                          position: 'absolute',
+                          left: block.start * zoom,
+                          width: block.duration * zoom,
+                          top: 3,
+                          bottom: 3,
+                          boxSizing: 'border-box',
+                          padding: '0 4px',
+                          backgroundColor: TRACK_COLORS[track.kind],
+                          border: isSelected ? '1px solid white' : '1px solid rgba(0, 0, 0, 0.4)',
+                          borderRadius: '4px',
+                          fontSize: '10px',
+                          lineHeight: `${ROW_HEIGHT - 8}px`,
+                          color: 'white',
+                          overflow: 'hidden',
+                          whiteSpace: 'nowrap',
+                          cursor: 'grab',
+                          touchAction: 'none'
+                        }}
+                      >
+                        {getBlockLabel(track.kind, block)}
+                        <div
+                          onPointerDown={(e) => startDrag(e, block, track, 'resize')}
+                          style={{ position: 'absolute', right: 0, top: 0, bottom: 0, width: '6px', cursor: 'ew-resize' }}
+                        />
+                      </div>
+                    );
+                  })}
+                  {/* Crossfades where neighbouring blocks overlap */}
+                  {getBlockOverlaps(blocks).map(overlap => (
+                    <div
+                      key={overlap.start}
+                      title={`Blend ${(overlap.end - overlap.start).toFixed(2)}s`}
+                      style={{
+                        position: 'absolute',
+                        left: overlap.start * zoom,
+                        width: (overlap.end - overlap.start) * zoom,
+                        top: 3,
+                        bottom: 3,
+                        pointerEvents: 'none',
+                        background: 'repeating-linear-gradient(45deg, rgba(255, 255, 255, 0.35) 0 3px, transparent 3px 6px)'
+                      }}
+                    />
+                  ))}
+                </div>
+              );
+            })}
+
+            {/* Playhead */}
+            <div style={{
+              position: 'absolute',
+              left: time * zoom,
+              top: 0,
+              bottom: 0,
+              width: '2px',
+              backgroundColor: '#ef4444',
+              pointerEvents: 'none'
+            }} />
+          </div>
+        </div>
+      </div>
+
+      {/* Selected block */}
+      {selected && selectedBlock && (
+        <div style={{ display: 'flex', alignItems: 'center', gap: '6px', flexWrap: 'wrap', fontSize: '11px', color: '#9ca3af' }}>
+          {selected.kind === 'body' && (
+            <select
+              value={(selectedBlock as TimelineClipBlock).animation}
+              onChange={(e) => updateBlock(selected, { animation: e.target.value })}
+              style={inputStyle}
+            >
+              {ANIMATIONS.map(animation => (
+                <option key={animation.id} value={animation.id}>{animation.label}</option>
+              ))}
+            </select>
+          )}
+          {selected.kind === 'expression' && (
+            <>
+              <select
+                value={(selectedBlock as TimelineExpressionBlock).expression}
+                onChange={(e) => updateBlock(selected, { expression: e.target.value })}
+                style={inputStyle}
+              >
+                {EXPRESSIONS.map(expression => (
+                  <option key={expression.id} value={expression.id}>{expression.label}</option>
+                ))}
+              </select>
+              <input
+                type="range"
+                min={0}
+                max={1}
+                step={0.1}
+                value={(selectedBlock as TimelineExpressionBlock).intensity ?? 1}
+                onChange={(e) => updateBlock(selected, { intensity: Number(e.target.value) })}
+                style={{ width: '60px' }}
+                title="Intensity"
+              />
+            </>
+          )}
+          {selected.kind === 'speech' && (
+            <input
+              type="text"
+              value={(selectedBlock as TimelineSpeechBlock).text}
+              onChange={(e) => updateBlock(selected, { text: e.target.value })}
+              style={{ ...inputStyle, flex: 1 }}
+            />
+          )}
+          {selected.kind === 'audio' && (
+            <span style={{ color: 'white' }}>🔊 {(selectedBlock as TimelineAudioBlock).fileName}</span>
+          )}
+          {selected.kind === 'camera' && (
+            <select
+              value={(selectedBlock as TimelineCameraBlock).label}
+              onChange={(e) => {
+                const shot = CAMERA_SHOTS.find(s => s.label === e.target.value);
+                if (shot) updateBlock(selected, { ...shot });
+              }}
+              style={inputStyle}
+            >
+              {CAMERA_SHOTS.map(shot => (
+                <option key={shot.label} value={shot.label}>{shot.label}</option>
+              ))}
+            </select>
+          )}
+          <label style={{ display: 'flex', alignItems: 'center', gap: '4px' }}>
+            Start
+            <input
+              type="number"
+              min={0}
+              step={SNAP}
+              value={selectedBlock.start}
+              onChange={(e) => updateBlock(selected, { start: Math.max(0, Number(e.target.value)) })}
+              style={{ ...inputStyle, width: '56px' }}
+            />
+          </label>
+          <label style={{ display: 'flex', alignItems: 'center', gap: '4px' }}>
+            Length
+            <input
+              type="number"
+              min={MIN_BLOCK_DURATION}
+              step={SNAP}
+              value={selectedBlock.duration}
+              onChange={(e) => updateBlock(selected, { duration: Math.max(MIN_BLOCK_DURATION, Number(e.target.value)) })}
+              style={{ ...inputStyle, width: '56px' }}
+            />
+          </label>
+          <button style={{ ...buttonStyle, backgroundColor: '#b91c1c' }} onClick={deleteSelected}>Delete</button>
+        </div>
+      )}
+
+      {status && <p style={{ margin: 0, fontSize: '11px', color: '#9ca3af' }}>{status}</p>}
+    </div>
+  );
+}
@@ -0,0 +1,137 @@
+import { useEffect, useState } from 'react';
+import { getAvatarController } from '../services/avatarControllers';
+import { PlaybackChanges, PlaybackState } from '../types';
+
+interface Props {
+  characterId: string;
+}
+
+const buttonStyle = {
+  padding: '4px 8px',
+  backgroundColor: '#374151',
+  color: 'white',
+  border: 'none',
+  borderRadius: '4px',
+  cursor: 'pointer',
+  fontSize: '12px',
+  minWidth: '28px'
+};
+
+const labelStyle = {
+  display: 'flex',
+  alignItems: 'center',
+  gap: '4px',
+  fontSize: '11px',
+  color: '#9ca3af',
+  whiteSpace: 'nowrap' as const
+};
+
+function formatTime(seconds: number): string {
+  return `${seconds.toFixed(2)}s`;
+}
+
+// Play/pause, frame steps, scrubbing, speed and A-B looping for the clip the character is playing
+export function TransportBar({ characterId }: Props) {
+  const [playback, setPlaybackState] = useState<PlaybackState | null>(null);
+
+  // Follow the clip's time every frame
+  useEffect(() => {
+    let frame = 0;
+    const poll = () => {
+      setPlaybackState(getAvatarController(characterId)?.getPlayback() ?? null);
+      frame = requestAnimationFrame(poll);
+    };
+    poll();
+    return () => cancelAnimationFrame(frame);
+  }, [characterId]);
+
+  const controller = () => getAvatarController(characterId);
+  const update = (changes: PlaybackChanges) => controller()?.setPlayback(changes);
+
+  if (!playback) {
+    return null;
+  }
+
+  const { time, duration, range } = playback;
+  const rangeStyle = range
+    ? {
+      background: `linear-gradient(to right, transparent ${(range[0] / duration) * 100}%, rgba(59, 130, 246, 0.4) ${(range[0] / duration) * 100}%, rgba(59, 130, 246, 0.4) ${(range[1] / duration) * 100}%, transparent ${(range[1] / duration) * 100}%)`
+    }
+    : {};
+
+  return (
+    <div style={{
+      display: 'flex',
+      alignItems: 'center',
+      gap: '8px',
+      width: '100%',
+      maxWidth: '800px',
+      padding: '8px 12px',
+      boxSizing: 'border-box',
+      backgroundColor: '#1f2937',
+      borderRadius: '8px'
+    }}>
+      <button style={buttonStyle} onClick={() => controller()?.stepFrames(-1)} title="Back one frame">⏮</button>
+      <button
+        style={{ ...buttonStyle, backgroundColor: '#3b82f6' }}
+        onClick={() => update({ paused: !playback.paused })}
+        title={playback.paused ? 'Play' : 'Pause'}
+      >
+        {playback.paused ? '▶' : '⏸'}
+      </button>
+      <button style={buttonStyle} onClick={() => controller()?.stepFrames(1)} title="Forward one frame">⏭</button>
+
+      {/* Timeline - the A-B range shows as a highlight behind the slider */}
+      <div style={{ flex: 1, display: 'flex', borderRadius: '4px', ...rangeStyle }}>
+        <input
+          type="range"
+          min={0}
+          max={duration}
+          step={0.001}
+          value={time}
+          onChange={(e) => controller()?.seek(Number(e.target.value))}
+          style={{ flex: 1 }}
+          title={playback.animation}
+        />
+      </div>
+      <span style={{ ...labelStyle, color: 'white', fontVariantNumeric: 'tabular-nums' }}>
+        {formatTime(time)} / {formatTime(duration)}
+      </span>
+
+      <button
+        style={{ ...buttonStyle, backgroundColor: range ? '#2563eb' : '#374151' }}
+        onClick={() => update({ range: [time, range ? range[1] : duration] })}
+        title="Loop from here"
+      >
+        A
+      </button>
+      <button
+        style={{ ...buttonStyle, backgroundColor: range ? '#2563eb' : '#374151' }}
+        onClick={() => update({ range: [range ? range[0] : 0, time] })}
+        title="Loop up to here"
+      >
+        B
+      </button>
+      {range && (
+        <button style={buttonStyle} onClick={() => update({ range: null })} title="Clear the A-B loop">✕</button>
+      )}
+
+      <label style={labelStyle}>
+        <input type="checkbox" checked={playback.loop} onChange={(e) => update({ loop: e.target.checked })} />
+        Loop
+      </label>
+      <label style={labelStyle}>
+        <input
+          type="range"
+          min={0.1}
+          max={2}
+          step={0.1}
+          value={playback.speed}
+          onChange={(e) => update({ speed: Number(e.target.value) })}
+          style={{ width: '70px' }}
+        />
+        {playback.speed.toFixed(1)}×
+      </label>
+    </div>
+  );
+}
@@ -3,6 +3,7 @@ import { Canvas, useFrame, useLoader } from '@react-three/fiber';
 import { OrbitControls } from '@react-three/drei';
 import { GLTFLoader } from 'three/examples/jsm/loaders/GLTFLoader';
 import * as THREE from 'three';
+import { getAnimationUrl, isLoopingAnimation } from '../services/animationRegistry';
 
 // Component to load and animate the avatar
 function AnimatedAvatar({
@@ -16,21 +17,7 @@ function AnimatedAvatar({
   const mixerRef = useRef<THREE.AnimationMixer | null>(null);
   const currentActionRef = useRef<THREE.AnimationAction | null>(null);
 
-  // Map animation types to URLs
-  const animationMap: { [key: string]: string } = {
-    'idle': '/animations/idle.glb',
-    'walk': '/animations/walk.glb',
-    'run': '/animations/run.glb',
-    'jump': '/animations/jump.glb',
-    'dance': '/animations/dance.glb',
-    'wave': '/animations/wave.glb',
-    'sit': '/animations/idle.glb',
-    'clap': '/animations/wave.glb',
-    'nod': '/animations/wave.glb',
-    'shake': '/animations/idle.glb'
-  };
-
-  const animationUrl = animationMap[animationType] || '/animations/idle.glb';
+  const animationUrl = getAnimationUrl(animationType);
 
   // Load avatar
   const avatarGltf = useLoader(GLTFLoader, avatarUrl);
@@ -145,7 +132,7 @@ function AnimatedAvatar({
       const action = mixerRef.current.clipAction(retargetedClip);
 
       // Configure loop mode
-      if (animationType === 'jump' || animationType === 'wave') {
+      if (!isLoopingAnimation(animationType)) {
         action.setLoop(THREE.LoopOnce, 1);
         action.clampWhenFinished = true;
       } else {
@@ -0,0 +1,182 @@
+// Script to build the animation manifest from the GLB files in public/animations
+// Run with: node src/scripts/buildAnimationManifest.js
+// Re-run it whenever new mocap files are dropped into public/animations.
+
+const fs = require('fs');
+const path = require('path');
+
+const ANIMATIONS_DIR = path.join(__dirname, '../../public/animations');
+const OUTPUT_PATH = path.join(__dirname, '../data/animationManifest.json');
+
+const GLB_MAGIC = 0x46546c67; // 'glTF'
+const CHUNK_JSON = 0x4e4f534a;
+const CHUNK_BIN = 0x004e4942;
+
+// Net horizontal hips travel (in metres) above which a clip counts as root motion.
+// Idle and emotion clips sway a little but end where they started.
+const ROOT_MOTION_THRESHOLD = 0.25;
+
+const COMPONENT_READERS = {
+  5120: { size: 1, read: (buf, offset) => buf.readInt8(offset) },
+  5121: { size: 1, read: (buf, offset) => buf.readUInt8(offset) },
+  5122: { size: 2, read: (buf, offset) => buf.readInt16LE(offset) },
+  5123: { size: 2, read: (buf, offset) => buf.readUInt16LE(offset) },
+  5125: { size: 4, read: (buf, offset) => buf.readUInt32LE(offset) },
+  5126: { size: 4, read: (buf, offset) => buf.readFloatLE(offset) }
+};
+
+const TYPE_SIZES = { SCALAR: 1, VEC2: 2, VEC3: 3, VEC4: 4 };
+
+// Category hints by file name, checked in order
+const CATEGORY_HINTS = [
+  { pattern: /^idle/, category: 'idle' },
+  { pattern: /^dance/, category: 'dance' },
+  { pattern: /^(talk|wave)/, category: 'gesture' },
+  { pattern: /^(happy|sad|angry|surprised|think|confused)/, category: 'expression' },
+  { pattern: /^(walk|run|jog|strafe|crouch|fall|jump)/, category: 'movement' }
+];
+
+// Split a GLB file into its JSON document and binary chunk
+function parseGlb(buffer) {
+  if (buffer.readUInt32LE(0) !== GLB_MAGIC) {
+    throw new Error('Not a binary glTF file');
+  }
+
+  let json = null;
+  let bin = null;
+  let offset = 12;
+
+  while (offset < buffer.length) {
+    const chunkLength = buffer.readUInt32LE(offset);
+    const chunkType = buffer.readUInt32LE(offset + 4);
+    const chunk = buffer.subarray(offset + 8, offset + 8 + chunkLength);
+
+    if (chunkType === CHUNK_JSON) {
+      json = JSON.parse(chunk.toString('utf8'));
+    } else if (chunkType === CHUNK_BIN) {
+      bin = chunk;
+    }
+    offset += 8 + chunkLength;
+  }
+
+  if (!json) {
+    throw new Error('GLB has no JSON chunk');
+  }
+  return { json, bin };
+}
+
+// Read an accessor into an array of tuples
+function readAccessor(gltf, bin, accessorIndex) {
+  const accessor = gltf.accessors[accessorIndex];
+  const bufferView = gltf.bufferViews[accessor.bufferView];
+  const reader = COMPONENT_READERS[accessor.componentType];
+  const itemSize = TYPE_SIZES[accessor.type];
+
+  if (!reader || !itemSize) {
+    throw new Error(`Unsupported accessor ${accessor.componentType}/${accessor.type}`);
+  }
+
+  const stride = bufferView.byteStride || reader.size * itemSize;
+  const start = (bufferView.byteOffset || 0) + (accessor.byteOffset || 0);
+  const items = [];
+
+  for (let i = 0; i < accessor.count; i++) {
+    const item = [];
+    for (let c = 0; c < itemSize; c++) {
+      item.push(reader.read(bin, start + i * stride + c * reader.size));
+    }
+    items.push(item);
+  }
+  return items;
+}
+
+// Net horizontal (X/Z) distance the hips travel from the first to the last frame
+function measureHipsDisplacement(gltf, bin, animation) {
+  const channel = animation.channels.find(c =>
+    c.target.path === 'translation' && gltf.nodes[c.target.node]?.name === 'Hips'
+  );
+  if (!channel || !bin) return [0, 0];
+
+  const values = readAccessor(gltf, bin, animation.samplers[channel.sampler].output);
+  const [x0, , z0] = values[0];
+  const [x1, , z1] = values[values.length - 1];
+  return [Number((x1 - x0).toFixed(4)), Number((z1 - z0).toFixed(4))];
+}
+
+function suggestCategory(id, rootMotion) {
+  const hint = CATEGORY_HINTS.find(h => h.pattern.test(id));
+  if (hint) return hint.category;
+  return rootMotion ? 'movement' : 'idle';
+}
+
+function describeAnimation(file) {
+  const id = path.basename(file, '.glb');
+  const { json: gltf, bin } = parseGlb(fs.readFileSync(path.join(ANIMATIONS_DIR, file)));
+
+  if (!gltf.animations || gltf.animations.length === 0) {
+    return null;
+  }
+
+  const animation = gltf.animations[0];
+  let duration = 0;
+  let maxKeyframes = 0;
+
+  animation.samplers.forEach(sampler => {
+    const input = gltf.accessors[sampler.input];
+    duration = Math.max(duration, input.max ? input.max[0] : 0);
+    maxKeyframes = Math.max(maxKeyframes, input.count);
+  });
+
+  const bones = [...new Set(animation.channels.map(c => gltf.nodes[c.target.node]?.name).filter(Boolean))];
+  const rootDisplacement = measureHipsDisplacement(gltf, bin, animation);
+  const rootMotion = Math.hypot(...rootDisplacement) > ROOT_MOTION_THRESHOLD;
+
+  return {
+    id,
+    file,
+    clipName: animation.name || id,
+    duration: Number(duration.toFixed(4)),
+    frameRate: duration > 0 ? Math.round((maxKeyframes - 1) / duration) : 0,
+    trackCount: animation.channels.length,
+    bones,
+    rootMotion,
+    rootDisplacement,
+    suggestedCategory: suggestCategory(id, rootMotion)
+  };
+}
+
+function buildManifest() {
+  const files = fs.readdirSync(ANIMATIONS_DIR).filter(f => f.endsWith('.glb')).sort();
+  console.log(`🔍 Scanning ${files.length} GLB files in ${ANIMATIONS_DIR}`);
+
+  const animations = [];
+  files.forEach(file => {
+    try {
+      const entry = describeAnimation(file);
+      if (entry) {
+        animations.push(entry);
+        console.log(`  ✅ ${entry.id}: ${entry.duration}s @ ${entry.frameRate}fps, ${entry.trackCount} tracks${entry.rootMotion ? ', root motion' : ''}`);
+      } else {
+        console.log(`  ⏭️ ${file}: no animation clips, skipped`);
+      }
+    } catch (error) {
+      console.error(`  ❌ ${file}: ${error.message}`);
+    }
+  });
+
+  const manifest = {
+    generatedAt: new Date().toISOString(),
+    count: animations.length,
+    animations
+  };
+
+  const outputDir = path.dirname(OUTPUT_PATH);
+  if (!fs.existsSync(outputDir)) {
+    fs.mkdirSync(outputDir, { recursive: true });
+  }
+
+  fs.writeFileSync(OUTPUT_PATH, JSON.stringify(manifest, null, 2) + '\n');
+  console.log(`\n✅ Manifest with ${animations.length} animations saved to: ${OUTPUT_PATH}`);
+}
+
+buildManifest();
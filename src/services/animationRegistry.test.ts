@@ -0,0 +1,31 @@
+import fs from 'fs';
+import path from 'path';
+import { ANIMATIONS, ANIMATION_CATEGORIES, getAnimation, getAnimationUrl } from './animationRegistry';
+import { getExpression } from './facialExpressions';
+
+const PUBLIC_DIR = path.join(__dirname, '../../public');
+
+test('every registered animation has a GLB in public/animations', () => {
+  ANIMATIONS.forEach(anim => {
+    expect(fs.existsSync(path.join(PUBLIC_DIR, getAnimationUrl(anim.id)))).toBe(true);
+  });
+});
+
+test('animation ids are unique and use known categories', () => {
+  const ids = ANIMATIONS.map(anim => anim.id);
+  expect(new Set(ids).size).toBe(ids.length);
+
+  const categories = ANIMATION_CATEGORIES.map(category => category.id);
+  ANIMATIONS.forEach(anim => {
+    expect(categories).toContain(anim.category);
+  });
+
+  ANIMATIONS.filter(anim => anim.expression).forEach(anim => {
+    expect(getExpression(anim.expression!)).toBeDefined();
+  });
+});
+
+test('legacy aliases and unknown ids resolve', () => {
+  expect(getAnimation('clap')?.id).toBe('wave');
+  expect(getAnimationUrl('does-not-exist')).toBe('/animations/idle.glb');
+});
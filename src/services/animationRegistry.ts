@@ -0,0 +1,304 @@
+// Single source of truth for every animation clip shipped in public/animations.
+// Controls, players and lip sync all read from here. Curated entries below add labels
+// and playback settings; any other clip in the generated manifest is registered with defaults.
+// Clips the user imports are added at runtime with registerAnimation.
+// Regenerate the manifest with: node src/scripts/buildAnimationManifest.js
+
+import {
+  AnimationCategory,
+  AnimationDefinition,
+  AnimationFollowUp,
+  AnimationManifestEntry,
+  RootMotionMode
+} from '../types';
+import animationManifest from '../data/animationManifest.json';
+
+const ANIMATIONS_BASE_PATH = '/animations';
+const DEFAULT_BLEND_TIME = 0.5;
+
+export const ANIMATION_CATEGORIES: { id: AnimationCategory; label: string }[] = [
+  { id: 'basic', label: 'Basic Movement' },
+  { id: 'movement', label: 'Advanced Movement' },
+  { id: 'idle', label: 'Idle Variations' },
+  { id: 'expression', label: 'Emotions' },
+  { id: 'gesture', label: 'Communication' },
+  { id: 'dance', label: 'Dance Moves' },
+];
+
+// Build a registry entry, filling in the defaults shared by most clips
+function define(
+  id: string,
+  label: string,
+  category: AnimationCategory,
+  options: Partial<Omit<AnimationDefinition, 'id' | 'label' | 'category'>> = {}
+): AnimationDefinition {
+  return {
+    id,
+    label,
+    category,
+    file: `${id}.glb`,
+    loop: 'repeat',
+    lipSync: false,
+    preload: false,
+    blendTime: DEFAULT_BLEND_TIME,
+    ...options,
+  };
+}
+
+// Curated animations organized by category
+const CURATED_ANIMATIONS: AnimationDefinition[] = [
+  // Basic Movement
+  define('idle', '🧍 Idle', 'basic', { preload: true }),
+  define('walk', '🚶 Walk', 'basic', { preload: true, syncGroup: 'locomotion' }),
+  define('run', '🏃 Run', 'basic', { preload: true, syncGroup: 'locomotion' }),
+  define('jump', '🦘 Jump', 'basic', { loop: 'once', preload: true, blendTime: 0.2 }),
+
+  // Advanced Movement
+  define('jog', '🏃‍♂️ Jog', 'movement', { syncGroup: 'locomotion' }),
+  define('walk2', '🚶‍♂️ Walk 2', 'movement', { syncGroup: 'locomotion' }),
+  define('run2', '🏃 Run 2', 'movement', { syncGroup: 'locomotion' }),
+  define('strafe_left', '⬅️ Strafe Left', 'movement', { syncGroup: 'locomotion' }),
+  define('strafe_right', '➡️ Strafe Right', 'movement', { syncGroup: 'locomotion' }),
+  define('walk_backward', '🔙 Walk Back', 'movement', { syncGroup: 'locomotion' }),
+  define('jog_backward', '⏪ Jog Back', 'movement', { syncGroup: 'locomotion' }),
+  define('crouch', '🦐 Crouch', 'movement'),
+  define('fall', '🪂 Fall', 'movement', { loop: 'once', blendTime: 0.2, followUp: { mode: 'next', animation: 'idle2' } }),
+
+  // Idle Variations
+  define('idle2', '😌 Idle 2', 'idle'),
+  define('idle3', '😎 Idle 3', 'idle'),
+  define('idle4', '🧘 Idle 4', 'idle'),
+  define('idle5', '🤔 Idle 5', 'idle'),
+  define('idle6', '😴 Idle 6', 'idle'),
+  define('idle7', '🥱 Idle 7', 'idle'),
+
+  // Expressions & Emotions
+  define('happy', '😊 Happy', 'expression', { loop: 'once', expression: 'happy' }),
+  define('sad', '😢 Sad', 'expression', { loop: 'once', expression: 'sad', followUp: { mode: 'idle' } }),
+  define('angry', '😠 Angry', 'expression', { loop: 'once', expression: 'angry' }),
+  define('surprised', '😲 Surprised', 'expression', { loop: 'once', expression: 'surprised', blendTime: 0.3, followUp: { mode: 'next', animation: 'confused' } }),
+  define('think', '🤔 Think', 'expression', { loop: 'once', expression: 'think' }),
+  define('confused', '😕 Confused', 'expression', { loop: 'once', expression: 'confused' }),
+
+  // Gestures & Communication
+  define('wave', '👋 Wave', 'gesture', { loop: 'once', preload: true }),
+  define('talk', '💬 Talk 1', 'gesture', { lipSync: true }),
+  define('talk2', '🗣️ Talk 2', 'gesture', { lipSync: true }),
+  define('talk3', '📢 Talk 3', 'gesture', { lipSync: true }),
+  define('talk4', '💭 Talk 4', 'gesture', { lipSync: true }),
+  define('talk5', '🗨️ Talk 5', 'gesture', { lipSync: true }),
+
+  // Dance Moves
+  define('dance', '💃 Dance 1', 'dance', { preload: true }),
+  define('dance2', '🕺 Dance 2', 'dance'),
+  define('dance3', '🎶 Dance 3', 'dance'),
+  define('dance4', '🎵 Dance 4', 'dance'),
+  define('dance5', '🎸 Dance 5', 'dance'),
+  define('dance6', '🎤 Dance 6', 'dance'),
+  define('dance7', '🎺 Dance 7', 'dance'),
+  define('dance8', '🎷 Dance 8', 'dance'),
+  define('dance9', '🎹 Dance 9', 'dance'),
+  define('dance10', '🥁 Dance 10', 'dance'),
+  define('dance11', '🎻 Dance 11', 'dance'),
+  define('dance12', '🪕 Dance 12', 'dance'),
+  define('dance13', '🎼 Dance 13', 'dance'),
+];
+
+const MANIFEST_ENTRIES = animationManifest.animations as AnimationManifestEntry[];
+
+// Turn a file id like 'strafe_left' into a button label
+function labelFromId(id: string): string {
+  const words = id.replace(/[_-]+/g, ' ').replace(/(\d+)/g, ' $1').trim().split(/\s+/);
+  return '🎞️ ' + words.map(word => word.charAt(0).toUpperCase() + word.slice(1)).join(' ');
+}
+
+// Clips found by the manifest script that nobody has curated yet
+const DISCOVERED_ANIMATIONS: AnimationDefinition[] = MANIFEST_ENTRIES
+  .filter(entry => !CURATED_ANIMATIONS.some(anim => anim.id === entry.id))
+  .map(entry => define(entry.id, labelFromId(entry.id), entry.suggestedCategory, {
+    file: entry.file,
+    loop: entry.suggestedCategory === 'expression' ? 'once' : 'repeat',
+  }));
+
+export const ANIMATIONS: AnimationDefinition[] = [...CURATED_ANIMATIONS, ...DISCOVERED_ANIMATIONS];
+
+// Blend times for specific transitions, keyed 'from>to'. '*' matches any clip.
+// Anything not listed uses the target clip's own blendTime.
+const TRANSITION_BLEND_TIMES: Record<string, number> = {
+  '*>jump': 0.15,
+  'jump>*': 0.3,
+  'fall>*': 0.4,
+  'run>idle': 0.6,
+  'run2>idle': 0.6,
+  'idle>walk': 0.3,
+  'walk>run': 0.3,
+  'run>walk': 0.4,
+};
+
+// Legacy animation names used by the older animator components
+const ANIMATION_ALIASES: Record<string, string> = {
+  'sit': 'idle',
+  'clap': 'wave',
+  'nod': 'wave',
+  'shake': 'idle',
+};
+
+const animationsById = new Map(ANIMATIONS.map(anim => [anim.id, anim]));
+const manifestById = new Map(MANIFEST_ENTRIES.map(entry => [entry.id, entry]));
+const changeListeners = new Set<() => void>();
+
+/**
+ * Add (or replace) an animation at runtime, with the clip metadata the manifest would hold
+ */
+export function registerAnimation(definition: AnimationDefinition, info: AnimationManifestEntry): void {
+  const index = ANIMATIONS.findIndex(anim => anim.id === definition.id);
+  if (index >= 0) {
+    ANIMATIONS[index] = definition;
+  } else {
+    ANIMATIONS.push(definition);
+  }
+  animationsById.set(definition.id, definition);
+  manifestById.set(definition.id, info);
+  changeListeners.forEach(listener => listener());
+}
+
+export function unregisterAnimation(id: string): void {
+  const index = ANIMATIONS.findIndex(anim => anim.id === id);
+  if (index < 0) return;
+  ANIMATIONS.splice(index, 1);
+  animationsById.delete(id);
+  manifestById.delete(id);
+  changeListeners.forEach(listener => listener());
+}
+
+/**
+ * Called whenever animations are registered or removed
+ */
+export function onAnimationsChange(listener: () => void): () => void {
+  changeListeners.add(listener);
+  return () => {
+    changeListeners.delete(listener);
+  };
+}
+
+/**
+ * Look up an animation by id (or legacy alias)
+ */
+export function getAnimation(id: string): AnimationDefinition | undefined {
+  return animationsById.get(id) || animationsById.get(ANIMATION_ALIASES[id]);
+}
+
+/**
+ * Clip metadata (duration, frame rate, root motion...) from the generated manifest
+ */
+export function getAnimationClipInfo(id: string): AnimationManifestEntry | undefined {
+  const anim = getAnimation(id);
+  return anim ? manifestById.get(anim.id) : undefined;
+}
+
+/**
+ * Resolve the GLB url for an animation, falling back to idle for unknown ids
+ */
+export function getAnimationUrl(id: string): string {
+  const anim = getAnimation(id) || animationsById.get('idle')!;
+  return `${ANIMATIONS_BASE_PATH}/${anim.file}`;
+}
+
+export function getAnimationsByCategory(category: AnimationCategory): AnimationDefinition[] {
+  return ANIMATIONS.filter(anim => anim.category === category);
+}
+
+export function isLoopingAnimation(id: string): boolean {
+  return getAnimation(id)?.loop !== 'once';
+}
+
+export function isLipSyncAnimation(id: string): boolean {
+  return getAnimation(id)?.lipSync === true;
+}
+
+/**
+ * Facial expression that goes with a clip, e.g. a smile for the happy clip
+ */
+export function getClipExpression(id: string): string | undefined {
+  return getAnimation(id)?.expression;
+}
+
+/**
+ * How the clip's root motion is handled - clips that travel are extracted, the rest play in place
+ */
+export function getRootMotionMode(id: string): RootMotionMode {
+  const anim = getAnimation(id);
+  if (anim?.rootMotion) return anim.rootMotion;
+  return getAnimationClipInfo(id)?.rootMotion ? 'extract' : 'inPlace';
+}
+
+export function getBlendTime(id: string): number {
+  return getAnimation(id)?.blendTime ?? DEFAULT_BLEND_TIME;
+}
+
+/**
+ * What happens after a one-shot finishes. Looping clips have no follow-up.
+ */
+export function getFollowUp(id: string): AnimationFollowUp | undefined {
+  const anim = getAnimation(id);
+  if (!anim || anim.loop !== 'once') return undefined;
+  return anim.followUp || { mode: 'previous' };
+}
+
+/**
+ * Crossfade duration when switching from one clip to another
+ */
+export function getTransitionBlendTime(from: string | null, to: string): number {
+  const toId = getAnimation(to)?.id || to;
+  if (from) {
+    const fromId = getAnimation(from)?.id || from;
+    const keys = [`${fromId}>${toId}`, `${fromId}>*`, `*>${toId}`];
+    const key = keys.find(k => TRANSITION_BLEND_TIMES[k] !== undefined);
+    if (key) return TRANSITION_BLEND_TIMES[key];
+  } else if (TRANSITION_BLEND_TIMES[`*>${toId}`] !== undefined) {
+    return TRANSITION_BLEND_TIMES[`*>${toId}`];
+  }
+  return getBlendTime(toId);
+}
+
+/**
+ * Whether a transition should keep the gait phase (locomotion to locomotion)
+ */
+export function isSyncedTransition(from: string | null, to: string): boolean {
+  if (!from) return false;
+  const fromGroup = getAnimation(from)?.syncGroup;
+  return fromGroup !== undefined && fromGroup === getAnimation(to)?.syncGroup;
+}
+
+export function getPreloadAnimationUrls(): string[] {
+  return ANIMATIONS.filter(anim => anim.preload).map(anim => getAnimationUrl(anim.id));
+}
+
+/**
+ * Check that every registered GLB is actually served.
+ * The dev server answers unknown paths with index.html, so an HTML response counts as missing.
+ * Returns the ids of the missing animations.
+ */
+export async function verifyAnimationFiles(): Promise<string[]> {
+  const shipped = ANIMATIONS.filter(anim => !anim.custom);
+  const results = await Promise.all(shipped.map(async anim => {
+    try {
+      const response = await fetch(getAnimationUrl(anim.id), { method: 'HEAD' });
+      const contentType = response.headers.get('content-type') || '';
+      return response.ok && !contentType.includes('text/html') ? null : anim.id;
+    } catch (error) {
+      return anim.id;
+    }
+  }));
+
+  const missing = results.filter((id): id is string => id !== null);
+  if (missing.length > 0) {
+    console.error('Animation registry entries without a GLB file:', missing);
+  }
+
+  const unlisted = shipped.filter(anim => !manifestById.has(anim.id)).map(anim => anim.id);
+  if (unlisted.length > 0) {
+    console.warn('Animations missing from the manifest - re-run buildAnimationManifest.js:', unlisted);
+  }
+  return missing;
+}
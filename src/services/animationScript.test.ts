@@ -0,0 +1,65 @@
+import { getScriptDuration, parseAnimationScript, validateAnimationScript } from './animationScript';
+import { Character } from '../types';
+
+const characters: Character[] = [
+  { id: 'c1', name: 'Alex', avatarUrl: 'https://models.readyplayer.me/alex.glb' },
+  { id: 'c2', name: 'Sam', avatarUrl: 'https://models.readyplayer.me/sam.glb' },
+];
+
+const script = {
+  version: 1,
+  characters: [{ id: 'alex', name: 'alex' }, { id: 'sam', name: 'Sam' }],
+  steps: [
+    { type: 'clip', at: 0, character: 'alex', animation: 'wave' },
+    { type: 'clip', at: 2, character: 'alex', animation: 'dance', duration: 5 },
+    { type: 'expression', at: 2, character: 'sam', expression: 'confused', intensity: 0.8 },
+    { type: 'speech', at: 8, character: 'sam', text: 'What was that?', duration: 1.5 },
+    { type: 'look', at: 8, character: 'alex', target: 'sam', duration: 1 },
+    { type: 'move', at: 7, character: 'sam', speed: 1.4, direction: -90, duration: 2 },
+    { type: 'camera', at: 0, position: [0, 1.5, 3], target: [0, 1, 0], transition: 1 },
+  ],
+};
+
+test('accepts a valid script and matches character names case-insensitively', () => {
+  const result = validateAnimationScript(script, characters);
+  expect(result.errors).toEqual([]);
+  expect(result.valid).toBe(true);
+  expect(getScriptDuration(result.script!)).toBe(9.5);
+});
+
+test('points schema errors at the offending step', () => {
+  const broken = {
+    ...script,
+    steps: [
+      script.steps[0],
+      { type: 'clip', at: 2, character: 'alex', animation: 'dance', duration: -1 },
+      { type: 'speech', at: 3, character: 'sam' },
+    ],
+  };
+
+  const messages = validateAnimationScript(broken).errors.map(error => error.message);
+  expect(messages).toContain("Step 2 (clip 'dance' for alex at 2s) duration must be > 0");
+  expect(messages).toContain("Step 3 (speech for sam at 3s) is missing 'text'");
+});
+
+test('reports unknown clips, expressions, characters and bad JSON', () => {
+  const broken = {
+    ...script,
+    steps: [
+      { type: 'clip', at: 0, character: 'robin', animation: 'moonwalk' },
+      { type: 'expression', at: 1, character: 'alex', expression: 'smug' },
+      { type: 'look', at: 2, character: 'alex', target: 'moon' },
+    ],
+  };
+
+  const messages = validateAnimationScript(broken, [characters[0]]).errors.map(error => error.message);
+  expect(messages).toEqual([
+    "Character 'Sam' is not in your character list",
+    "Step 1 (clip 'moonwalk' for robin at 0s) refers to unknown character 'robin'",
+    "Step 1 (clip 'moonwalk' for robin at 0s) uses unknown animation 'moonwalk'",
+    "Step 2 (expression 'smug' for alex at 1s) uses unknown expression 'smug' (known: happy, smile, sad, angry, surprised, think, confused, disgusted, scared)",
+    "Step 3 (look at 'moon' for alex at 2s) has an unknown target - use 'camera', 'ahead', a character id or [x, y, z]",
+  ]);
+
+  expect(parseAnimationScript('{ "version": 1,').errors[0].message).toMatch(/not valid JSON/);
+});
@@ -0,0 +1,210 @@
+// Parsing and validation for animation scripts (format version 1).
+// The JSON Schema lives in src/data/animationScript.schema.json; this module adds the
+// checks a schema can't express (known clips and expressions, character references) and turns
+// validation failures into messages that point at the offending step.
+
+import Ajv, { ErrorObject } from 'ajv';
+import animationScriptSchema from '../data/animationScript.schema.json';
+import { getAnimation } from './animationRegistry';
+import { EXPRESSIONS, getExpression } from './facialExpressions';
+import { AnimationScript, Character, ScriptStep } from '../types';
+
+export const ANIMATION_SCRIPT_VERSION = 1;
+
+// Look step targets that aren't character ids
+const LOOK_TARGET_KEYWORDS = ['camera', 'ahead'];
+
+// Average speaking rate used to time speech steps
+const WORDS_PER_SECOND = 2.5;
+
+export interface ScriptValidationError {
+  // JSON pointer to the offending value, e.g. /steps/2/duration
+  path: string;
+  // Index of the offending step, if the error is inside a step
+  stepIndex?: number;
+  message: string;
+}
+
+export interface ScriptValidationResult {
+  valid: boolean;
+  script?: AnimationScript;
+  errors: ScriptValidationError[];
+}
+
+const ajv = new Ajv({ allErrors: true });
+const validateSchema = ajv.compile<AnimationScript>(animationScriptSchema);
+
+// "Step 3 (clip 'wave' for alex at 1.5s)"
+function describeStep(step: any, index: number): string {
+  if (!step || typeof step !== 'object') return `Step ${index + 1}`;
+
+  const details: string[] = [];
+  if (step.type === 'clip' && step.animation) details.push(`clip '${step.animation}'`);
+  else if (step.type === 'speech' && step.text) details.push(`speech "${String(step.text).slice(0, 24)}"`);
+  else if (step.type === 'expression' && step.expression) details.push(`expression '${step.expression}'`);
+  else if (step.type === 'look' && typeof step.target === 'string') details.push(`look at '${step.target}'`);
+  else if (step.type === 'move' && typeof step.speed === 'number') details.push(`move at ${step.speed} m/s`);
+  else if (step.type) details.push(String(step.type));
+  if (step.character) details.push(`for ${step.character}`);
+  if (typeof step.at === 'number') details.push(`at ${step.at}s`);
+
+  return details.length > 0 ? `Step ${index + 1} (${details.join(' ')})` : `Step ${index + 1}`;
+}
+
+// Turn an ajv error into a sentence
+function formatSchemaError(error: ErrorObject, data: any): ScriptValidationError {
+  const segments = error.instancePath.split('/').slice(1);
+  let location = 'Script';
+  let field = segments.join('.');
+  let stepIndex: number | undefined;
+
+  if (segments[0] === 'steps' && segments.length >= 2) {
+    stepIndex = Number(segments[1]);
+    location = describeStep(data?.steps?.[stepIndex], stepIndex);
+    field = segments.slice(2).join('.');
+  } else if (segments[0] === 'characters' && segments.length >= 2) {
+    location = `Character ${Number(segments[1]) + 1}`;
+    field = segments.slice(2).join('.');
+  }
+
+  let message: string;
+  switch (error.keyword) {
+    case 'required':
+      message = `is missing '${error.params.missingProperty}'`;
+      break;
+    case 'additionalProperties':
+      message = `has an unknown property '${error.params.additionalProperty}'`;
+      break;
+    case 'enum':
+      message = `${field || 'value'} must be one of: ${error.params.allowedValues.join(', ')}`;
+      break;
+    case 'const':
+      message = `${field || 'value'} must be ${JSON.stringify(error.params.allowedValue)}`;
+      break;
+    default:
+      message = `${field ? field + ' ' : ''}${error.message}`;
+  }
+
+  return { path: error.instancePath || '/', stepIndex, message: `${location} ${message}` };
+}
+
+// Checks that need the animation registry or the app's characters
+function checkReferences(script: AnimationScript, appCharacters?: Character[]): ScriptValidationError[] {
+  const errors: ScriptValidationError[] = [];
+  const scriptCharacterIds = new Set<string>();
+
+  script.characters.forEach((character, index) => {
+    if (scriptCharacterIds.has(character.id)) {
+      errors.push({ path: `/characters/${index}/id`, message: `Character id '${character.id}' is used twice` });
+    }
+    scriptCharacterIds.add(character.id);
+
+    if (appCharacters && !findAppCharacter(appCharacters, character.name)) {
+      errors.push({
+        path: `/characters/${index}/name`,
+        message: `Character '${character.name}' is not in your character list`
+      });
+    }
+  });
+
+  script.steps.forEach((step: ScriptStep, index) => {
+    const location = describeStep(step, index);
+
+    if (step.type !== 'camera' && !scriptCharacterIds.has(step.character)) {
+      errors.push({
+        path: `/steps/${index}/character`,
+        stepIndex: index,
+        message: `${location} refers to unknown character '${step.character}'`
+      });
+    }
+
+    if ((step.type === 'clip' || step.type === 'speech') && step.animation && !getAnimation(step.animation)) {
+      errors.push({
+        path: `/steps/${index}/animation`,
+        stepIndex: index,
+        message: `${location} uses unknown animation '${step.animation}'`
+      });
+    }
+
+    if (step.type === 'look' && typeof step.target === 'string'
+      && !LOOK_TARGET_KEYWORDS.includes(step.target) && !scriptCharacterIds.has(step.target)) {
+      errors.push({
+        path: `/steps/${index}/target`,
+        stepIndex: index,
+        message: `${location} has an unknown target - use 'camera', 'ahead', a character id or [x, y, z]`
+      });
+    }
+
+    if (step.type === 'expression' && !getExpression(step.expression)) {
+      errors.push({
+        path: `/steps/${index}/expression`,
+        stepIndex: index,
+        message: `${location} uses unknown expression '${step.expression}' (known: ${EXPRESSIONS.map(e => e.id).join(', ')})`
+      });
+    }
+  });
+
+  return errors;
+}
+
+/**
+ * Find the app character a script character refers to (names match case-insensitively)
+ */
+export function findAppCharacter(appCharacters: Character[], name: string): Character | undefined {
+  const wanted = name.trim().toLowerCase();
+  return appCharacters.find(character => character.name.trim().toLowerCase() === wanted);
+}
+
+/**
+ * Validate an already-parsed script. Pass the app's characters to also check that
+ * every script character exists.
+ */
+export function validateAnimationScript(data: unknown, appCharacters?: Character[]): ScriptValidationResult {
+  if (!validateSchema(data)) {
+    const errors = (validateSchema.errors || [])
+      // if/then failures repeat the errors already reported inside "then"
+      .filter(error => error.keyword !== 'if')
+      .map(error => formatSchemaError(error, data));
+    return { valid: false, errors };
+  }
+
+  const errors = checkReferences(data, appCharacters);
+  return errors.length > 0 ? { valid: false, errors } : { valid: true, script: data, errors: [] };
+}
+
+/**
+ * Parse and validate script JSON text
+ */
+export function parseAnimationScript(json: string, appCharacters?: Character[]): ScriptValidationResult {
+  let data: unknown;
+  try {
+    data = JSON.parse(json);
+  } catch (error) {
+    return {
+      valid: false,
+      errors: [{ path: '/', message: `Script is not valid JSON: ${(error as Error).message}` }]
+    };
+  }
+  return validateAnimationScript(data, appCharacters);
+}
+
+/**
+ * Rough time needed to say a line, for speech steps without a duration
+ */
+export function estimateSpeechDuration(text: string): number {
+  const words = text.trim().split(/\s+/).filter(Boolean).length;
+  return Math.max(1, words / WORDS_PER_SECOND);
+}
+
+/**
+ * Length of a script in seconds (when its last step ends)
+ */
+export function getScriptDuration(script: AnimationScript): number {
+  return script.steps.reduce((end, step) => {
+    let duration = 0;
+    if (step.type === 'camera') duration = step.transition ?? 0;
+    else if (step.type === 'speech') duration = step.duration ?? estimateSpeechDuration(step.text);
+    else duration = step.duration ?? 0;
+    return Math.max(end, step.at + duration);
+  }, 0);
+}
@@ -0,0 +1,90 @@
+import { AnimationSequencer } from './animationSequencer';
+import { registerAvatarController } from './avatarControllers';
+import { createFakeController } from './fakeAvatarController';
+
+test('plays steps in order, by loop count and by duration', () => {
+  const fake = createFakeController('alex');
+  const unregister = registerAvatarController(fake.controller);
+  const ended: string[] = [];
+
+  const sequencer = new AnimationSequencer('alex');
+  sequencer.enqueue(
+    { animation: 'wave', onEnd: step => ended.push(step.animation) },
+    { animation: 'talk3', duration: 4, onEnd: step => ended.push(step.animation) },
+    { animation: 'idle5' }
+  );
+
+  expect(fake.played).toEqual(['wave']);
+  fake.finish('wave');
+  expect(fake.played).toEqual(['wave', 'talk3']);
+
+  // Duration steps ignore the clip finishing and wait for the time to pass
+  fake.finish('talk3');
+  fake.tick(3);
+  expect(sequencer.getState().current?.animation).toBe('talk3');
+  fake.tick(1.5);
+  expect(fake.played).toEqual(['wave', 'talk3', 'idle5']);
+  expect(ended).toEqual(['wave', 'talk3']);
+  expect(sequencer.getState().upcoming).toHaveLength(0);
+
+  unregister();
+});
+
+test('waits for the avatar to mount before starting', () => {
+  const sequencer = new AnimationSequencer('sam');
+  sequencer.enqueue({ animation: 'dance', loops: 2 });
+  expect(sequencer.getState().current).toBeNull();
+
+  const fake = createFakeController('sam');
+  const unregister = registerAvatarController(fake.controller);
+  expect(fake.played).toEqual(['dance']);
+  expect(sequencer.getState().current?.animation).toBe('dance');
+
+  unregister();
+});
+
+test('steps queued before the avatar mounts still play one at a time', () => {
+  const started: string[] = [];
+  const ended: string[] = [];
+  const track = { onStart: (step: { animation: string }) => started.push(step.animation), onEnd: (step: { animation: string }) => ended.push(step.animation) };
+
+  const sequencer = new AnimationSequencer('kim');
+  sequencer.enqueue({ animation: 'wave', ...track });
+  sequencer.enqueue({ animation: 'dance', ...track });
+  expect(sequencer.getState().upcoming).toHaveLength(2);
+
+  const fake = createFakeController('kim');
+  const unregister = registerAvatarController(fake.controller);
+  expect(fake.played).toEqual(['wave']);
+  expect(sequencer.getState().upcoming.map(step => step.animation)).toEqual(['dance']);
+
+  fake.finish('wave');
+  expect(fake.played).toEqual(['wave', 'dance']);
+  expect(started).toEqual(['wave', 'dance']);
+  expect(ended).toEqual(['wave']);
+
+  unregister();
+});
+
+test('skips a step whose clip fails to load', async () => {
+  const played: string[] = [];
+  const fake = createFakeController('ria', {
+    play: animationType => {
+      played.push(animationType);
+      return Promise.resolve(animationType !== 'custom_missing');
+    }
+  });
+  const unregister = registerAvatarController(fake.controller);
+  const warn = jest.spyOn(console, 'warn').mockImplementation(() => {});
+
+  const sequencer = new AnimationSequencer('ria');
+  sequencer.enqueue({ animation: 'custom_missing' }, { animation: 'wave' });
+  expect(played).toEqual(['custom_missing']);
+
+  await Promise.resolve();
+  expect(played).toEqual(['custom_missing', 'wave']);
+  expect(sequencer.getState().current?.animation).toBe('wave');
+
+  warn.mockRestore();
+  unregister();
+});
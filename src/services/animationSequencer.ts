@@ -0,0 +1,187 @@
+// Plays queued animation steps one after another on a character's avatar.
+// Example: getAnimationSequencer(id).enqueue(
+//   { animation: 'wave' },
+//   { animation: 'talk3', duration: 4 },
+//   { animation: 'idle5' }
+// );
+
+import { getAvatarController, onAvatarControllerRegistered } from './avatarControllers';
+import { isLoopingAnimation } from './animationRegistry';
+
+export interface SequenceStep {
+  animation: string;
+  // Seconds to stay on this step. Takes precedence over loops.
+  duration?: number;
+  // Times to play the clip (defaults to once)
+  loops?: number;
+  // Crossfade into this step, defaults to the registry's transition blend time
+  blendTime?: number;
+  onStart?: (step: SequenceStep) => void;
+  onEnd?: (step: SequenceStep) => void;
+}
+
+export interface SequencerState {
+  current: SequenceStep | null;
+  upcoming: SequenceStep[];
+  elapsed: number;
+}
+
+export class AnimationSequencer {
+  private queue: SequenceStep[] = [];
+  private current: SequenceStep | null = null;
+  private elapsed = 0;
+  private stepCleanup: (() => void)[] = [];
+  // Set while waiting for the avatar to mount, so only one wait is ever pending
+  private stopWaiting: (() => void) | null = null;
+  private listeners = new Set<(state: SequencerState) => void>();
+
+  constructor(private characterId: string) {}
+
+  /**
+   * Add steps to the end of the queue, starting playback if nothing is playing
+   */
+  enqueue(...steps: SequenceStep[]): this {
+    this.queue.push(...steps);
+    if (!this.current) {
+      this.next();
+    } else {
+      this.notify();
+    }
+    return this;
+  }
+
+  /**
+   * Drop every queued step. The clip that is playing keeps playing.
+   */
+  clear(): void {
+    this.queue = [];
+    this.detachStep();
+    this.stopWaiting?.();
+    this.stopWaiting = null;
+    this.current = null;
+    this.notify();
+  }
+
+  /**
+   * End the current step early and move on to the next one
+   */
+  skip(): void {
+    if (this.current) {
+      this.finishStep();
+    }
+  }
+
+  getState(): SequencerState {
+    return {
+      current: this.current,
+      upcoming: [...this.queue],
+      elapsed: this.elapsed,
+    };
+  }
+
+  subscribe(listener: (state: SequencerState) => void): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  private next(): void {
+    const step = this.queue[0];
+    if (!step) {
+      this.current = null;
+      this.notify();
+      return;
+    }
+
+    // Already waiting for the avatar - the queued step starts when it mounts
+    if (this.stopWaiting) {
+      this.notify();
+      return;
+    }
+
+    const controller = getAvatarController(this.characterId);
+    if (!controller) {
+      // Wait for the avatar to mount, then pick up where we left off
+      console.warn(`No avatar mounted for ${this.characterId}, sequence paused`);
+      this.stopWaiting = onAvatarControllerRegistered(characterId => {
+        if (characterId === this.characterId) {
+          this.stopWaiting?.();
+          this.stopWaiting = null;
+          this.next();
+        }
+      });
+      this.notify();
+      return;
+    }
+
+    this.queue.shift();
+    this.current = step;
+    this.elapsed = 0;
+
+    this.stepCleanup.push(controller.onUpdate(delta => {
+      this.elapsed += delta;
+      if (step.duration !== undefined && this.elapsed >= step.duration) {
+        this.finishStep();
+      }
+    }));
+
+    this.stepCleanup.push(controller.onFinished(animationType => {
+      if (step.duration === undefined && animationType === step.animation) {
+        this.finishStep();
+      }
+    }));
+
+    controller.play(step.animation, {
+      blendTime: step.blendTime,
+      loops: step.duration !== undefined ? undefined : step.loops ?? 1,
+      autoFollowUp: false,
+    }).then(started => {
+      // A clip that didn't load will never finish - skip it rather than hold up the queue
+      if (!started && this.current === step) {
+        console.warn(`Animation ${step.animation} could not be played, skipping it`);
+        this.finishStep();
+      }
+    });
+
+    step.onStart?.(step);
+    this.notify();
+  }
+
+  private finishStep(): void {
+    const step = this.current;
+    this.detachStep();
+    this.current = null;
+    step?.onEnd?.(step);
+
+    // Don't leave the avatar frozen on the last frame of a one-shot
+    if (this.queue.length === 0 && step && !isLoopingAnimation(step.animation)) {
+      getAvatarController(this.characterId)?.play('idle');
+    }
+    this.next();
+  }
+
+  private detachStep(): void {
+    this.stepCleanup.forEach(cleanup => cleanup());
+    this.stepCleanup = [];
+  }
+
+  private notify(): void {
+    const state = this.getState();
+    this.listeners.forEach(listener => listener(state));
+  }
+}
+
+const sequencers = new Map<string, AnimationSequencer>();
+
+/**
+ * Get (or create) the sequencer for a character
+ */
+export function getAnimationSequencer(characterId: string): AnimationSequencer {
+  let sequencer = sequencers.get(characterId);
+  if (!sequencer) {
+    sequencer = new AnimationSequencer(characterId);
+    sequencers.set(characterId, sequencer);
+  }
+  return sequencer;
+}
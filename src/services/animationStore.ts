@@ -0,0 +1,99 @@
+// IndexedDB storage for animation clips imported by the user, so they survive reloads.
+// Clips are stored already retargeted, as three.js clip JSON, with their registry settings.
+// Audio files placed on the timeline are kept here too, as the files themselves.
+
+import * as THREE from 'three';
+import { AnimationCategory, AnimationLoopMode, AnimationManifestEntry } from '../types';
+
+const DATABASE_NAME = 'rpm-animator';
+const DATABASE_VERSION = 2;
+const ANIMATION_STORE = 'animations';
+const AUDIO_STORE = 'timelineAudio';
+
+export interface StoredAnimation {
+  id: string;
+  label: string;
+  category: AnimationCategory;
+  loop: AnimationLoopMode;
+  // Name of the file it was imported from
+  fileName: string;
+  info: AnimationManifestEntry;
+  clip: THREE.AnimationClipJSON;
+}
+
+export interface StoredAudio {
+  id: string;
+  fileName: string;
+  data: Blob;
+}
+
+let databaseRequest: Promise<IDBDatabase> | null = null;
+
+function openDatabase(): Promise<IDBDatabase> {
+  if (!databaseRequest) {
+    databaseRequest = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DATABASE_NAME, DATABASE_VERSION);
+      // Version 1 databases only have the animations store
+      request.onupgradeneeded = () => {
+        const database = request.result;
+        [ANIMATION_STORE, AUDIO_STORE].forEach(name => {
+          if (!database.objectStoreNames.contains(name)) database.createObjectStore(name, { keyPath: 'id' });
+        });
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+    // Let a later call try again
+    databaseRequest.catch(() => {
+      databaseRequest = null;
+    });
+  }
+  return databaseRequest;
+}
+
+// Run one request against a store
+async function withStore<T>(
+  name: string,
+  mode: IDBTransactionMode,
+  run: (store: IDBObjectStore) => IDBRequest<T>
+): Promise<T> {
+  const database = await openDatabase();
+  return new Promise((resolve, reject) => {
+    const request = run(database.transaction(name, mode).objectStore(name));
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+export function getStoredAnimations(): Promise<StoredAnimation[]> {
+  return withStore(ANIMATION_STORE, 'readonly', store => store.getAll() as IDBRequest<StoredAnimation[]>);
+}
+
+export async function saveStoredAnimation(animation: StoredAnimation): Promise<void> {
+  await withStore(ANIMATION_STORE, 'readwrite', store => store.put(animation));
+}
+
+export async function deleteStoredAnimation(id: string): Promise<void> {
+  await withStore(ANIMATION_STORE, 'readwrite', store => store.delete(id));
+}
+
+/**
+ * Read an imported clip back into a three.js clip
+ */
+export async function loadStoredClip(id: string): Promise<THREE.AnimationClip> {
+  const stored = await withStore(ANIMATION_STORE, 'readonly', store => store.get(id) as IDBRequest<StoredAnimation | undefined>);
+  if (!stored) throw new Error(`No imported animation '${id}' in the browser's storage`);
+  return THREE.AnimationClip.parse(stored.clip);
+}
+
+export async function saveStoredAudio(audio: StoredAudio): Promise<void> {
+  await withStore(AUDIO_STORE, 'readwrite', store => store.put(audio));
+}
+
+export function getStoredAudio(id: string): Promise<StoredAudio | undefined> {
+  return withStore(AUDIO_STORE, 'readonly', store => store.get(id) as IDBRequest<StoredAudio | undefined>);
+}
+
+export async function deleteStoredAudio(id: string): Promise<void> {
+  await withStore(AUDIO_STORE, 'readwrite', store => store.delete(id));
+}
@@ -0,0 +1,70 @@
+import { analyseAudioSamples, playAudioLipSync } from './audioLipSync';
+import { registerAvatarController } from './avatarControllers';
+import { installFakeAudioContext } from './fakeAudioContext';
+import { createFakeController } from './fakeAvatarController';
+import { sampleVisemeTimeline, simplifyTimeline } from './visemes';
+
+const SAMPLE_RATE = 16000;
+
+// Half a second of silence, then half a second of a tone or noise
+function makeSamples(fill: (i: number) => number): Float32Array {
+  const samples = new Float32Array(SAMPLE_RATE);
+  for (let i = SAMPLE_RATE / 2; i < samples.length; i++) {
+    samples[i] = fill(i);
+  }
+  return samples;
+}
+
+test('closes the mouth for silence and opens it for voiced sound', () => {
+  const timeline = analyseAudioSamples(makeSamples(i => 0.5 * Math.sin((2 * Math.PI * 220 * i) / SAMPLE_RATE)), SAMPLE_RATE);
+
+  expect(timeline[0]).toMatchObject({ start: 0, viseme: 'sil' });
+  expect(timeline[0].end).toBeCloseTo(0.5, 1);
+  const voiced = timeline.filter(cue => cue.end > 0.6);
+  expect(voiced.length).toBeGreaterThan(0);
+  voiced.forEach(cue => expect(['U', 'O', 'aa', 'nn']).toContain(cue.viseme));
+});
+
+test('maps hiss to a fricative', () => {
+  let seed = 1;
+  const noise = () => {
+    seed = (seed * 16807) % 2147483647;
+    return seed / 2147483647 - 0.5;
+  };
+  const timeline = analyseAudioSamples(makeSamples(noise), SAMPLE_RATE);
+
+  expect(timeline.some(cue => ['SS', 'FF', 'CH'].includes(cue.viseme))).toBe(true);
+});
+
+test('merges repeated cues and blends into the next shape at boundaries', () => {
+  const timeline = simplifyTimeline([
+    { start: 0, end: 0.1, viseme: 'aa', weight: 1 },
+    { start: 0.1, end: 0.2, viseme: 'aa', weight: 0.5 },
+    { start: 0.2, end: 0.22, viseme: 'nn', weight: 1 },
+    { start: 0.22, end: 0.4, viseme: 'O', weight: 1 },
+  ]);
+
+  expect(timeline.map(cue => [cue.start, cue.end, cue.viseme])).toEqual([[0, 0.22, 'aa'], [0.22, 0.4, 'O']]);
+  expect(timeline[0].weight).toBeCloseTo(0.75);
+  expect(sampleVisemeTimeline(timeline, 0.1).aa).toBeCloseTo(0.75);
+  const boundary = sampleVisemeTimeline(timeline, 0.21);
+  expect(boundary.aa).toBeGreaterThan(0);
+  expect(boundary.O).toBeGreaterThan(0);
+  expect(sampleVisemeTimeline(timeline, 1)).toEqual({});
+});
+
+test('stopping sends the avatar back to idle', () => {
+  installFakeAudioContext();
+  const fake = createFakeController('audio-kai');
+  const unregister = registerAvatarController(fake.controller);
+
+  const buffer = { duration: 2 } as AudioBuffer;
+  const playback = playAudioLipSync('audio-kai', buffer, { timeline: [{ start: 0, end: 1, viseme: 'aa', weight: 1 }] });
+  expect(fake.played).toEqual(['talk']);
+
+  playback.stop();
+  expect(fake.played).toEqual(['talk', 'idle']);
+  expect(fake.lipSyncs[0]?.sample()).toBeNull();
+
+  unregister();
+});
@@ -0,0 +1,318 @@
+// Lip sync from audio files. The file is decoded with Web Audio and analysed frame by
+// frame (loudness, zero crossings and band energies from an FFT) into a viseme
+// timeline, which is then played in sync with the audio and a talk clip.
+
+import { getAvatarController } from './avatarControllers';
+import { getAnimationSequencer } from './animationSequencer';
+import { createTimelineLipSync, simplifyTimeline } from './visemes';
+import { VisemeCue, VisemeName } from '../types';
+
+export interface AudioAnalysisOptions {
+  // Analysis frames per second
+  frameRate?: number;
+  // Loudness (relative to the file's loud parts) below which the mouth closes
+  silenceThreshold?: number;
+  // Cues shorter than this are merged into their neighbour
+  minCueDuration?: number;
+}
+
+export interface AudioLipSyncPlayback {
+  duration: number;
+  timeline: VisemeCue[];
+  // Seconds into the audio
+  getTime: () => number;
+  stop: () => void;
+}
+
+export interface AudioLipSyncOptions {
+  animation?: string;
+  // Mouth cues to play instead of analysing the audio
+  timeline?: VisemeCue[];
+  // Seconds into the audio to start from
+  offset?: number;
+  // Set to false to leave the body alone and only drive the mouth
+  talkClip?: boolean;
+  onEnd?: () => void;
+}
+
+const FFT_SIZE = 1024;
+const DEFAULT_OPTIONS: Required<AudioAnalysisOptions> = {
+  frameRate: 50,
+  silenceThreshold: 0.12,
+  minCueDuration: 0.05
+};
+
+let audioContext: AudioContext | null = null;
+
+/**
+ * Shared AudioContext, created on first use (browsers only allow it after a user gesture)
+ */
+export function getAudioContext(): AudioContext {
+  if (!audioContext) {
+    audioContext = new AudioContext();
+  }
+  if (audioContext.state === 'suspended') {
+    audioContext.resume();
+  }
+  return audioContext;
+}
+
+// In-place radix-2 FFT, returns magnitudes of the first half of the spectrum
+function fftMagnitudes(input: Float32Array): Float32Array {
+  const n = input.length;
+  const re = Float32Array.from(input);
+  const im = new Float32Array(n);
+
+  for (let i = 1, j = 0; i < n; i++) {
+    let bit = n >> 1;
+    for (; j & bit; bit >>= 1) j ^= bit;
+    j ^= bit;
+    if (i < j) {
+      [re[i], re[j]] = [re[j], re[i]];
+    }
+  }
+
+  for (let size = 2; size <= n; size <<= 1) {
+    const angle = (-2 * Math.PI) / size;
+    for (let start = 0; start < n; start += size) {
+      for (let k = 0; k < size / 2; k++) {
+        const cos = Math.cos(angle * k);
+        const sin = Math.sin(angle * k);
+        const a = start + k;
+        const b = a + size / 2;
+        const tRe = re[b] * cos - im[b] * sin;
+        const tIm = re[b] * sin + im[b] * cos;
+        re[b] = re[a] - tRe;
+        im[b] = im[a] - tIm;
+        re[a] += tRe;
+        im[a] += tIm;
+      }
+    }
+  }
+
+  const magnitudes = new Float32Array(n / 2);
+  for (let i = 0; i < n / 2; i++) {
+    magnitudes[i] = Math.hypot(re[i], im[i]);
+  }
+  return magnitudes;
+}
+
+export interface FrameFeatures {
+  rms: number;
+  // Zero crossings per sample, high for hissy sounds
+  zeroCrossings: number;
+  // Share of spectral energy above 3kHz
+  highShare: number;
+  // Spectral centroid of the voiced range (up to 3kHz) in Hz
+  voicedCentroid: number;
+}
+
+/**
+ * Features of one frame of audio, also used by the live microphone analyser
+ */
+export function analyseFrame(frame: Float32Array, sampleRate: number): FrameFeatures {
+  let sumSquares = 0;
+  let crossings = 0;
+  const windowed = new Float32Array(FFT_SIZE);
+
+  for (let i = 0; i < frame.length; i++) {
+    sumSquares += frame[i] * frame[i];
+    if (i > 0 && (frame[i] >= 0) !== (frame[i - 1] >= 0)) crossings++;
+    if (i < FFT_SIZE) {
+      // Hann window
+      windowed[i] = frame[i] * 0.5 * (1 - Math.cos((2 * Math.PI * i) / (FFT_SIZE - 1)));
+    }
+  }
+
+  const magnitudes = fftMagnitudes(windowed);
+  const binHz = sampleRate / FFT_SIZE;
+  let voiced = 0;
+  let voicedWeighted = 0;
+  let high = 0;
+  magnitudes.forEach((magnitude, bin) => {
+    const hz = bin * binHz;
+    const energy = magnitude * magnitude;
+    if (hz < 80) return;
+    if (hz < 3000) {
+      voiced += energy;
+      voicedWeighted += energy * hz;
+    } else if (hz < 10000) {
+      high += energy;
+    }
+  });
+
+  return {
+    rms: Math.sqrt(sumSquares / Math.max(1, frame.length)),
+    zeroCrossings: crossings / Math.max(1, frame.length),
+    highShare: high / Math.max(1e-12, voiced + high),
+    voicedCentroid: voiced > 0 ? voicedWeighted / voiced : 0
+  };
+}
+
+/**
+ * Pick a mouth shape for a frame. Loudness is relative to the loud parts of the audio (0-1).
+ */
+export function classifyFrame(
+  features: FrameFeatures,
+  loudness: number,
+  silenceThreshold: number,
+  previous: VisemeName
+): VisemeName {
+  if (loudness < silenceThreshold) return 'sil';
+
+  // Hiss and friction noise
+  if (features.highShare > 0.5 || features.zeroCrossings > 0.25) {
+    return features.highShare > 0.75 ? 'SS' : features.zeroCrossings > 0.35 ? 'FF' : 'CH';
+  }
+
+  // A sudden start after silence sounds like a plosive
+  if (previous === 'sil' && loudness < silenceThreshold * 3) return 'PP';
+
+  // Quiet voiced sounds are mostly nasals and closed consonants
+  if (loudness < silenceThreshold * 2.5) return features.voicedCentroid > 1200 ? 'DD' : 'nn';
+
+  // Vowels, roughly by where the voiced energy sits
+  const centroid = features.voicedCentroid;
+  if (centroid < 450) return 'U';
+  if (centroid < 700) return 'O';
+  if (centroid < 1100) return 'aa';
+  if (centroid < 1600) return 'E';
+  return 'I';
+}
+
+/**
+ * Turn mono samples into a viseme timeline
+ */
+export function analyseAudioSamples(
+  samples: Float32Array,
+  sampleRate: number,
+  options: AudioAnalysisOptions = {}
+): VisemeCue[] {
+  const { frameRate, silenceThreshold, minCueDuration } = { ...DEFAULT_OPTIONS, ...options };
+  const hop = Math.max(1, Math.round(sampleRate / frameRate));
+  const frameCount = Math.ceil(samples.length / hop);
+  const features: FrameFeatures[] = [];
+
+  for (let i = 0; i < frameCount; i++) {
+    // Window centred on the frame so shapes don't open before the sound starts
+    const start = Math.max(0, Math.round(i * hop + hop / 2 - FFT_SIZE / 2));
+    features.push(analyseFrame(samples.subarray(start, Math.min(samples.length, start + FFT_SIZE)), sampleRate));
+  }
+
+  // Loudness relative to the 95th percentile, so quiet recordings still move the mouth
+  const sorted = features.map(frame => frame.rms).sort((a, b) => a - b);
+  const reference = Math.max(1e-4, sorted[Math.floor(sorted.length * 0.95)] ?? 0);
+
+  const cues: VisemeCue[] = [];
+  let previous: VisemeName = 'sil';
+  features.forEach((frame, i) => {
+    const loudness = Math.min(1, frame.rms / reference);
+    const viseme = classifyFrame(frame, loudness, silenceThreshold, previous);
+    const start = (i * hop) / sampleRate;
+    cues.push({
+      start,
+      end: Math.min(samples.length / sampleRate, start + hop / sampleRate),
+      viseme,
+      weight: viseme === 'sil' ? 0 : Math.min(1, 0.35 + loudness * 0.75)
+    });
+    previous = viseme;
+  });
+
+  return simplifyTimeline(cues, minCueDuration);
+}
+
+/**
+ * Mix all channels down to one
+ */
+export function toMono(buffer: AudioBuffer): Float32Array {
+  const mono = new Float32Array(buffer.length);
+  for (let channel = 0; channel < buffer.numberOfChannels; channel++) {
+    const data = buffer.getChannelData(channel);
+    for (let i = 0; i < data.length; i++) {
+      mono[i] += data[i] / buffer.numberOfChannels;
+    }
+  }
+  return mono;
+}
+
+/**
+ * Decode a WAV/MP3/OGG file the browser can play
+ */
+export async function decodeAudioFile(file: Blob): Promise<AudioBuffer> {
+  const data = await file.arrayBuffer();
+  return getAudioContext().decodeAudioData(data);
+}
+
+/**
+ * Silent audio of the given length, to play cue files that have no recording attached
+ */
+export function createSilentBuffer(duration: number): AudioBuffer {
+  const context = getAudioContext();
+  return context.createBuffer(1, Math.max(1, Math.ceil(duration * context.sampleRate)), context.sampleRate);
+}
+
+export function analyseAudioBuffer(buffer: AudioBuffer, options?: AudioAnalysisOptions): VisemeCue[] {
+  return analyseAudioSamples(toMono(buffer), buffer.sampleRate, options);
+}
+
+/**
+ * Play audio through a character: the talk clip runs for the length of the audio
+ * while the timeline drives the mouth. Pass a timeline to skip the analysis
+ * (e.g. cues imported from another tool).
+ */
+export function playAudioLipSync(
+  characterId: string,
+  buffer: AudioBuffer,
+  options: AudioLipSyncOptions = {}
+): AudioLipSyncPlayback {
+  const controller = getAvatarController(characterId);
+  const timeline = options.timeline ?? analyseAudioBuffer(buffer);
+  const context = getAudioContext();
+  const offset = Math.max(0, Math.min(buffer.duration, options.offset ?? 0));
+  const talkClip = options.talkClip ?? true;
+
+  const source = context.createBufferSource();
+  source.buffer = buffer;
+  source.connect(context.destination);
+
+  const sequencer = getAnimationSequencer(characterId);
+  if (talkClip) {
+    sequencer.clear();
+    sequencer.enqueue({ animation: options.animation || 'talk', duration: buffer.duration - offset }, { animation: 'idle' });
+  }
+
+  const startTime = context.currentTime + 0.05;
+  const getTime = () => offset + context.currentTime - startTime;
+  const timelineLipSync = createTimelineLipSync(timeline, getTime);
+  let stopped = false;
+  // Ending the source hands the mouth back on the avatar's next frame
+  controller?.setLipSync({ sample: () => (stopped ? null : timelineLipSync.sample()) });
+  source.start(startTime, offset);
+
+  const finish = () => {
+    if (stopped) return;
+    stopped = true;
+    options.onEnd?.();
+  };
+  source.onended = finish;
+
+  return {
+    duration: buffer.duration,
+    timeline,
+    getTime,
+    stop: () => {
+      source.onended = null;
+      try {
+        source.stop();
+      } catch (error) {
+        // Already stopped
+      }
+      // The talk clip would keep going (with its own babble) once the mouth is handed back
+      if (talkClip) {
+        sequencer.clear();
+        sequencer.enqueue({ animation: 'idle' });
+      }
+      finish();
+    }
+  };
+}
@@ -0,0 +1,32 @@
+// Lookup of the avatar controllers currently mounted, keyed by character id.
+// Lets services (sequencer, scripts...) drive an avatar without going through React props.
+
+import { AvatarController } from '../types';
+
+const controllers = new Map<string, AvatarController>();
+const listeners = new Set<(characterId: string) => void>();
+
+export function registerAvatarController(controller: AvatarController): () => void {
+  controllers.set(controller.characterId, controller);
+  listeners.forEach(listener => listener(controller.characterId));
+
+  return () => {
+    if (controllers.get(controller.characterId) === controller) {
+      controllers.delete(controller.characterId);
+    }
+  };
+}
+
+export function getAvatarController(characterId: string): AvatarController | undefined {
+  return controllers.get(characterId);
+}
+
+/**
+ * Call the listener whenever an avatar controller is registered
+ */
+export function onAvatarControllerRegistered(listener: (characterId: string) => void): () => void {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
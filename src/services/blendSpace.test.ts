@@ -0,0 +1,33 @@
+import { getBlendPlaybackRate, getBlendWeights, LOCOMOTION_BLEND_SPACE } from './blendSpace';
+
+const weightsFor = (right: number, forward: number) => getBlendWeights(LOCOMOTION_BLEND_SPACE, [right, forward]);
+
+test('blends between the clips either side of the requested speed', () => {
+  expect(weightsFor(0, 0)).toEqual({ idle: 1 });
+  expect(weightsFor(0, 1.4)).toEqual({ walk: 1 });
+
+  const between = weightsFor(0, 2.2);
+  expect(between.walk).toBeCloseTo(0.5);
+  expect(between.jog).toBeCloseTo(0.5);
+  // Faster than running still runs
+  expect(weightsFor(0, 8)).toEqual({ run: 1 });
+});
+
+test('blends between directions, including round the back', () => {
+  // Walking pace, half way between forwards and right
+  const diagonal = weightsFor(1.4 * Math.SQRT1_2, 1.4 * Math.SQRT1_2);
+  expect(diagonal.walk).toBeCloseTo(0.5);
+  expect(diagonal.strafe_right).toBeCloseTo(0.5 * (1.4 / 1.5));
+  expect(Object.values(diagonal).reduce((sum, weight) => sum + weight, 0)).toBeCloseTo(1);
+
+  const backLeft = weightsFor(-0.2, -1.2);
+  expect(backLeft.strafe_left).toBeGreaterThan(0);
+  expect(backLeft.walk_backward).toBeGreaterThan(backLeft.strafe_left);
+});
+
+test('speeds clips up a little to cover speeds between blends', () => {
+  const velocity: [number, number] = [0, 2];
+  const weights = weightsFor(...velocity);
+  expect(getBlendPlaybackRate(LOCOMOTION_BLEND_SPACE, weights, velocity)).toBeCloseTo(1);
+  expect(getBlendPlaybackRate(LOCOMOTION_BLEND_SPACE, { strafe_right: 1 }, [3, 0])).toBe(1.5);
+});
@@ -0,0 +1,155 @@
+// 2D blend space for locomotion: each directional clip sits at the velocity it moves at, and
+// a requested velocity is turned into a weight per clip. Weights blend between the two clip
+// directions either side of the requested heading, and along each direction between the clips
+// either side of the requested speed, with the standing clip at the centre.
+
+import { LocomotionVelocity } from '../types';
+
+export interface BlendSpacePoint {
+  clip: string;
+  // [right, forward] in metres per second, roughly what the clip's root motion covers
+  velocity: LocomotionVelocity;
+}
+
+export type BlendWeights = { [clip: string]: number };
+
+export const LOCOMOTION_BLEND_SPACE: BlendSpacePoint[] = [
+  { clip: 'idle', velocity: [0, 0] },
+  { clip: 'walk', velocity: [0, 1.4] },
+  { clip: 'jog', velocity: [0, 3] },
+  { clip: 'run', velocity: [0, 5] },
+  { clip: 'walk_backward', velocity: [0, -1.2] },
+  { clip: 'jog_backward', velocity: [0, -2.5] },
+  { clip: 'strafe_left', velocity: [-1.5, 0] },
+  { clip: 'strafe_right', velocity: [1.5, 0] }
+];
+
+// Slower than this counts as standing still
+const STILL_SPEED = 0.05;
+// How far clips may be sped up or slowed down to match the requested speed
+const MIN_PLAYBACK_RATE = 0.5;
+const MAX_PLAYBACK_RATE = 1.5;
+
+interface BlendDirection {
+  angle: number;
+  // Sorted slowest first
+  points: { clip: string; speed: number }[];
+}
+
+// Heading of a velocity, 0 straight ahead and positive to the right
+function getHeading([right, forward]: LocomotionVelocity): number {
+  return Math.atan2(right, forward);
+}
+
+// Moving points grouped by heading, sorted by heading
+function getDirections(space: BlendSpacePoint[]): BlendDirection[] {
+  const directions: BlendDirection[] = [];
+  space.forEach(point => {
+    const speed = Math.hypot(...point.velocity);
+    if (speed < STILL_SPEED) return;
+    const angle = getHeading(point.velocity);
+    let direction = directions.find(d => Math.abs(d.angle - angle) < 1e-3);
+    if (!direction) {
+      direction = { angle, points: [] };
+      directions.push(direction);
+    }
+    direction.points.push({ clip: point.clip, speed });
+  });
+  directions.forEach(direction => direction.points.sort((a, b) => a.speed - b.speed));
+  return directions.sort((a, b) => a.angle - b.angle);
+}
+
+// Weights along one direction, from the standing clip (if any) out to its fastest clip
+function addSpeedWeights(
+  weights: BlendWeights,
+  direction: BlendDirection,
+  standing: string | undefined,
+  speed: number,
+  share: number
+): void {
+  const chain = standing ? [{ clip: standing, speed: 0 }, ...direction.points] : direction.points;
+  const add = (clip: string, weight: number) => {
+    if (weight > 0) weights[clip] = (weights[clip] ?? 0) + weight * share;
+  };
+
+  if (speed <= chain[0].speed) {
+    add(chain[0].clip, 1);
+    return;
+  }
+  for (let i = 1; i < chain.length; i++) {
+    if (speed <= chain[i].speed) {
+      const t = (speed - chain[i - 1].speed) / (chain[i].speed - chain[i - 1].speed);
+      add(chain[i - 1].clip, 1 - t);
+      add(chain[i].clip, t);
+      return;
+    }
+  }
+  // Faster than the fastest clip in this direction
+  add(chain[chain.length - 1].clip, 1);
+}
+
+/**
+ * Weight of each clip for a velocity. Weights add up to 1; clips that don't take part are left out.
+ */
+export function getBlendWeights(space: BlendSpacePoint[], velocity: LocomotionVelocity): BlendWeights {
+  const standing = space.find(point => Math.hypot(...point.velocity) < STILL_SPEED)?.clip;
+  const directions = getDirections(space);
+  const speed = Math.hypot(...velocity);
+
+  if (speed < STILL_SPEED || directions.length === 0) {
+    const clip = standing ?? space[0]?.clip;
+    return clip ? { [clip]: 1 } : {};
+  }
+
+  // The two directions either side of the heading, wrapping round behind the character
+  const heading = getHeading(velocity);
+  let from = directions[directions.length - 1];
+  let to = directions[0];
+  for (let i = 0; i < directions.length - 1; i++) {
+    if (heading >= directions[i].angle && heading <= directions[i + 1].angle) {
+      from = directions[i];
+      to = directions[i + 1];
+      break;
+    }
+  }
+
+  let span = to.angle - from.angle;
+  let offset = heading - from.angle;
+  if (span <= 0) span += Math.PI * 2;
+  if (offset < 0) offset += Math.PI * 2;
+  const t = directions.length === 1 ? 0 : Math.min(1, offset / span);
+
+  const weights: BlendWeights = {};
+  if (t < 1) addSpeedWeights(weights, from, standing, speed, 1 - t);
+  if (t > 0) addSpeedWeights(weights, to, standing, speed, t);
+  return weights;
+}
+
+/**
+ * How fast to play the blended clips so the feet cover the requested speed - clips are only
+ * sped up or slowed down a little, beyond that the blend itself has to change
+ */
+export function getBlendPlaybackRate(space: BlendSpacePoint[], weights: BlendWeights, velocity: LocomotionVelocity): number {
+  let right = 0;
+  let forward = 0;
+  space.forEach(point => {
+    const weight = weights[point.clip] ?? 0;
+    right += point.velocity[0] * weight;
+    forward += point.velocity[1] * weight;
+  });
+  const blendedSpeed = Math.hypot(right, forward);
+  if (blendedSpeed < STILL_SPEED) return 1;
+  return Math.max(MIN_PLAYBACK_RATE, Math.min(MAX_PLAYBACK_RATE, Math.hypot(...velocity) / blendedSpeed));
+}
+
+/**
+ * Slowest and fastest clip heading straight along an axis, e.g. [0, 1] for forwards.
+ * [0, 0] when no clip moves that way.
+ */
+export function getSpeedRange(space: BlendSpacePoint[], axis: LocomotionVelocity): [number, number] {
+  const speeds = space
+    .filter(point => Math.abs(point.velocity[0] * axis[1] - point.velocity[1] * axis[0]) < STILL_SPEED)
+    .map(point => point.velocity[0] * axis[0] + point.velocity[1] * axis[1])
+    .filter(speed => speed >= STILL_SPEED);
+  return speeds.length > 0 ? [Math.min(...speeds), Math.max(...speeds)] : [0, 0];
+}
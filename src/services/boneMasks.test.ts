@@ -0,0 +1,31 @@
+import { filterTracksByMask, getBodyPart, getTrackBone, isBoneInMask } from './boneMasks';
+
+test('sorts Ready Player Me bones into body parts', () => {
+  expect(getBodyPart('Hips')).toBe('hips');
+  expect(getBodyPart('Spine2')).toBe('spine');
+  expect(getBodyPart('LeftEye')).toBe('head');
+  expect(getBodyPart('LeftHandIndex2')).toBe('leftArm');
+  expect(getBodyPart('RightShoulder')).toBe('rightArm');
+  expect(getBodyPart('LeftUpLeg')).toBe('legs');
+  expect(getBodyPart('RightToe_End')).toBe('legs');
+  expect(getBodyPart('Armature')).toBeNull();
+});
+
+test('masks overlap the way the names say', () => {
+  expect(isBoneInMask('Head', 'upperBody')).toBe(true);
+  expect(isBoneInMask('Head', 'head')).toBe(true);
+  expect(isBoneInMask('LeftForeArm', 'rightArm')).toBe(false);
+  expect(isBoneInMask('Hips', 'upperBody')).toBe(false);
+  expect(isBoneInMask('Hips', 'lowerBody')).toBe(true);
+});
+
+test('keeps only the tracks of masked bones', () => {
+  const tracks = ['Hips.position', 'Hips.quaternion', 'Spine.quaternion', 'LeftArm.quaternion', 'LeftLeg.quaternion']
+    .map(name => ({ name }));
+
+  expect(getTrackBone('LeftArm.quaternion')).toBe('LeftArm');
+  expect(filterTracksByMask(tracks, 'upperBody').map(track => track.name))
+    .toEqual(['Spine.quaternion', 'LeftArm.quaternion']);
+  expect(filterTracksByMask(tracks, 'lowerBody').map(track => track.name))
+    .toEqual(['Hips.position', 'Hips.quaternion', 'LeftLeg.quaternion']);
+});
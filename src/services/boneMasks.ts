@@ -0,0 +1,48 @@
+// Named bone masks for layering clips, e.g. a wave on the upper body while the legs keep
+// walking. A mask is a set of body parts; clip tracks are kept or dropped by the bone
+// they animate (Ready Player Me / Mixamo bone names).
+
+import { BoneMaskName } from '../types';
+
+export type BodyPart = 'hips' | 'spine' | 'head' | 'leftArm' | 'rightArm' | 'legs';
+
+export const BONE_MASKS: Record<BoneMaskName, { label: string; parts: BodyPart[] }> = {
+  upperBody: { label: 'Upper body', parts: ['spine', 'head', 'leftArm', 'rightArm'] },
+  lowerBody: { label: 'Lower body', parts: ['hips', 'legs'] },
+  leftArm: { label: 'Left arm', parts: ['leftArm'] },
+  rightArm: { label: 'Right arm', parts: ['rightArm'] },
+  head: { label: 'Head', parts: ['head'] }
+};
+
+export const BONE_MASK_NAMES = Object.keys(BONE_MASKS) as BoneMaskName[];
+
+/**
+ * Body part a bone belongs to, or null for bones outside the skeleton (e.g. the armature)
+ */
+export function getBodyPart(bone: string): BodyPart | null {
+  if (bone === 'Hips') return 'hips';
+  if (/^Spine/.test(bone)) return 'spine';
+  if (/^(Neck|Head|LeftEye|RightEye)/.test(bone)) return 'head';
+  if (/^Left(Shoulder|Arm|ForeArm|Hand)/.test(bone)) return 'leftArm';
+  if (/^Right(Shoulder|Arm|ForeArm|Hand)/.test(bone)) return 'rightArm';
+  if (/^(Left|Right)(UpLeg|Leg|Foot|Toe)/.test(bone)) return 'legs';
+  return null;
+}
+
+// 'LeftForeArm.quaternion' -> 'LeftForeArm'
+export function getTrackBone(trackName: string): string {
+  const dot = trackName.lastIndexOf('.');
+  return dot >= 0 ? trackName.slice(0, dot) : trackName;
+}
+
+export function isBoneInMask(bone: string, mask: BoneMaskName): boolean {
+  const part = getBodyPart(bone);
+  return part !== null && BONE_MASKS[mask].parts.includes(part);
+}
+
+/**
+ * Keep only the tracks that animate bones in the mask
+ */
+export function filterTracksByMask<T extends { name: string }>(tracks: T[], mask: BoneMaskName): T[] {
+  return tracks.filter(track => isBoneInMask(getTrackBone(track.name), mask));
+}
@@ -0,0 +1,23 @@
+// Camera moves requested by scripts, picked up by the camera rig inside the canvas
+
+import { Vector3Tuple } from '../types';
+
+export interface CameraCue {
+  position: Vector3Tuple;
+  target?: Vector3Tuple;
+  // Seconds to move the camera over, 0 cuts straight to the new shot
+  transition?: number;
+}
+
+const listeners = new Set<(cue: CameraCue) => void>();
+
+export function sendCameraCue(cue: CameraCue): void {
+  listeners.forEach(listener => listener(cue));
+}
+
+export function onCameraCue(listener: (cue: CameraCue) => void): () => void {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
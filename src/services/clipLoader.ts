@@ -0,0 +1,39 @@
+// Loads animation clips from the registry's GLB files, or from IndexedDB for imported clips.
+// Clips are cached per animation id, so every avatar shares one download and
+// concurrent requests for the same clip wait on the same promise.
+
+import * as THREE from 'three';
+import { GLTFLoader } from 'three/examples/jsm/loaders/GLTFLoader';
+import { getAnimation, getAnimationUrl } from './animationRegistry';
+import { loadStoredClip } from './animationStore';
+
+const clipCache = new Map<string, Promise<THREE.AnimationClip>>();
+
+/**
+ * Load the first animation clip of an animation's GLB file.
+ * The returned clip is shared - clone it before editing its tracks.
+ */
+export function loadAnimationClip(id: string): Promise<THREE.AnimationClip> {
+  const key = getAnimation(id)?.id || id;
+  const cached = clipCache.get(key);
+  if (cached) return cached;
+
+  const request = getAnimation(key)?.custom ? loadStoredClip(key) : new GLTFLoader().loadAsync(getAnimationUrl(key)).then(gltf => {
+    if (!gltf.animations || gltf.animations.length === 0) {
+      throw new Error(`No animation clip found in ${getAnimationUrl(key)}`);
+    }
+    return gltf.animations[0];
+  });
+
+  // Forget failed requests so they can be retried
+  request.catch(() => clipCache.delete(key));
+  clipCache.set(key, request);
+  return request;
+}
+
+/**
+ * Drop a cached clip, e.g. after an imported animation is replaced or deleted
+ */
+export function forgetAnimationClip(id: string): void {
+  clipCache.delete(id);
+}
@@ -0,0 +1,170 @@
+// Import of the user's own animation files (GLB/glTF, FBX, BVH).
+// Files are parsed in the browser, retargeted onto the RPM skeleton of one of the user's
+// avatars, stored in IndexedDB and registered so they play like the shipped clips.
+
+import * as THREE from 'three';
+import { BVHLoader } from 'three/examples/jsm/loaders/BVHLoader';
+import { FBXLoader } from 'three/examples/jsm/loaders/FBXLoader';
+import { GLTFLoader } from 'three/examples/jsm/loaders/GLTFLoader';
+import { registerAnimation, unregisterAnimation } from './animationRegistry';
+import { deleteStoredAnimation, getStoredAnimations, saveStoredAnimation, StoredAnimation } from './animationStore';
+import { forgetAnimationClip } from './clipLoader';
+import { isRpmClip, retargetClip } from './skeletonRetarget';
+import { AnimationCategory, AnimationDefinition, AnimationLoopMode, AnimationManifestEntry } from '../types';
+
+export type AnimationFileFormat = 'gltf' | 'fbx' | 'bvh';
+
+export interface AnimationImportSettings {
+  label: string;
+  category: AnimationCategory;
+  loop: AnimationLoopMode;
+}
+
+// Same threshold as src/scripts/buildAnimationManifest.js
+const ROOT_MOTION_THRESHOLD = 0.25;
+const DEFAULT_FRAME_RATE = 30;
+
+export function getAnimationFileFormat(fileName: string): AnimationFileFormat | null {
+  const extension = fileName.split('.').pop()?.toLowerCase();
+  if (extension === 'glb' || extension === 'gltf') return 'gltf';
+  if (extension === 'fbx') return 'fbx';
+  if (extension === 'bvh') return 'bvh';
+  return null;
+}
+
+// 'My Mocap_take 2.fbx' -> 'My Mocap take 2'
+export function getLabelFromFileName(fileName: string): string {
+  return fileName.replace(/\.[^.]+$/, '').replace(/[_-]+/g, ' ').trim();
+}
+
+// Registry id for an imported clip, kept apart from the shipped ids. Never reused, so an avatar
+// that still holds the action of a deleted clip can't play it in place of a new import.
+function createAnimationId(label: string): string {
+  const slug = label.toLowerCase().replace(/[^a-z0-9]+/g, '_').replace(/^_+|_+$/g, '') || 'clip';
+  return `custom_${slug}_${crypto.randomUUID().slice(0, 8)}`;
+}
+
+// The file's skeleton and its first clip
+async function parseAnimationFile(file: File): Promise<{ root: THREE.Object3D; clip: THREE.AnimationClip }> {
+  const format = getAnimationFileFormat(file.name);
+  if (format === 'bvh') {
+    const { skeleton, clip } = new BVHLoader().parse(await file.text());
+    const root = new THREE.Group();
+    root.add(skeleton.bones[0]);
+    return { root, clip };
+  }
+
+  let root: THREE.Object3D;
+  let clips: THREE.AnimationClip[];
+  if (format === 'fbx') {
+    root = new FBXLoader().parse(await file.arrayBuffer(), '');
+    clips = root.animations;
+  } else if (format === 'gltf') {
+    const gltf = await new GLTFLoader().parseAsync(await file.arrayBuffer(), '');
+    root = gltf.scene;
+    clips = gltf.animations;
+  } else {
+    throw new Error('Only GLB, glTF, FBX and BVH files can be imported');
+  }
+  if (clips.length === 0) throw new Error('The file has no animation');
+  return { root, clip: clips[0] };
+}
+
+// Avatar skeletons to retarget onto, by avatar url
+const skeletonCache = new Map<string, Promise<THREE.Object3D>>();
+
+function loadAvatarSkeleton(avatarUrl: string): Promise<THREE.Object3D> {
+  let request = skeletonCache.get(avatarUrl);
+  if (!request) {
+    request = new GLTFLoader().loadAsync(avatarUrl).then(gltf => gltf.scene);
+    request.catch(() => skeletonCache.delete(avatarUrl));
+    skeletonCache.set(avatarUrl, request);
+  }
+  return request;
+}
+
+// Manifest-style metadata for a clip, so transport, root motion and the timeline can use it
+function describeClip(id: string, fileName: string, clip: THREE.AnimationClip, category: AnimationCategory): AnimationManifestEntry {
+  const hips = clip.tracks.find(track => track.name === 'Hips.position');
+  const values = hips?.values;
+  const last = values ? values.length - 3 : 0;
+  const rootDisplacement: [number, number] = values && values.length >= 6
+    ? [Number((values[last] - values[0]).toFixed(4)), Number((values[last + 2] - values[2]).toFixed(4))]
+    : [0, 0];
+  const keys = Math.max(...clip.tracks.map(track => track.times.length));
+
+  return {
+    id,
+    file: fileName,
+    clipName: clip.name,
+    duration: clip.duration,
+    frameRate: clip.duration > 0 && keys > 1 ? Math.round((keys - 1) / clip.duration) : DEFAULT_FRAME_RATE,
+    trackCount: clip.tracks.length,
+    bones: Array.from(new Set(clip.tracks.map(track => track.name.split('.')[0]))),
+    rootMotion: Math.hypot(...rootDisplacement) > ROOT_MOTION_THRESHOLD,
+    rootDisplacement,
+    suggestedCategory: category
+  };
+}
+
+function registerStoredAnimation(stored: StoredAnimation): AnimationDefinition {
+  const definition: AnimationDefinition = {
+    id: stored.id,
+    label: `📥 ${stored.label}`,
+    category: stored.category,
+    file: stored.fileName,
+    loop: stored.loop,
+    lipSync: false,
+    preload: false,
+    blendTime: 0.5,
+    custom: true
+  };
+  forgetAnimationClip(stored.id);
+  registerAnimation(definition, stored.info);
+  return definition;
+}
+
+/**
+ * Parse, retarget, store and register an animation file.
+ * GLB clips already made for the RPM skeleton (e.g. from the RPM animation library) are kept as they are.
+ */
+export async function importAnimationFile(
+  file: File,
+  settings: AnimationImportSettings,
+  avatarUrl: string
+): Promise<AnimationDefinition> {
+  const source = await parseAnimationFile(file);
+  const id = createAnimationId(settings.label);
+  const clip = getAnimationFileFormat(file.name) === 'gltf' && isRpmClip(source.clip)
+    ? new THREE.AnimationClip(settings.label, source.clip.duration, source.clip.tracks.filter(track => !/\.scale$/.test(track.name)))
+    : retargetClip(source, await loadAvatarSkeleton(avatarUrl), { name: settings.label });
+
+  const stored: StoredAnimation = {
+    id,
+    ...settings,
+    fileName: file.name,
+    info: describeClip(id, file.name, clip, settings.category),
+    clip: THREE.AnimationClip.toJSON(clip)
+  };
+  await saveStoredAnimation(stored);
+  console.log(`Imported ${file.name} as ${id} (${clip.duration.toFixed(2)}s, ${clip.tracks.length} tracks)`);
+  return registerStoredAnimation(stored);
+}
+
+/**
+ * Register every clip imported in earlier sessions
+ */
+export async function loadCustomAnimations(): Promise<void> {
+  try {
+    const stored = await getStoredAnimations();
+    stored.forEach(registerStoredAnimation);
+  } catch (error) {
+    console.error('Failed to load imported animations:', error);
+  }
+}
+
+export async function deleteCustomAnimation(id: string): Promise<void> {
+  await deleteStoredAnimation(id);
+  unregisterAnimation(id);
+  forgetAnimationClip(id);
+}
@@ -0,0 +1,37 @@
+import { blinkWeight, FaceLife } from './faceLife';
+
+// Step through a few seconds and return the times at which the eyes were closed
+function closedTimes(faceLife: FaceLife, seconds: number, suppressBlink = false): number[] {
+  const times: number[] = [];
+  for (let frame = 1; frame <= seconds * 50; frame++) {
+    if (faceLife.update(0.02, suppressBlink).blink >= 1) times.push(frame * 0.02);
+  }
+  return times;
+}
+
+test('blinks close fast and open more slowly', () => {
+  expect(blinkWeight(0)).toBe(0);
+  expect(blinkWeight(0.035)).toBeCloseTo(0.5);
+  expect(blinkWeight(0.08)).toBe(1);
+  expect(blinkWeight(0.2)).toBeGreaterThan(0);
+  expect(blinkWeight(0.3)).toBe(0);
+});
+
+test('blinks at the configured rate unless an expression holds the eyes open', () => {
+  const settings = { blink: true, blinksPerMinute: 15, saccades: false };
+  // A constant random puts every blink at the mean interval (4s at 15 per minute)
+  const times = closedTimes(new FaceLife(settings, () => 0.5), 9);
+
+  expect(times.length).toBeGreaterThan(0);
+  expect(times[0]).toBeGreaterThan(4);
+  expect(times[0]).toBeLessThan(4.2);
+  expect(times.some(time => time > 8 && time < 8.5)).toBe(true);
+  expect(closedTimes(new FaceLife(settings, () => 0.5), 9, true)).toEqual([]);
+});
+
+test('stays still when disabled', () => {
+  const faceLife = new FaceLife({ blink: false, blinksPerMinute: 30, saccades: false }, Math.random);
+  for (let frame = 0; frame < 500; frame++) {
+    expect(faceLife.update(0.02)).toEqual({ blink: 0, gaze: [0, 0] });
+  }
+});
@@ -0,0 +1,119 @@
+// Procedural "face life": blinks at randomised intervals and small eye saccades, so
+// avatars don't stare unblinking through every clip. Runs per avatar in FinalAnimator;
+// turn it off per character for deterministic recordings.
+
+import { FaceLifeSettings } from '../types';
+
+export const DEFAULT_FACE_LIFE: FaceLifeSettings = { blink: true, blinksPerMinute: 15, saccades: true };
+
+export interface FaceLifeFrame {
+  // 0 = eyes open, 1 = closed
+  blink: number;
+  // Eye rotation in radians: [yaw (left/right), pitch (up/down)]
+  gaze: [number, number];
+}
+
+// Blink timing in seconds: lids close fast, hold briefly and open more slowly
+const BLINK_CLOSE = 0.07;
+const BLINK_HOLD = 0.03;
+const BLINK_OPEN = 0.15;
+const BLINK_DURATION = BLINK_CLOSE + BLINK_HOLD + BLINK_OPEN;
+const DOUBLE_BLINK_CHANCE = 0.15;
+// How long a blink waits when an expression holds the eyes open
+const SUPPRESSED_BLINK_RETRY = 0.3;
+
+// Saccades: quick jumps to a nearby point, every now and then back to the centre
+const SACCADE_MAX_YAW = 0.12;
+const SACCADE_MAX_PITCH = 0.06;
+const SACCADE_SPEED = 40;
+const SACCADE_RECENTRE_CHANCE = 0.3;
+
+/**
+ * Lid closure at a point in a blink
+ */
+export function blinkWeight(time: number): number {
+  if (time <= 0 || time >= BLINK_DURATION) return 0;
+  if (time < BLINK_CLOSE) return time / BLINK_CLOSE;
+  if (time < BLINK_CLOSE + BLINK_HOLD) return 1;
+  const opening = (time - BLINK_CLOSE - BLINK_HOLD) / BLINK_OPEN;
+  return 1 - opening * opening;
+}
+
+export class FaceLife {
+  private time = 0;
+  private nextBlinkAt: number;
+  private blinkStartedAt: number | null = null;
+  private nextSaccadeAt: number;
+  private gaze: [number, number] = [0, 0];
+  private gazeTarget: [number, number] = [0, 0];
+
+  // Pass a seeded random to get the same blinks every run
+  constructor(private settings: FaceLifeSettings = DEFAULT_FACE_LIFE, private random: () => number = Math.random) {
+    this.nextBlinkAt = this.blinkInterval();
+    this.nextSaccadeAt = this.saccadeInterval();
+  }
+
+  setSettings(settings: FaceLifeSettings): void {
+    this.settings = settings;
+  }
+
+  /**
+   * Advance by delta seconds. suppressBlink holds off new blinks (e.g. wide-eyed expressions).
+   */
+  update(delta: number, suppressBlink = false): FaceLifeFrame {
+    this.time += delta;
+    return { blink: this.updateBlink(suppressBlink), gaze: this.updateGaze(delta) };
+  }
+
+  private blinkInterval(): number {
+    const mean = 60 / Math.max(1, this.settings.blinksPerMinute);
+    return mean * (0.4 + this.random() * 1.2);
+  }
+
+  private saccadeInterval(): number {
+    return 0.4 + this.random() * 2;
+  }
+
+  private updateBlink(suppressBlink: boolean): number {
+    if (!this.settings.blink) {
+      this.blinkStartedAt = null;
+      return 0;
+    }
+
+    if (this.blinkStartedAt === null && this.time >= this.nextBlinkAt) {
+      if (suppressBlink) {
+        this.nextBlinkAt = this.time + SUPPRESSED_BLINK_RETRY;
+      } else {
+        this.blinkStartedAt = this.time;
+      }
+    }
+    if (this.blinkStartedAt === null) return 0;
+
+    const elapsed = this.time - this.blinkStartedAt;
+    if (elapsed >= BLINK_DURATION) {
+      this.blinkStartedAt = null;
+      // Now and then a quick second blink
+      this.nextBlinkAt = this.time + (this.random() < DOUBLE_BLINK_CHANCE ? 0.1 : this.blinkInterval());
+      return 0;
+    }
+    return blinkWeight(elapsed);
+  }
+
+  private updateGaze(delta: number): [number, number] {
+    if (!this.settings.saccades) {
+      this.gazeTarget = [0, 0];
+    } else if (this.time >= this.nextSaccadeAt) {
+      this.gazeTarget = this.random() < SACCADE_RECENTRE_CHANCE
+        ? [0, 0]
+        : [(this.random() * 2 - 1) * SACCADE_MAX_YAW, (this.random() * 2 - 1) * SACCADE_MAX_PITCH];
+      this.nextSaccadeAt = this.time + this.saccadeInterval();
+    }
+
+    const step = 1 - Math.exp(-SACCADE_SPEED * delta);
+    this.gaze = [
+      this.gaze[0] + (this.gazeTarget[0] - this.gaze[0]) * step,
+      this.gaze[1] + (this.gazeTarget[1] - this.gaze[1]) * step
+    ];
+    return this.gaze;
+  }
+}
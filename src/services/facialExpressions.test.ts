@@ -0,0 +1,29 @@
+import { getExpression, getExpressionWeights, resolveMorphTargets } from './facialExpressions';
+
+test('scales an expression by its intensity', () => {
+  const happy = getExpression('happy')!;
+  const weights = getExpressionWeights(happy, 0.5);
+
+  expect(weights.mouthSmile).toBeCloseTo(0.4);
+  expect(weights.cheekSquint).toBeCloseTo(0.25);
+  expect(getExpression('smug')).toBeUndefined();
+});
+
+test('mouth shapes make way for visemes while speaking, the rest of the face does not', () => {
+  const surprised = getExpression('surprised')!;
+  const speaking = getExpressionWeights(surprised, 1, 1);
+
+  expect(speaking.jawOpen).toBe(0);
+  expect(speaking.mouthFunnel).toBe(0);
+  expect(speaking.browInnerUp).toBe(0.9);
+  expect(speaking.eyeWide).toBe(0.8);
+  expect(getExpressionWeights(getExpression('happy')!, 1, 1).mouthSmile).toBeCloseTo(0.48);
+});
+
+test('symmetric shape names drive both sides', () => {
+  const arkit = { eyeSquintLeft: 3, eyeSquintRight: 4, browDownLeft: 5 };
+  expect(resolveMorphTargets(arkit, 'eyeSquint')).toEqual([3, 4]);
+  expect(resolveMorphTargets(arkit, 'browDownLeft')).toEqual([5]);
+  expect(resolveMorphTargets({ mouthSmile: 7 }, 'mouthSmile')).toEqual([7]);
+  expect(resolveMorphTargets({ mouthSmile: 7 }, 'noseSneer')).toEqual([]);
+});
@@ -0,0 +1,116 @@
+// Named facial expressions built from ARKit blend shapes (mouthSmile, browInnerUp, eyeSquint...).
+// The avatar blends the active expression on top of the clip; mouth shapes make way for
+// lip sync visemes while the character speaks so the two don't fight over the lips.
+
+import { BlendShapeWeights, FacialExpression } from '../types';
+
+export const EXPRESSIONS: FacialExpression[] = [
+  {
+    id: 'happy',
+    label: '😊 Happy',
+    shapes: { mouthSmile: 0.8, cheekSquint: 0.5, eyeSquint: 0.3, mouthDimple: 0.3, browInnerUp: 0.1 }
+  },
+  {
+    id: 'smile',
+    label: '🙂 Smile',
+    shapes: { mouthSmile: 0.45, cheekSquint: 0.2, mouthDimple: 0.15 }
+  },
+  {
+    id: 'sad',
+    label: '😢 Sad',
+    shapes: { mouthFrown: 0.7, browInnerUp: 0.8, mouthShrugLower: 0.3, mouthPress: 0.2, eyeSquint: 0.1 }
+  },
+  {
+    id: 'angry',
+    label: '😠 Angry',
+    shapes: { browDown: 0.9, eyeSquint: 0.5, noseSneer: 0.6, mouthFrown: 0.4, mouthPress: 0.5, jawForward: 0.2 }
+  },
+  {
+    id: 'surprised',
+    label: '😲 Surprised',
+    shapes: { browInnerUp: 0.9, browOuterUp: 0.9, eyeWide: 0.8, jawOpen: 0.35, mouthFunnel: 0.2 },
+    suppressBlink: true
+  },
+  {
+    id: 'think',
+    label: '🤔 Thinking',
+    shapes: { browDownLeft: 0.4, browOuterUpRight: 0.5, eyeSquintLeft: 0.2, mouthPressLeft: 0.4, mouthRollLower: 0.3, mouthLeft: 0.2 }
+  },
+  {
+    id: 'confused',
+    label: '😕 Confused',
+    shapes: { browInnerUp: 0.5, browDownRight: 0.5, browOuterUpLeft: 0.4, eyeSquintRight: 0.3, mouthLeft: 0.3, mouthFrownRight: 0.2 }
+  },
+  {
+    id: 'disgusted',
+    label: '🤢 Disgusted',
+    shapes: { noseSneer: 0.8, mouthUpperUp: 0.5, browDown: 0.5, eyeSquint: 0.4, mouthFrown: 0.3 }
+  },
+  {
+    id: 'scared',
+    label: '😨 Scared',
+    shapes: { browInnerUp: 1, browOuterUp: 0.4, eyeWide: 0.9, mouthStretch: 0.5, jawOpen: 0.15 },
+    suppressBlink: true
+  },
+];
+
+// How much of each mouth shape gives way to visemes while speaking (1 = all of it).
+// Brows, eyes, cheeks and nose are never touched.
+const MOUTH_YIELD: Record<string, number> = {
+  jawOpen: 1,
+  jawForward: 1,
+  mouthClose: 1,
+  mouthFunnel: 1,
+  mouthPucker: 1,
+  mouthRollLower: 1,
+  mouthRollUpper: 1,
+  mouthLowerDown: 1,
+  mouthPress: 0.8,
+  mouthShrugLower: 0.8,
+  mouthShrugUpper: 0.8,
+  mouthLeft: 0.7,
+  mouthRight: 0.7,
+  mouthStretch: 0.6,
+  mouthUpperUp: 0.5,
+  mouthSmile: 0.4,
+  mouthFrown: 0.4,
+  mouthDimple: 0.3
+};
+
+const expressionsById = new Map(EXPRESSIONS.map(expression => [expression.id, expression]));
+
+export function getExpression(id: string): FacialExpression | undefined {
+  return expressionsById.get(id);
+}
+
+// 'eyeSquintLeft' -> 'eyeSquint'
+function getBaseShapeName(shape: string): string {
+  return shape.replace(/(Left|Right)$/, '');
+}
+
+/**
+ * Blend shape weights for an expression at the given intensity. mouthActivity (0-1) is how
+ * much the lips are busy with visemes; mouth shapes are scaled back by that much.
+ */
+export function getExpressionWeights(
+  expression: FacialExpression,
+  intensity = 1,
+  mouthActivity = 0
+): BlendShapeWeights {
+  const weights: BlendShapeWeights = {};
+  Object.entries(expression.shapes).forEach(([shape, weight]) => {
+    const yieldToVisemes = MOUTH_YIELD[getBaseShapeName(shape)] ?? 0;
+    weights[shape] = weight * intensity * (1 - yieldToVisemes * mouthActivity);
+  });
+  return weights;
+}
+
+/**
+ * Morph target indices a blend shape drives. Symmetric names ('eyeSquint') drive both
+ * sides; avatars without ARKit shapes may still have the plain name (e.g. 'mouthSmile').
+ */
+export function resolveMorphTargets(dictionary: { [key: string]: number }, shape: string): number[] {
+  return [shape, `${shape}Left`, `${shape}Right`]
+    .map(name => dictionary[name])
+    .filter((index): index is number => index !== undefined);
+}
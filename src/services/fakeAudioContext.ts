@@ -0,0 +1,40 @@
+// Web Audio stand-in for tests - jsdom has none. Installs an AudioContext whose clock the test
+// moves by hand and which records the sources started on it.
+
+export interface FakeAudioSource {
+  // Seconds into the buffer playback started from
+  offset: number;
+  stopped: boolean;
+}
+
+export interface FakeAudioContext {
+  currentTime: number;
+  sources: FakeAudioSource[];
+}
+
+export function installFakeAudioContext(): FakeAudioContext {
+  const fake: FakeAudioContext = { currentTime: 0, sources: [] };
+
+  (window as any).AudioContext = class {
+    state = 'running';
+    destination = {};
+    get currentTime() {
+      return fake.currentTime;
+    }
+    createBufferSource() {
+      const source: FakeAudioSource = { offset: 0, stopped: false };
+      return {
+        connect: () => {},
+        start: (when: number, offset = 0) => {
+          source.offset = offset;
+          fake.sources.push(source);
+        },
+        stop: () => {
+          source.stopped = true;
+        },
+        onended: null
+      };
+    }
+  };
+  return fake;
+}
@@ -0,0 +1,52 @@
+// Avatar controller stand-in for tests of the services that drive avatars.
+// Records what it was asked to play and lets the test finish clips and advance time.
+
+import { AvatarController, LipSyncSource } from '../types';
+
+export interface FakeAvatarController {
+  controller: AvatarController;
+  // Clips passed to play, in order
+  played: string[];
+  // Every source passed to setLipSync, including nulls
+  lipSyncs: (LipSyncSource | null)[];
+  // Tell the finished listeners a clip ended
+  finish: (animationType: string) => void;
+  // Run the update listeners for one frame
+  tick: (delta: number) => void;
+}
+
+export function createFakeController(characterId: string, overrides: Partial<AvatarController> = {}): FakeAvatarController {
+  const finished = new Set<(animationType: string) => void>();
+  const updates = new Set<(delta: number) => void>();
+  const played: string[] = [];
+  const lipSyncs: (LipSyncSource | null)[] = [];
+
+  const controller: AvatarController = {
+    characterId,
+    play: (animationType) => { played.push(animationType); return Promise.resolve(true); },
+    getCurrentAnimation: () => played[played.length - 1] || null,
+    onFinished: listener => { finished.add(listener); return () => { finished.delete(listener); }; },
+    onUpdate: listener => { updates.add(listener); return () => { updates.delete(listener); }; },
+    setLipSync: source => { lipSyncs.push(source); },
+    setExpression: () => {},
+    setLookAt: () => {},
+    getHeadPosition: () => null,
+    playLayer: () => {},
+    setLayerWeight: () => {},
+    stopLayer: () => {},
+    setLocomotion: () => {},
+    getPlayback: () => null,
+    setPlayback: () => {},
+    seek: () => {},
+    stepFrames: () => {},
+    ...overrides,
+  };
+
+  return {
+    controller,
+    played,
+    lipSyncs,
+    finish: animationType => Array.from(finished).forEach(listener => listener(animationType)),
+    tick: delta => Array.from(updates).forEach(listener => listener(delta)),
+  };
+}
@@ -0,0 +1,50 @@
+import { parseLipSyncCues } from './lipSyncCues';
+
+test('reads Rhubarb TSV cues', () => {
+  const result = parseLipSyncCues('0.00\tX\n0.05\tD\n0.27\tA\n0.40\tX\n');
+
+  expect(result.format).toBe('rhubarb-tsv');
+  expect(result.errors).toEqual([]);
+  expect(result.cues.map(cue => [cue.start, cue.viseme])).toEqual([
+    [0, 'sil'],
+    [0.05, 'aa'],
+    [0.27, 'PP'],
+    [0.4, 'sil'],
+  ]);
+  // Each cue lasts until the next one, the last one gets a short default
+  expect(result.cues[1].end).toBe(0.27);
+  expect(result.cues[3].end).toBeCloseTo(0.6);
+});
+
+test('reads Rhubarb JSON and reports bad cues', () => {
+  const result = parseLipSyncCues(JSON.stringify({
+    metadata: { soundFile: 'line.wav', duration: 0.5 },
+    mouthCues: [
+      { start: 0, end: 0.1, value: 'F' },
+      { start: 0.1, end: 0.3, value: 'Q' },
+      { start: 0.3, end: 0.5, value: 'G' },
+    ],
+  }));
+
+  expect(result.format).toBe('rhubarb-json');
+  expect(result.cues.map(cue => cue.viseme)).toEqual(['U', 'FF']);
+  expect(result.errors).toEqual(['Cue 2: expected { start, end, value } with a shape A-H or X']);
+});
+
+test('reads Oculus viseme CSVs by index or by weight columns', () => {
+  const indexed = parseLipSyncCues('time_ms,viseme,weight\n0,0,1\n100,10,0.8\n250,1,1\n');
+  expect(indexed.format).toBe('oculus-csv');
+  expect(indexed.cues.map(cue => [cue.start, cue.viseme, cue.weight])).toEqual([
+    [0, 'sil', 0],
+    [0.1, 'aa', 0.8],
+    [0.25, 'PP', 1],
+  ]);
+
+  const weights = Array(15).fill(0);
+  weights[13] = 0.9;
+  const weighted = parseLipSyncCues(`0.5,${weights.join(',')}\nnot,a,row`);
+  expect(weighted.cues[0]).toMatchObject({ start: 0.5, viseme: 'O', weight: 0.9 });
+  expect(weighted.errors).toEqual(['Line 2: expected numbers only']);
+
+  expect(parseLipSyncCues('hello').format).toBeNull();
+});
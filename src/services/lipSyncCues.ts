@@ -0,0 +1,164 @@
+// Importers for mouth-cue files made by offline lip sync tools, mapped onto the avatar's
+// viseme_* morph targets:
+// - Rhubarb Lip Sync TSV ("0.35<TAB>B" per line) and JSON ({ mouthCues: [{ start, end, value }] })
+// - Oculus viseme CSVs, either "time,index[,weight]" rows or a time column followed by
+//   one weight column per viseme (sil, PP, FF ... U)
+
+import { simplifyTimeline, VISEME_NAMES } from './visemes';
+import { VisemeCue, VisemeName } from '../types';
+
+export type LipSyncCueFormat = 'rhubarb-tsv' | 'rhubarb-json' | 'oculus-csv';
+
+export interface LipSyncCueImport {
+  format: LipSyncCueFormat | null;
+  cues: VisemeCue[];
+  // Lines that were skipped, or why the file couldn't be read at all
+  errors: string[];
+}
+
+export const LIP_SYNC_CUE_FORMAT_LABELS: Record<LipSyncCueFormat, string> = {
+  'rhubarb-tsv': 'Rhubarb TSV',
+  'rhubarb-json': 'Rhubarb JSON',
+  'oculus-csv': 'Oculus viseme CSV'
+};
+
+// Rhubarb's mouth shapes (Preston Blair set) and the closest RPM viseme
+const RHUBARB_SHAPES: Record<string, [VisemeName, number]> = {
+  A: ['PP', 1],   // closed: P, B, M
+  B: ['kk', 0.7], // slightly open, clenched teeth: most consonants
+  C: ['E', 0.9],  // open: EH, AE
+  D: ['aa', 1],   // wide open: AA
+  E: ['O', 0.9],  // slightly rounded: AO, ER
+  F: ['U', 1],    // puckered: UW, OW, W
+  G: ['FF', 1],   // teeth on lower lip: F, V
+  H: ['nn', 0.8], // tongue raised: L
+  X: ['sil', 0]   // rest
+};
+
+// A cue with no end lasts until the next one; the last one gets this long
+const LAST_CUE_DURATION = 0.2;
+
+function rhubarbCue(value: string, start: number, end: number): VisemeCue | null {
+  const shape = RHUBARB_SHAPES[value.trim().toUpperCase()];
+  return shape ? { start, end, viseme: shape[0], weight: shape[1] } : null;
+}
+
+function parseRhubarbJson(data: any): LipSyncCueImport {
+  const errors: string[] = [];
+  const cues: VisemeCue[] = [];
+
+  (data.mouthCues as any[]).forEach((cue, index) => {
+    const converted = typeof cue?.start === 'number' && typeof cue?.end === 'number'
+      ? rhubarbCue(String(cue.value ?? ''), cue.start, cue.end)
+      : null;
+    if (converted) {
+      cues.push(converted);
+    } else {
+      errors.push(`Cue ${index + 1}: expected { start, end, value } with a shape A-H or X`);
+    }
+  });
+
+  return { format: 'rhubarb-json', cues, errors };
+}
+
+function parseRhubarbTsv(lines: string[]): LipSyncCueImport {
+  const errors: string[] = [];
+  const entries: { time: number; value: string }[] = [];
+
+  lines.forEach((line, index) => {
+    const [time, value] = line.split(/\t|\s+/);
+    if (Number.isNaN(Number(time)) || !value || !RHUBARB_SHAPES[value.toUpperCase()]) {
+      errors.push(`Line ${index + 1}: expected "<seconds><TAB><shape A-H or X>"`);
+      return;
+    }
+    entries.push({ time: Number(time), value });
+  });
+
+  const cues = entries
+    .sort((a, b) => a.time - b.time)
+    .map((entry, index) => rhubarbCue(entry.value, entry.time, entries[index + 1]?.time ?? entry.time + LAST_CUE_DURATION)!)
+    // Rhubarb ends with an X cue at the end of the audio
+    .filter(cue => cue.end > cue.start);
+
+  return { format: 'rhubarb-tsv', cues, errors };
+}
+
+function parseOculusCsv(lines: string[]): LipSyncCueImport {
+  const errors: string[] = [];
+  let rows = lines.map(line => line.split(/[,;\t]/).map(cell => cell.trim()));
+
+  // Optional header; times in milliseconds if it says so
+  let timeScale = 1;
+  if (rows[0] && rows[0].some(cell => cell !== '' && Number.isNaN(Number(cell)))) {
+    if (/(^|[^a-z])ms\b|milli/i.test(rows[0][0])) timeScale = 0.001;
+    rows = rows.slice(1);
+  }
+
+  const entries: { time: number; viseme: VisemeName; weight: number }[] = [];
+  rows.forEach((row, index) => {
+    const lineNumber = index + 1 + (lines.length - rows.length);
+    const numbers = row.map(Number);
+    if (numbers.some(Number.isNaN) || numbers.length < 2) {
+      errors.push(`Line ${lineNumber}: expected numbers only`);
+      return;
+    }
+
+    const time = numbers[0] * timeScale;
+    if (numbers.length > VISEME_NAMES.length) {
+      // One weight per viseme - use the strongest
+      const weights = numbers.slice(1, VISEME_NAMES.length + 1);
+      const strongest = weights.indexOf(Math.max(...weights));
+      entries.push({ time, viseme: VISEME_NAMES[strongest], weight: Math.min(1, weights[strongest]) });
+    } else {
+      const viseme = VISEME_NAMES[numbers[1]];
+      if (!viseme) {
+        errors.push(`Line ${lineNumber}: viseme index must be 0-${VISEME_NAMES.length - 1}`);
+        return;
+      }
+      entries.push({ time, viseme, weight: Math.min(1, numbers[2] ?? 1) });
+    }
+  });
+
+  entries.sort((a, b) => a.time - b.time);
+  const cues = entries.map((entry, index) => ({
+    start: entry.time,
+    end: entries[index + 1]?.time ?? entry.time + LAST_CUE_DURATION,
+    viseme: entry.viseme,
+    weight: entry.viseme === 'sil' ? 0 : entry.weight
+  }));
+
+  return { format: 'oculus-csv', cues: simplifyTimeline(cues, 0), errors };
+}
+
+/**
+ * Read a cue file, detecting the format from its contents
+ */
+export function parseLipSyncCues(text: string): LipSyncCueImport {
+  const trimmed = text.trim();
+
+  if (trimmed.startsWith('{')) {
+    try {
+      const data = JSON.parse(trimmed);
+      if (Array.isArray(data?.mouthCues)) return parseRhubarbJson(data);
+    } catch (error) {
+      return { format: null, cues: [], errors: [`Invalid JSON: ${(error as Error).message}`] };
+    }
+    return { format: null, cues: [], errors: ['JSON cue files need a "mouthCues" array (Rhubarb format)'] };
+  }
+
+  const lines = trimmed.split(/\r?\n/).filter(line => line.trim() !== '');
+  if (lines.length === 0) {
+    return { format: null, cues: [], errors: ['The cue file is empty'] };
+  }
+
+  // Rhubarb TSV has a shape letter in the second column, Oculus CSVs are all numbers
+  const firstData = lines.find(line => /^\s*\d/.test(line)) || '';
+  if (/^\s*[\d.]+\s+[A-HX]\s*$/i.test(firstData)) return parseRhubarbTsv(lines);
+  if (/[,;\t]/.test(firstData)) return parseOculusCsv(lines);
+
+  return {
+    format: null,
+    cues: [],
+    errors: ['Unrecognised cue file - expected Rhubarb TSV/JSON or an Oculus viseme CSV']
+  };
+}
@@ -0,0 +1,28 @@
+import { loadLLMSettings, saveLLMSettings } from './llmProvider';
+
+test('keeps the API key out of localStorage', () => {
+  saveLLMSettings({ baseUrl: 'http://localhost:11434/v1', model: 'llama3.1', apiKey: 'secret' });
+
+  expect(localStorage.getItem('rpm-llm-settings')).not.toContain('secret');
+  expect(sessionStorage.getItem('rpm-llm-api-key')).toBe('secret');
+  expect(loadLLMSettings()).toMatchObject({ model: 'llama3.1', apiKey: 'secret' });
+});
+
+test('drops keys saved in localStorage by earlier versions', () => {
+  sessionStorage.clear();
+  localStorage.setItem('rpm-llm-settings', JSON.stringify({ baseUrl: 'http://x/v1', model: 'm', apiKey: 'old' }));
+
+  expect(loadLLMSettings().apiKey).not.toBe('old');
+  expect(localStorage.getItem('rpm-llm-settings')).not.toContain('old');
+});
+
+test('never takes the API key from the environment', () => {
+  sessionStorage.clear();
+  process.env.REACT_APP_LLM_API_KEY = 'from-env';
+  jest.isolateModules(() => {
+    const { DEFAULT_LLM_SETTINGS, loadLLMSettings: load } = require('./llmProvider');
+    expect(DEFAULT_LLM_SETTINGS.apiKey).toBe('');
+    expect(load().apiKey).toBe('');
+  });
+  delete process.env.REACT_APP_LLM_API_KEY;
+});
@@ -0,0 +1,116 @@
+// Chat model providers used to turn scene descriptions into animation scripts.
+// Anything that speaks the OpenAI chat completions API works (OpenAI, a local
+// llama.cpp / Ollama / LM Studio server, or a mock) - only the base URL changes.
+
+export interface ChatMessage {
+  role: 'system' | 'user' | 'assistant';
+  content: string;
+}
+
+export interface LLMProvider {
+  name: string;
+  // Send the conversation and return the assistant's reply text
+  complete(messages: ChatMessage[]): Promise<string>;
+}
+
+export interface LLMSettings {
+  baseUrl: string;
+  model: string;
+  apiKey?: string;
+}
+
+const SETTINGS_KEY = 'rpm-llm-settings';
+// The API key is a secret, so it only lives for the browser session rather than in localStorage.
+// It is never read from a REACT_APP_ env var - those are copied into the built bundle.
+const API_KEY_KEY = 'rpm-llm-api-key';
+
+export const DEFAULT_LLM_SETTINGS: LLMSettings = {
+  baseUrl: process.env.REACT_APP_LLM_BASE_URL || 'https://api.openai.com/v1',
+  model: process.env.REACT_APP_LLM_MODEL || 'gpt-4o-mini',
+  apiKey: '',
+};
+
+export class OpenAICompatibleProvider implements LLMProvider {
+  name = 'openai-compatible';
+
+  constructor(private settings: LLMSettings, private temperature = 0.2) {}
+
+  async complete(messages: ChatMessage[]): Promise<string> {
+    const url = `${this.settings.baseUrl.replace(/\/+$/, '')}/chat/completions`;
+    const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+    if (this.settings.apiKey) {
+      headers.Authorization = `Bearer ${this.settings.apiKey}`;
+    }
+
+    const response = await fetch(url, {
+      method: 'POST',
+      headers,
+      body: JSON.stringify({
+        model: this.settings.model,
+        messages,
+        temperature: this.temperature,
+      }),
+    });
+
+    if (!response.ok) {
+      const detail = await response.text().catch(() => '');
+      throw new Error(`Chat request failed (${response.status} ${response.statusText}) ${detail.slice(0, 200)}`.trim());
+    }
+
+    const data = await response.json();
+    const content = data?.choices?.[0]?.message?.content;
+    if (typeof content !== 'string') {
+      throw new Error('Chat response did not contain a message');
+    }
+    return content;
+  }
+}
+
+/**
+ * Replies with canned responses in order (the last one repeats). Records every
+ * conversation it was sent so tests can inspect the retry prompts.
+ */
+export class FakeLLMProvider implements LLMProvider {
+  name = 'fake';
+  calls: ChatMessage[][] = [];
+
+  constructor(private responses: string[] | ((messages: ChatMessage[]) => string)) {}
+
+  async complete(messages: ChatMessage[]): Promise<string> {
+    this.calls.push(messages.map(message => ({ ...message })));
+    if (typeof this.responses === 'function') {
+      return this.responses(messages);
+    }
+    return this.responses[Math.min(this.calls.length - 1, this.responses.length - 1)] ?? '';
+  }
+}
+
+/**
+ * Settings saved from the scene panel, falling back to the REACT_APP_LLM_* env vars.
+ * The API key comes from sessionStorage only.
+ */
+export function loadLLMSettings(): LLMSettings {
+  try {
+    const saved = localStorage.getItem(SETTINGS_KEY);
+    const { apiKey: storedKey, ...settings }: Partial<LLMSettings> = saved ? JSON.parse(saved) : {};
+    // Keys saved by earlier versions are dropped from localStorage
+    if (storedKey !== undefined) {
+      localStorage.setItem(SETTINGS_KEY, JSON.stringify(settings));
+    }
+    const apiKey = sessionStorage.getItem(API_KEY_KEY) ?? '';
+    return { ...DEFAULT_LLM_SETTINGS, ...settings, apiKey };
+  } catch (error) {
+    console.error('Failed to load LLM settings:', error);
+    return DEFAULT_LLM_SETTINGS;
+  }
+}
+
+export function saveLLMSettings(settings: LLMSettings): void {
+  const { apiKey, ...rest } = settings;
+  localStorage.setItem(SETTINGS_KEY, JSON.stringify(rest));
+  if (apiKey) {
+    sessionStorage.setItem(API_KEY_KEY, apiKey);
+  } else {
+    sessionStorage.removeItem(API_KEY_KEY);
+  }
+}
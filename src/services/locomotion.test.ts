@@ -0,0 +1,30 @@
+import { combineInputs, getLocomotionVelocity, NO_INPUT, readGamepad, readKeyboard, updateTurnSpeed } from './locomotion';
+
+test('moves at walking pace on a key and runs at full input', () => {
+  const velocity = (forward: number, strafe = 0) => getLocomotionVelocity({ ...NO_INPUT, forward, strafe });
+  expect(velocity(0)).toEqual([0, 0]);
+  expect(velocity(0.3)[1]).toBeCloseTo(1.4);
+  expect(velocity(1)[1]).toBeCloseTo(5);
+  expect(velocity(-1)[1]).toBeCloseTo(-2.5);
+  // Strafing tops out at the strafe clips' speed
+  expect(velocity(0, -1)[0]).toBeCloseTo(-1.5);
+
+  expect(getLocomotionVelocity(readKeyboard(new Set(['KeyW'])))[1]).toBeCloseTo(1.4);
+  expect(getLocomotionVelocity(readKeyboard(new Set(['ArrowUp', 'ShiftLeft'])))[1]).toBeCloseTo(5);
+});
+
+test('reads keys and gamepad sticks into the same input', () => {
+  expect(readKeyboard(new Set(['KeyD', 'Space']))).toEqual({ forward: 0, strafe: 0, turn: 1, jump: true });
+
+  // Stick pushed up, with a little drift on the other axes
+  const gamepad = readGamepad({ axes: [0.05, -0.7, -0.1, 0], buttons: [{ pressed: false }] });
+  expect(gamepad).toEqual({ forward: 0.7, strafe: 0, turn: 0, jump: false });
+  expect(combineInputs(readKeyboard(new Set(['KeyW'])), gamepad).forward).toBe(0.7);
+});
+
+test('eases into and out of turns', () => {
+  const speed = updateTurnSpeed(0, 1, 1 / 60);
+  expect(speed).toBeGreaterThan(0);
+  expect(updateTurnSpeed(speed, 1, 1 / 60)).toBeGreaterThan(speed);
+  expect(updateTurnSpeed(speed, 0, 1 / 60)).toBeLessThan(speed);
+});
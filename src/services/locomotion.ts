@@ -0,0 +1,122 @@
+// Play mode input: keyboard and gamepad state turned into the velocity to move at and how
+// fast to turn. The velocity goes to the locomotion blend space, whose clips' root motion moves
+// the character, so walking speed always matches the feet.
+
+import { getSpeedRange, LOCOMOTION_BLEND_SPACE } from './blendSpace';
+import { LocomotionVelocity } from '../types';
+
+export interface LocomotionInput {
+  // -1 (backwards) to 1 (forwards)
+  forward: number;
+  // -1 (left) to 1 (right)
+  strafe: number;
+  // -1 (left) to 1 (right)
+  turn: number;
+  jump: boolean;
+}
+
+export interface GamepadLike {
+  axes: readonly number[];
+  buttons: readonly { pressed: boolean }[];
+}
+
+export const NO_INPUT: LocomotionInput = { forward: 0, strafe: 0, turn: 0, jump: false };
+
+// Stick movement smaller than this is ignored
+const DEAD_ZONE = 0.15;
+// Input that moves at walking pace - keys give this, or full input (a run) with Shift held.
+// Pushing a stick further speeds up through jogging to running.
+const WALK_INPUT = 0.3;
+const FULL_INPUT = 1;
+
+// Radians per second at full turn input, and how quickly turning speeds up and slows down
+export const MAX_TURN_SPEED = 2.5;
+const TURN_RESPONSE = 8;
+
+const KEYS = {
+  forward: ['KeyW', 'ArrowUp'],
+  backward: ['KeyS', 'ArrowDown'],
+  turnLeft: ['KeyA', 'ArrowLeft'],
+  turnRight: ['KeyD', 'ArrowRight'],
+  strafeLeft: ['KeyQ'],
+  strafeRight: ['KeyE'],
+  run: ['ShiftLeft', 'ShiftRight'],
+  jump: ['Space']
+};
+
+// Keys play mode handles, so the page doesn't scroll on arrows and Space
+export const LOCOMOTION_KEYS = Object.values(KEYS).flat();
+
+/**
+ * Input from the keys currently held down (KeyboardEvent.code values)
+ */
+export function readKeyboard(pressed: Set<string>): LocomotionInput {
+  const held = (codes: string[]) => (codes.some(code => pressed.has(code)) ? 1 : 0);
+  const speed = held(KEYS.run) ? FULL_INPUT : WALK_INPUT;
+  return {
+    forward: (held(KEYS.forward) - held(KEYS.backward)) * speed,
+    strafe: (held(KEYS.strafeRight) - held(KEYS.strafeLeft)) * speed,
+    turn: held(KEYS.turnRight) - held(KEYS.turnLeft),
+    jump: held(KEYS.jump) === 1
+  };
+}
+
+function applyDeadZone(value: number | undefined): number {
+  return value !== undefined && Math.abs(value) > DEAD_ZONE ? value : 0;
+}
+
+/**
+ * Input from a standard-mapping gamepad: left stick moves and strafes, right stick turns,
+ * the bottom face button (A / Cross) jumps
+ */
+export function readGamepad(gamepad: GamepadLike): LocomotionInput {
+  return {
+    // Stick up is negative
+    forward: -applyDeadZone(gamepad.axes[1]),
+    strafe: applyDeadZone(gamepad.axes[0]),
+    turn: applyDeadZone(gamepad.axes[2]),
+    jump: gamepad.buttons[0]?.pressed ?? false
+  };
+}
+
+/**
+ * Keyboard and gamepad together - the stronger of the two on each axis
+ */
+export function combineInputs(a: LocomotionInput, b: LocomotionInput): LocomotionInput {
+  const stronger = (x: number, y: number) => (Math.abs(x) >= Math.abs(y) ? x : y);
+  return {
+    forward: stronger(a.forward, b.forward),
+    strafe: stronger(a.strafe, b.strafe),
+    turn: stronger(a.turn, b.turn),
+    jump: a.jump || b.jump
+  };
+}
+
+// Speed for an input amount along one axis: up to walking pace at WALK_INPUT, then on to the
+// fastest clip that way at full input
+function getAxisSpeed(amount: number, [slowest, fastest]: [number, number]): number {
+  const magnitude = Math.min(1, Math.abs(amount));
+  const speed = magnitude <= WALK_INPUT
+    ? (magnitude / WALK_INPUT) * slowest
+    : slowest + ((magnitude - WALK_INPUT) / (1 - WALK_INPUT)) * (fastest - slowest);
+  return Math.sign(amount) * speed;
+}
+
+/**
+ * Velocity for the input, for the locomotion blend space: walking pace at a light push (or a
+ * key), running at full input, and as fast as the strafe and backwards clips allow sideways and back
+ */
+export function getLocomotionVelocity(input: LocomotionInput, space = LOCOMOTION_BLEND_SPACE): LocomotionVelocity {
+  const forwardRange = getSpeedRange(space, input.forward >= 0 ? [0, 1] : [0, -1]);
+  const strafeRange = getSpeedRange(space, input.strafe >= 0 ? [1, 0] : [-1, 0]);
+  return [getAxisSpeed(input.strafe, strafeRange), getAxisSpeed(input.forward, forwardRange)];
+}
+
+/**
+ * Turning speed eased towards what the input asks for, so the character doesn't snap round.
+ * Positive is turning right.
+ */
+export function updateTurnSpeed(speed: number, turn: number, delta: number): number {
+  const target = turn * MAX_TURN_SPEED;
+  return speed + (target - speed) * Math.min(1, delta * TURN_RESPONSE);
+}
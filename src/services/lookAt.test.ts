@@ -0,0 +1,18 @@
+import { EYE_LIMITS, getLookAngles, HEAD_LIMITS, limitLookAngles } from './lookAt';
+
+test('turns towards targets in front and ignores ones behind', () => {
+  const [yaw, pitch] = getLookAngles([1, 0, 1])!;
+  expect(yaw).toBeCloseTo(Math.PI / 4);
+  expect(pitch).toBeCloseTo(0);
+
+  // Looking up is a negative pitch
+  expect(getLookAngles([0, 1, 1])![1]).toBeCloseTo(-Math.PI / 4);
+  expect(getLookAngles([0, 0, -1])).toBeNull();
+  expect(getLookAngles([0, 0, 0])).toBeNull();
+});
+
+test('keeps the head and eyes within their limits', () => {
+  expect(limitLookAngles([1.8, -1], HEAD_LIMITS)).toEqual([HEAD_LIMITS.yaw, -HEAD_LIMITS.up]);
+  expect(limitLookAngles([-1, 1], EYE_LIMITS)).toEqual([-EYE_LIMITS.yaw, EYE_LIMITS.down]);
+  expect(limitLookAngles([0.1, 0.1], HEAD_LIMITS)).toEqual([0.1, 0.1]);
+});
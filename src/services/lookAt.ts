@@ -0,0 +1,41 @@
+// Angles for turning an avatar's neck, head and eyes towards a target, on top of the clip.
+// Everything is in the avatar's own space: +Z is straight ahead, +Y is up. Yaw turns
+// left/right, pitch is positive looking down (the order THREE.Euler 'YXZ' applies them).
+
+import { Vector3Tuple } from '../types';
+
+export interface LookAngleLimits {
+  yaw: number;
+  up: number;
+  down: number;
+}
+
+// How far the head (neck and head bones together) and the eyes may turn, in radians
+export const HEAD_LIMITS: LookAngleLimits = { yaw: 1.1, up: 0.35, down: 0.5 };
+export const EYE_LIMITS: LookAngleLimits = { yaw: 0.45, up: 0.25, down: 0.3 };
+
+// Share of the head turn done by the neck bone, the head bone does the rest
+export const NECK_SHARE = 0.4;
+
+// Targets further round than this (behind the character) are ignored
+const MAX_TARGET_YAW = 2;
+
+/**
+ * [yaw, pitch] that face the given direction, or null if it is behind the character
+ */
+export function getLookAngles(direction: Vector3Tuple): [number, number] | null {
+  const [x, y, z] = direction;
+  const horizontal = Math.hypot(x, z);
+  if (horizontal === 0 && y === 0) return null;
+
+  const yaw = Math.atan2(x, z);
+  if (Math.abs(yaw) > MAX_TARGET_YAW) return null;
+  return [yaw, -Math.atan2(y, horizontal)];
+}
+
+export function limitLookAngles([yaw, pitch]: [number, number], limits: LookAngleLimits): [number, number] {
+  return [
+    Math.max(-limits.yaw, Math.min(limits.yaw, yaw)),
+    Math.max(-limits.up, Math.min(limits.down, pitch))
+  ];
+}
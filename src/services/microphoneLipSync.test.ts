@@ -0,0 +1,18 @@
+import { DEFAULT_MICROPHONE_SETTINGS, getMicrophoneLoudness } from './microphoneLipSync';
+
+test('keeps the mouth closed below the noise gate', () => {
+  expect(getMicrophoneLoudness(0, DEFAULT_MICROPHONE_SETTINGS)).toBe(0);
+  expect(getMicrophoneLoudness(0.01, DEFAULT_MICROPHONE_SETTINGS)).toBe(0);
+  expect(getMicrophoneLoudness(0.04, { sensitivity: 1, noiseGate: 0.05 })).toBe(0);
+  expect(getMicrophoneLoudness(0.06, { sensitivity: 1, noiseGate: 0.05 })).toBeGreaterThan(0);
+});
+
+test('scales the level above the gate by the sensitivity', () => {
+  const normal = getMicrophoneLoudness(0.04, DEFAULT_MICROPHONE_SETTINGS);
+  const sensitive = getMicrophoneLoudness(0.04, { ...DEFAULT_MICROPHONE_SETTINGS, sensitivity: 2 });
+
+  expect(normal).toBeCloseTo(0.25);
+  expect(sensitive).toBeCloseTo(normal * 2);
+  // Loud input opens the mouth fully and no further
+  expect(getMicrophoneLoudness(0.5, DEFAULT_MICROPHONE_SETTINGS)).toBe(1);
+});
@@ -0,0 +1,90 @@
+// Live lip sync from the microphone. Each frame the latest audio is analysed with the
+// same features as audio files and mapped to a viseme, so the avatar mouths along in
+// real time. Only the mouth is driven - the body clip keeps playing.
+
+import { analyseFrame, classifyFrame, getAudioContext } from './audioLipSync';
+import { getAvatarController, onAvatarControllerRegistered } from './avatarControllers';
+import { LipSyncSource, VisemeName } from '../types';
+
+export interface MicrophoneSettings {
+  // Multiplies the input level, raise it for quiet microphones
+  sensitivity: number;
+  // Input level (RMS) below which the mouth stays closed
+  noiseGate: number;
+}
+
+export interface MicrophoneLipSync {
+  setSettings: (settings: MicrophoneSettings) => void;
+  stop: () => void;
+}
+
+export const DEFAULT_MICROPHONE_SETTINGS: MicrophoneSettings = { sensitivity: 1, noiseGate: 0.01 };
+
+// Input level that counts as fully open at sensitivity 1
+const REFERENCE_LEVEL = 0.12;
+const SILENCE_THRESHOLD = 0.05;
+
+/**
+ * Mouth opening (0-1) for an input level: the noise gate is taken off the level,
+ * then the rest is scaled by the sensitivity
+ */
+export function getMicrophoneLoudness(rms: number, settings: MicrophoneSettings): number {
+  const level = Math.max(0, rms - settings.noiseGate);
+  return Math.min(1, (level * settings.sensitivity) / REFERENCE_LEVEL);
+}
+
+/**
+ * Ask for the microphone and start driving the character's mouth with it
+ */
+export async function startMicrophoneLipSync(
+  characterId: string,
+  initialSettings: MicrophoneSettings = DEFAULT_MICROPHONE_SETTINGS
+): Promise<MicrophoneLipSync> {
+  const stream = await navigator.mediaDevices.getUserMedia({
+    audio: { echoCancellation: true, noiseSuppression: true }
+  });
+
+  const context = getAudioContext();
+  const input = context.createMediaStreamSource(stream);
+  const analyser = context.createAnalyser();
+  analyser.fftSize = 1024;
+  // Not connected to the speakers, so there's no feedback
+  input.connect(analyser);
+
+  const frame = new Float32Array(analyser.fftSize);
+  let settings = initialSettings;
+  let previous: VisemeName = 'sil';
+  let stopped = false;
+
+  const source: LipSyncSource = {
+    sample: () => {
+      if (stopped) return null;
+
+      analyser.getFloatTimeDomainData(frame);
+      const features = analyseFrame(frame, context.sampleRate);
+      const loudness = getMicrophoneLoudness(features.rms, settings);
+      const viseme = classifyFrame(features, loudness, SILENCE_THRESHOLD, previous);
+      previous = viseme;
+
+      return viseme === 'sil' ? {} : { [viseme]: Math.min(1, 0.3 + loudness * 0.8) };
+    }
+  };
+
+  getAvatarController(characterId)?.setLipSync(source);
+  // A remounted avatar gets a new controller, which has to be given the microphone again
+  const stopReattaching = onAvatarControllerRegistered(id => {
+    if (id === characterId) getAvatarController(characterId)?.setLipSync(source);
+  });
+
+  return {
+    setSettings: next => {
+      settings = next;
+    },
+    stop: () => {
+      stopped = true;
+      stopReattaching();
+      input.disconnect();
+      stream.getTracks().forEach(track => track.stop());
+    }
+  };
+}
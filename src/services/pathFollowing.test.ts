@@ -0,0 +1,29 @@
+import { getPathLength, getSteering, wrapAngle } from './pathFollowing';
+
+test('walks to near waypoints, runs to far ones and slows down on arrival', () => {
+  const steer = (waypoints: [number, number][]) => getSteering({ position: [0, 0], facing: 0, waypoints, obstacles: [] });
+
+  expect(steer([[0, 3]]).velocity[1]).toBeCloseTo(1.4);
+  expect(steer([[0, 3], [0, 8]]).velocity[1]).toBeCloseTo(5);
+  expect(steer([[0, 0.5]]).velocity[1]).toBeLessThan(1.4);
+  expect(steer([[0, 0.1]]).reached).toBe(true);
+  expect(getPathLength([0, 0], [[3, 4], [3, 0]])).toBe(9);
+});
+
+test('turns on the spot towards waypoints behind the character', () => {
+  const steering = getSteering({ position: [0, 0], facing: 0, waypoints: [[0, -3]], obstacles: [] });
+  expect(steering.velocity).toEqual([0, 0]);
+  expect(Math.abs(steering.turnSpeed)).toBeGreaterThan(0);
+
+  // Off to the left (+X when facing +Z): keep walking while turning that way
+  const left = getSteering({ position: [0, 0], facing: 0, waypoints: [[1, 3]], obstacles: [] });
+  expect(left.turnSpeed).toBeGreaterThan(0);
+  expect(left.velocity[1]).toBeGreaterThan(0);
+  expect(wrapAngle(3 * Math.PI)).toBeCloseTo(Math.PI);
+});
+
+test('steers round a character standing in the way', () => {
+  const steering = getSteering({ position: [0, 0], facing: 0, waypoints: [[0, 4]], obstacles: [[0.2, 0.8]] });
+  // Someone ahead and slightly to the left - veer right
+  expect(steering.turnSpeed).toBeLessThan(0);
+});
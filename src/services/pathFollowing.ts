@@ -0,0 +1,109 @@
+// Steering for click-to-move: turns a character towards its next waypoint and picks the
+// velocity to feed the locomotion blend space - walking for short trips, running for long
+// ones, slowing down on the last stretch, turning on the spot when the waypoint is behind,
+// and steering round other characters on the way.
+
+import { getSpeedRange, LOCOMOTION_BLEND_SPACE } from './blendSpace';
+import { LocomotionVelocity } from '../types';
+
+// A point on the ground, [x, z]
+export type GroundPoint = [number, number];
+
+export interface SteeringInput {
+  position: GroundPoint;
+  // Rotation about Y; 0 faces +Z
+  facing: number;
+  waypoints: GroundPoint[];
+  // Where the other characters stand
+  obstacles: GroundPoint[];
+}
+
+export interface Steering {
+  // [right, forward] for the blend space
+  velocity: LocomotionVelocity;
+  // Radians per second to add to the facing
+  turnSpeed: number;
+  // The first waypoint has been reached
+  reached: boolean;
+}
+
+// Closer than this counts as being at a waypoint
+export const ARRIVE_RADIUS = 0.2;
+// Paths longer than this are run rather than walked
+const RUN_DISTANCE = 6;
+// Distance from the last waypoint where slowing down starts
+const SLOWDOWN_DISTANCE = 1.5;
+// Slowest speed while still on the way, so the last few centimetres don't take forever
+const MIN_SPEED = 0.4;
+// Waypoints further round than this are turned towards on the spot before setting off
+const TURN_IN_PLACE_ANGLE = Math.PI / 3;
+const TURN_GAIN = 4;
+const MAX_TURN_SPEED = 3;
+// Characters closer than this are steered round
+const AVOID_RADIUS = 1.2;
+
+// -PI to PI
+export function wrapAngle(angle: number): number {
+  return Math.atan2(Math.sin(angle), Math.cos(angle));
+}
+
+/**
+ * Length of the path from the position through every waypoint
+ */
+export function getPathLength(position: GroundPoint, waypoints: GroundPoint[]): number {
+  let length = 0;
+  let from = position;
+  waypoints.forEach(point => {
+    length += Math.hypot(point[0] - from[0], point[1] - from[1]);
+    from = point;
+  });
+  return length;
+}
+
+// Push away from nearby characters, stronger the closer they are
+function getAvoidance(position: GroundPoint, obstacles: GroundPoint[]): GroundPoint {
+  let x = 0;
+  let z = 0;
+  obstacles.forEach(([ox, oz]) => {
+    const dx = position[0] - ox;
+    const dz = position[1] - oz;
+    const distance = Math.hypot(dx, dz);
+    if (distance === 0 || distance >= AVOID_RADIUS) return;
+    const strength = (AVOID_RADIUS - distance) / AVOID_RADIUS;
+    x += (dx / distance) * strength;
+    z += (dz / distance) * strength;
+  });
+  return [x, z];
+}
+
+export function getSteering(input: SteeringInput, space = LOCOMOTION_BLEND_SPACE): Steering {
+  const { position, facing, waypoints, obstacles } = input;
+  const target = waypoints[0];
+  if (!target) return { velocity: [0, 0], turnSpeed: 0, reached: true };
+
+  const toTarget: GroundPoint = [target[0] - position[0], target[1] - position[1]];
+  const distance = Math.hypot(...toTarget);
+  if (distance < ARRIVE_RADIUS) return { velocity: [0, 0], turnSpeed: 0, reached: true };
+
+  // Head for the waypoint, pushed aside by anyone in the way. Avoidance eases off near the
+  // waypoint so a target right next to someone can still be reached.
+  const [avoidX, avoidZ] = getAvoidance(position, obstacles);
+  const avoidWeight = Math.min(1, distance / AVOID_RADIUS);
+  const heading = Math.atan2(toTarget[0] / distance + avoidX * avoidWeight, toTarget[1] / distance + avoidZ * avoidWeight);
+  const turn = wrapAngle(heading - facing);
+  const turnSpeed = Math.max(-MAX_TURN_SPEED, Math.min(MAX_TURN_SPEED, turn * TURN_GAIN));
+
+  // Turn on the spot first when the waypoint is off to the side or behind
+  if (Math.abs(turn) > TURN_IN_PLACE_ANGLE) return { velocity: [0, 0], turnSpeed, reached: false };
+
+  const [walkSpeed, runSpeed] = getSpeedRange(space, [0, 1]);
+  const remaining = getPathLength(position, waypoints);
+  let speed = remaining > RUN_DISTANCE ? runSpeed : walkSpeed;
+  // Slow down for the last waypoint, and while still turning
+  if (waypoints.length === 1) {
+    speed = Math.min(speed, Math.max(MIN_SPEED, (speed * distance) / SLOWDOWN_DISTANCE));
+  }
+  speed *= Math.cos(turn);
+
+  return { velocity: [0, speed], turnSpeed, reached: false };
+}
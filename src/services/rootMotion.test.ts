@@ -0,0 +1,20 @@
+import { getRootDisplacement, stripRootMotion } from './rootMotion';
+
+test('removes the forward drift but keeps sway and height', () => {
+  const times = [0, 0.5, 1];
+  // Hips walk 2 forward (z) while swaying in x and bobbing in y
+  const values = [0, 1, 0, 0.1, 1.1, 1, 0, 1, 2];
+  const motion = stripRootMotion(times, values);
+
+  expect(motion).toEqual({ displacement: [0, 2], duration: 1 });
+  expect(values).toEqual([0, 1, 0, 0.1, 1.1, 0, 0, 1, 0]);
+});
+
+test('moves the root by the share of the clip played, across loops', () => {
+  const motion = { displacement: [0, 2] as [number, number], duration: 1 };
+  expect(getRootDisplacement(motion, 0.25, 0.5)).toEqual([0, 0.5]);
+  // Looped from 0.9 round to 0.1
+  const [x, z] = getRootDisplacement(motion, 0.9, 0.1);
+  expect(x).toBe(0);
+  expect(z).toBeCloseTo(0.4);
+});
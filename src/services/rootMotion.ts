@@ -0,0 +1,40 @@
+// Root motion for clips that travel (walk, run, strafe, jump...). The hips' horizontal
+// drift over the clip is treated as a straight line: it is subtracted from the Hips.position
+// track, so the pose keeps its sway and bob, and is either dropped (in place) or handed to
+// the character's position frame by frame (extract). Height is never touched, so jump arcs stay.
+
+export interface RootMotion {
+  // Horizontal hips travel [x, z] over one play of the clip, in the hips' parent space
+  displacement: [number, number];
+  duration: number;
+}
+
+/**
+ * Remove the horizontal drift from a Hips.position track (x, y, z per key), in place.
+ * Returns the drift that was removed.
+ */
+export function stripRootMotion(times: ArrayLike<number>, values: { [index: number]: number; length: number }): RootMotion {
+  const count = times.length;
+  const duration = count > 0 ? times[count - 1] - times[0] : 0;
+  if (count < 2 || duration <= 0) return { displacement: [0, 0], duration };
+
+  const last = (count - 1) * 3;
+  const displacement: [number, number] = [values[last] - values[0], values[last + 2] - values[2]];
+  for (let key = 0; key < count; key++) {
+    const progress = (times[key] - times[0]) / duration;
+    values[key * 3] -= displacement[0] * progress;
+    values[key * 3 + 2] -= displacement[1] * progress;
+  }
+  return { displacement, duration };
+}
+
+/**
+ * How far the root moves while the clip plays from one time to another.
+ * A later time that is smaller means the clip looped in between.
+ */
+export function getRootDisplacement(motion: RootMotion, from: number, to: number): [number, number] {
+  if (motion.duration <= 0) return [0, 0];
+  const elapsed = to >= from ? to - from : to + motion.duration - from;
+  const share = elapsed / motion.duration;
+  return [motion.displacement[0] * share, motion.displacement[1] * share];
+}
@@ -0,0 +1,49 @@
+import { FakeLLMProvider } from './llmProvider';
+import { extractJson, generateSceneScript } from './sceneGenerator';
+import { Character } from '../types';
+
+const characters: Character[] = [
+  { id: 'c1', name: 'Alex', avatarUrl: 'https://models.readyplayer.me/alex.glb' },
+];
+
+const validScript = {
+  version: 1,
+  characters: [{ id: 'alex', name: 'Alex' }],
+  steps: [{ type: 'clip', at: 0, character: 'alex', animation: 'wave' }],
+};
+
+test('sends the catalog and accepts a fenced JSON reply', async () => {
+  const provider = new FakeLLMProvider(['Here you go:\n```json\n' + JSON.stringify(validScript) + '\n```']);
+  const result = await generateSceneScript(provider, 'Alex waves', characters);
+
+  expect(result.valid).toBe(true);
+  expect(result.attempts).toBe(1);
+  expect(result.script).toEqual(validScript);
+
+  const [system, user] = provider.calls[0];
+  expect(system.content).toContain('- Alex');
+  expect(system.content).toContain('- wave (gesture');
+  expect(user).toEqual({ role: 'user', content: 'Alex waves' });
+});
+
+test('retries with the validation errors until the script is valid', async () => {
+  const broken = { ...validScript, steps: [{ type: 'clip', at: 0, character: 'alex', animation: 'moonwalk' }] };
+  const provider = new FakeLLMProvider([JSON.stringify(broken), JSON.stringify(validScript)]);
+  const result = await generateSceneScript(provider, 'Alex moonwalks', characters);
+
+  expect(result.valid).toBe(true);
+  expect(result.attempts).toBe(2);
+  const retry = provider.calls[1];
+  expect(retry[retry.length - 1].content).toContain("unknown animation 'moonwalk'");
+});
+
+test('gives up after the maximum number of attempts', async () => {
+  const provider = new FakeLLMProvider(['not json']);
+  const result = await generateSceneScript(provider, 'Alex waves', characters, 2);
+
+  expect(result.valid).toBe(false);
+  expect(result.attempts).toBe(2);
+  expect(provider.calls).toHaveLength(2);
+  expect(result.errors[0].message).toMatch(/not valid JSON/);
+  expect(extractJson('no braces here')).toBe('no braces here');
+});
@@ -0,0 +1,122 @@
+// Generates animation scripts from scene descriptions with a chat model.
+// The model gets the clip and character catalog plus the script schema; its reply is
+// parsed and validated, and on failure the validation errors are sent back so it can
+// fix its own script.
+
+import animationScriptSchema from '../data/animationScript.schema.json';
+import { ANIMATIONS, getAnimationClipInfo } from './animationRegistry';
+import { ScriptValidationError, validateAnimationScript } from './animationScript';
+import { EXPRESSIONS } from './facialExpressions';
+import { ChatMessage, LLMProvider } from './llmProvider';
+import { AnimationScript, Character } from '../types';
+
+export interface SceneGenerationResult {
+  valid: boolean;
+  script?: AnimationScript;
+  // Errors from the last attempt when no valid script was produced
+  errors: ScriptValidationError[];
+  attempts: number;
+  // Last raw reply from the model, useful for debugging
+  reply: string;
+}
+
+const DEFAULT_MAX_ATTEMPTS = 3;
+
+/**
+ * System prompt describing the script format and everything the model may use
+ */
+export function buildSystemPrompt(characters: Character[]): string {
+  const clips = ANIMATIONS.map(anim => {
+    const duration = getAnimationClipInfo(anim.id)?.duration;
+    const length = duration ? `, ${duration.toFixed(1)}s` : '';
+    return `- ${anim.id} (${anim.category}, ${anim.loop === 'repeat' ? 'loops' : 'plays once'}${length})`;
+  }).join('\n');
+
+  const names = characters.map(character => `- ${character.name}`).join('\n');
+
+  return [
+    'You write animation scripts for 3D avatars. Reply with a single JSON object and nothing else.',
+    '',
+    'The script must match this JSON Schema:',
+    JSON.stringify(animationScriptSchema),
+    '',
+    'Rules:',
+    '- "characters" lists the characters used; "name" must be one of the available characters, "id" is a short id you choose.',
+    '- "at" is the start time in seconds. Looping clips need a "duration" or "loops", one-shots play once by default.',
+    '- Only use the clip ids and expression ids listed below. Emotion clips already show a matching expression.',
+    '',
+    'Available characters:',
+    names || '- (none)',
+    '',
+    'Available clips:',
+    clips,
+    '',
+    'Available expressions:',
+    EXPRESSIONS.map(expression => `- ${expression.id}`).join('\n'),
+  ].join('\n');
+}
+
+/**
+ * Pull the JSON object out of a reply that may be wrapped in a code fence or prose
+ */
+export function extractJson(reply: string): string {
+  const fenced = reply.match(/```(?:json)?\s*([\s\S]*?)```/);
+  const text = fenced ? fenced[1] : reply;
+  const start = text.indexOf('{');
+  const end = text.lastIndexOf('}');
+  return start >= 0 && end > start ? text.slice(start, end + 1) : text.trim();
+}
+
+function parseReply(reply: string, characters: Character[]) {
+  let data: unknown;
+  try {
+    data = JSON.parse(extractJson(reply));
+  } catch (error) {
+    return {
+      valid: false,
+      errors: [{ path: '/', message: `Reply is not valid JSON: ${(error as Error).message}` }]
+    };
+  }
+  return validateAnimationScript(data, characters);
+}
+
+/**
+ * Ask the provider for a script, retrying with the validation errors until it
+ * produces a valid one or runs out of attempts. Network errors are thrown.
+ */
+export async function generateSceneScript(
+  provider: LLMProvider,
+  description: string,
+  characters: Character[],
+  maxAttempts = DEFAULT_MAX_ATTEMPTS
+): Promise<SceneGenerationResult> {
+  const messages: ChatMessage[] = [
+    { role: 'system', content: buildSystemPrompt(characters) },
+    { role: 'user', content: description },
+  ];
+
+  let reply = '';
+  let errors: ScriptValidationError[] = [];
+
+  for (let attempt = 1; attempt <= maxAttempts; attempt++) {
+    reply = await provider.complete(messages);
+    const result = parseReply(reply, characters);
+
+    if (result.valid && result.script) {
+      return { valid: true, script: result.script, errors: [], attempts: attempt, reply };
+    }
+
+    errors = result.errors;
+    console.warn(`Generated script failed validation (attempt ${attempt}/${maxAttempts}):`, errors);
+
+    messages.push(
+      { role: 'assistant', content: reply },
+      {
+        role: 'user',
+        content: `That script is invalid:\n${errors.map(error => `- ${error.message}`).join('\n')}\nReply with the corrected JSON only.`
+      }
+    );
+  }
+
+  return { valid: false, errors, attempts: maxAttempts, reply };
+}
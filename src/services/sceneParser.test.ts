@@ -0,0 +1,56 @@
+import { SceneParser } from './sceneParser';
+import { getAnimationClipInfo } from './animationRegistry';
+import { validateAnimationScript } from './animationScript';
+import { Character } from '../types';
+
+const characters: Character[] = [
+  { id: 'c1', name: 'Alex', avatarUrl: 'https://models.readyplayer.me/alex.glb' },
+  { id: 'c2', name: 'Sam', avatarUrl: 'https://models.readyplayer.me/sam.glb' },
+];
+
+const parser = new SceneParser(characters);
+
+test('parses sequential and parallel actions into a valid script', () => {
+  const { script, unmatched } = parser.parse('Alex waves, then dances for five seconds while Sam looks confused');
+  const waveEnd = Math.round(getAnimationClipInfo('wave')!.duration * 100) / 100;
+
+  expect(unmatched).toEqual([]);
+  expect(script.characters).toEqual([{ id: 'alex', name: 'Alex' }, { id: 'sam', name: 'Sam' }]);
+  expect(script.steps).toEqual([
+    { type: 'clip', at: 0, character: 'alex', animation: 'wave' },
+    { type: 'clip', at: waveEnd, character: 'alex', animation: 'dance', duration: 5 },
+    { type: 'clip', at: waveEnd, character: 'sam', animation: 'confused' },
+  ]);
+  expect(validateAnimationScript(script, characters).valid).toBe(true);
+});
+
+test('understands synonyms, speech and repeat counts', () => {
+  const { script } = parser.parse('Sam says hi and Alex boogies twice. Sam says "Nice moves!"');
+
+  expect(script.steps.map(step => step.type === 'clip' ? step.animation : step.type)).toEqual(['wave', 'dance', 'speech']);
+  expect(script.steps[0].at).toBe(0);
+  expect(script.steps[1]).toMatchObject({ at: 0, loops: 2 });
+  expect(script.steps[2]).toMatchObject({ character: 'sam', text: 'Nice moves!' });
+});
+
+test('reports the parts it could not map', () => {
+  const { script, unmatched } = parser.parse('Alex juggles, Bob waves and Alex jumps');
+
+  expect(unmatched).toEqual([
+    { text: 'Alex juggles', reason: 'No matching animation' },
+    { text: 'Bob waves', reason: 'Unknown character name' },
+  ]);
+  expect(script.steps).toEqual([{ type: 'clip', at: 0, character: 'alex', animation: 'jump' }]);
+});
+
+test('gives characters whose names make the same id their own ids', () => {
+  const named: Character[] = [
+    { id: 'c3', name: 'Мария', avatarUrl: 'https://models.readyplayer.me/maria.glb' },
+    { id: 'c4', name: '健太', avatarUrl: 'https://models.readyplayer.me/kenta.glb' },
+  ];
+  const { script } = new SceneParser(named).parse('Мария waves and 健太 dances');
+
+  expect(script.characters).toEqual([{ id: 'character', name: 'Мария' }, { id: 'character-2', name: '健太' }]);
+  expect(script.steps.map(step => step.type !== 'camera' && step.character)).toEqual(['character', 'character-2']);
+  expect(validateAnimationScript(script, named).valid).toBe(true);
+});
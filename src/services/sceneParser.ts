@@ -0,0 +1,269 @@
+// Rule-based parser that turns a plain-English scene description into an animation script.
+// Example: "Alex waves, then dances for five seconds while Sam looks confused"
+// Deterministic on purpose - no LLM involved. Anything it can't map is reported back
+// so the user can rephrase.
+
+import { getAnimationClipInfo, isLoopingAnimation } from './animationRegistry';
+import { estimateSpeechDuration } from './animationScript';
+import { AnimationScript, Character, ScriptCharacter, ScriptStep } from '../types';
+
+export interface UnmatchedFragment {
+  text: string;
+  reason: string;
+}
+
+export interface ParsedScene {
+  script: AnimationScript;
+  // Parts of the description that could not be turned into steps
+  unmatched: UnmatchedFragment[];
+}
+
+// How a clause relates in time to the clause before it
+type ClauseRelation = 'start' | 'then' | 'while' | 'and';
+
+interface Clause {
+  text: string;
+  relation: ClauseRelation;
+}
+
+// Phrases that map to clips, most specific first
+const CLIP_SYNONYMS: { pattern: RegExp; animation: string }[] = [
+  { pattern: /\b(walks?|walking|steps?|stepping) back(wards?)?\b/, animation: 'walk_backward' },
+  { pattern: /\b(jogs?|jogging) back(wards?)?\b/, animation: 'jog_backward' },
+  { pattern: /\b(strafes?|strafing|sidesteps?|steps?) (to the )?left\b/, animation: 'strafe_left' },
+  { pattern: /\b(strafes?|strafing|sidesteps?|steps?) (to the )?right\b/, animation: 'strafe_right' },
+  { pattern: /\b(says?|saying) (hi|hello|hey)\b|\b(waves?|waving|greets?|greeting)\b/, animation: 'wave' },
+  { pattern: /\b(dances?|dancing|boogies?|boogying|grooves?|grooving)\b/, animation: 'dance' },
+  { pattern: /\b(sprints?|sprinting|runs?|running|dashes)\b/, animation: 'run' },
+  { pattern: /\b(jogs?|jogging)\b/, animation: 'jog' },
+  { pattern: /\b(walks?|walking|strolls?|strolling)\b/, animation: 'walk' },
+  { pattern: /\b(jumps?|jumping|hops?|hopping|leaps?|leaping)\b/, animation: 'jump' },
+  { pattern: /\b(crouch(es|ing)?|ducks?|ducking|sneaks?|sneaking)\b/, animation: 'crouch' },
+  { pattern: /\b(falls?|falling|trips?|collapses?)\b/, animation: 'fall' },
+  { pattern: /\b(confused|puzzled|baffled|scratch(es)? (his|her|their) head)\b/, animation: 'confused' },
+  { pattern: /\b(surprised|shocked|startled|gasps?)\b/, animation: 'surprised' },
+  { pattern: /\b(happy|smiles?|smiling|cheers?|celebrates?|celebrating)\b/, animation: 'happy' },
+  { pattern: /\b(sad|cries|crying|sulks?|upset)\b/, animation: 'sad' },
+  { pattern: /\b(angry|mad|furious|annoyed|stomps?)\b/, animation: 'angry' },
+  { pattern: /\b(thinks?|thinking|ponders?|pondering|wonders?|considers?)\b/, animation: 'think' },
+  { pattern: /\b(talks?|talking|speaks?|speaking|chats?|chatting|explains?)\b/, animation: 'talk' },
+  { pattern: /\b(idles?|stands?|standing|waits?|waiting|rests?|relaxes?)\b/, animation: 'idle' },
+];
+
+const NUMBER_WORDS: Record<string, number> = {
+  'a': 1, 'an': 1, 'one': 1, 'two': 2, 'three': 3, 'four': 4, 'five': 5, 'six': 6,
+  'seven': 7, 'eight': 8, 'nine': 9, 'ten': 10, 'eleven': 11, 'twelve': 12,
+  'fifteen': 15, 'twenty': 20, 'thirty': 30, 'a couple of': 2, 'a few': 3, 'half a': 0.5,
+};
+
+// Digits may be glued to the unit ("5s"), number words need a space
+const NUMBER_WORD_PATTERN = Object.keys(NUMBER_WORDS).sort((a, b) => b.length - a.length).join('|');
+const NUMBER_PATTERN = `(?:(\\d+(?:\\.\\d+)?)\\s*|(${NUMBER_WORD_PATTERN})\\s+)`;
+const DURATION_PATTERN = new RegExp(`\\bfor ${NUMBER_PATTERN}(seconds?|secs?|s|minutes?|mins?)\\b`);
+const COUNT_PATTERN = new RegExp(`\\b${NUMBER_PATTERN}times\\b|\\b(once|twice)\\b`);
+
+const PRONOUNS = ['he', 'she', 'they', 'it', 'everyone'];
+
+// Separators between clauses: punctuation (group 1) or connecting words (group 2)
+const SEPARATOR_PATTERN = /\s*(?:(,|;|\.(?=\s|$))|\b(and then|after that|afterwards|then|while|meanwhile|and)\b)\s*/gi;
+
+function readNumber(digits: string | undefined, word: string | undefined): number {
+  return digits !== undefined ? Number(digits) : NUMBER_WORDS[word || ''] ?? 1;
+}
+
+function slugify(name: string): string {
+  return name.trim().toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '') || 'character';
+}
+
+// Script id for a character, numbered when another character's name gives the same slug
+function createCharacterId(name: string, characters: ScriptCharacter[]): string {
+  const slug = slugify(name);
+  const taken = new Set(characters.map(character => character.id));
+  let id = slug;
+  for (let suffix = 2; taken.has(id); suffix++) {
+    id = `${slug}-${suffix}`;
+  }
+  return id;
+}
+
+function roundTime(seconds: number): number {
+  return Math.round(seconds * 100) / 100;
+}
+
+export class SceneParser {
+  constructor(private characters: Character[]) {}
+
+  /**
+   * Turn a description into script steps
+   */
+  parse(description: string): ParsedScene {
+    // Pull out quoted speech first so separators inside it are left alone
+    const quotes: string[] = [];
+    const masked = description.replace(/["“]([^"”]*)["”]/g, (match, text) => {
+      quotes.push(text);
+      return `__quote${quotes.length - 1}__`;
+    });
+    const restore = (text: string) => text.replace(/__quote(\d+)__/g, (match, i) => `"${quotes[Number(i)]}"`);
+
+    const scriptCharacters: ScriptCharacter[] = [];
+    const steps: ScriptStep[] = [];
+    const unmatched: UnmatchedFragment[] = [];
+
+    let subject: ScriptCharacter | null = null;
+    let previousStart = 0;
+    let previousEnd = 0;
+    const characterEnds = new Map<string, number>();
+
+    this.splitClauses(masked).forEach(clause => {
+      const lower = clause.text.toLowerCase();
+      const named = this.findCharacter(lower);
+
+      if (named) {
+        let scriptCharacter = scriptCharacters.find(c => c.name === named.name);
+        if (!scriptCharacter) {
+          scriptCharacter = { id: createCharacterId(named.name, scriptCharacters), name: named.name };
+          scriptCharacters.push(scriptCharacter);
+        }
+        subject = scriptCharacter;
+      } else if (this.startsWithUnknownName(clause.text)) {
+        unmatched.push({ text: restore(clause.text), reason: 'Unknown character name' });
+        return;
+      }
+
+      if (!subject) {
+        unmatched.push({ text: restore(clause.text), reason: 'No character mentioned' });
+        return;
+      }
+
+      // Work out when this clause starts
+      const characterEnd = characterEnds.get(subject.id) ?? 0;
+      let at: number;
+      if (clause.relation === 'start') {
+        at = 0;
+      } else if (clause.relation === 'then') {
+        at = Math.max(previousEnd, characterEnd);
+      } else if (clause.relation === 'while') {
+        at = previousStart;
+      } else {
+        // "and" or a comma: another character joins in, the same character carries on
+        at = Math.max(characterEnd, previousStart);
+      }
+
+      const step = this.buildStep(lower, subject.id, roundTime(at), quotes);
+      if (!step) {
+        unmatched.push({ text: restore(clause.text), reason: 'No matching animation' });
+        return;
+      }
+
+      steps.push(step.step);
+      previousStart = at;
+      previousEnd = at + step.duration;
+      characterEnds.set(subject.id, previousEnd);
+    });
+
+    return {
+      script: {
+        version: 1,
+        title: description.trim().slice(0, 60),
+        characters: scriptCharacters,
+        steps: steps.sort((a, b) => a.at - b.at),
+      },
+      unmatched,
+    };
+  }
+
+  // Split on punctuation and connecting words, remembering how each clause connects
+  private splitClauses(text: string): Clause[] {
+    const clauses: Clause[] = [];
+    let relation: ClauseRelation = 'start';
+    let lastIndex = 0;
+    let match: RegExpExecArray | null;
+
+    const pushClause = (end: number) => {
+      const clauseText = text.slice(lastIndex, end).trim();
+      if (clauseText) {
+        clauses.push({ text: clauseText, relation: clauses.length === 0 ? 'start' : relation });
+        relation = 'and';
+      }
+    };
+
+    SEPARATOR_PATTERN.lastIndex = 0;
+    while ((match = SEPARATOR_PATTERN.exec(text)) !== null) {
+      pushClause(match.index);
+      lastIndex = match.index + match[0].length;
+
+      // The strongest separator between two clauses wins: then > while > and
+      const word = (match[2] || '').toLowerCase();
+      if (word === 'while' || word === 'meanwhile') {
+        if (relation !== 'then') relation = 'while';
+      } else if (word && word !== 'and') {
+        relation = 'then';
+      } else if (match[1] === '.' || match[1] === ';') {
+        relation = 'then';
+      }
+    }
+    pushClause(text.length);
+
+    return clauses;
+  }
+
+  // Longest character name the clause starts with
+  private findCharacter(lower: string): Character | undefined {
+    return [...this.characters]
+      .sort((a, b) => b.name.length - a.name.length)
+      .find(character => {
+        const name = character.name.trim().toLowerCase();
+        return name.length > 0 && (lower === name || lower.startsWith(name + ' ') || lower.startsWith(name + "'"));
+      });
+  }
+
+  // "Bob waves" when there is no Bob - better to report it than give the wave to someone else
+  private startsWithUnknownName(text: string): boolean {
+    const firstWord = text.match(/^[A-Z][a-z]+\b/)?.[0].toLowerCase();
+    return !!firstWord && !PRONOUNS.includes(firstWord) && !this.findAction(firstWord);
+  }
+
+  private findAction(lower: string): string | undefined {
+    return CLIP_SYNONYMS.find(synonym => synonym.pattern.test(lower))?.animation;
+  }
+
+  private buildStep(
+    lower: string,
+    character: string,
+    at: number,
+    quotes: string[]
+  ): { step: ScriptStep; duration: number } | null {
+    const durationMatch = lower.match(DURATION_PATTERN);
+    const explicitDuration = durationMatch
+      ? readNumber(durationMatch[1], durationMatch[2]) * (durationMatch[3].startsWith('m') ? 60 : 1)
+      : undefined;
+
+    // Speech: says "..."
+    const quoteMatch = lower.match(/__quote(\d+)__/);
+    if (quoteMatch) {
+      const text = quotes[Number(quoteMatch[1])];
+      const step: ScriptStep = { type: 'speech', at, character, text };
+      if (explicitDuration !== undefined) step.duration = explicitDuration;
+      return { step, duration: explicitDuration ?? estimateSpeechDuration(text) };
+    }
+
+    const animation = this.findAction(lower);
+    if (!animation) return null;
+
+    const countMatch = lower.match(COUNT_PATTERN);
+    let loops: number | undefined;
+    if (countMatch) {
+      loops = countMatch[3] === 'once' ? 1 : countMatch[3] === 'twice' ? 2 : Math.round(readNumber(countMatch[1], countMatch[2]));
+    }
+
+    const step: ScriptStep = { type: 'clip', at, character, animation };
+    if (explicitDuration !== undefined) {
+      step.duration = explicitDuration;
+    } else if (loops !== undefined && (loops > 1 || isLoopingAnimation(animation))) {
+      step.loops = loops;
+    }
+
+    const clipDuration = getAnimationClipInfo(animation)?.duration ?? 2;
+    return { step, duration: explicitDuration ?? clipDuration * (loops ?? 1) };
+  }
+}
@@ -0,0 +1,40 @@
+import { registerAvatarController } from './avatarControllers';
+import { createFakeController } from './fakeAvatarController';
+import { ScriptRunner } from './scriptRunner';
+import { AnimationScript } from '../types';
+
+beforeEach(() => {
+  jest.useFakeTimers();
+});
+
+afterEach(() => {
+  jest.useRealTimers();
+});
+
+test('stopping a script sends its characters back to idle', () => {
+  const fake = createFakeController('char-lee');
+  const unregister = registerAvatarController(fake.controller);
+  const script: AnimationScript = {
+    version: 1,
+    characters: [{ id: 'lee', name: 'Lee' }],
+    steps: [
+      { type: 'clip', at: 0, character: 'lee', animation: 'dance', duration: 8 },
+      { type: 'clip', at: 10, character: 'lee', animation: 'wave' }
+    ]
+  };
+
+  const runner = new ScriptRunner(script, [{ id: 'char-lee', name: 'Lee', avatarUrl: '' }]);
+  runner.play();
+  jest.advanceTimersByTime(1000);
+  expect(fake.played).toEqual(['dance']);
+
+  runner.stop();
+  expect(fake.played).toEqual(['dance', 'idle']);
+  expect(runner.isPlaying()).toBe(false);
+
+  // Nothing more from the script
+  jest.advanceTimersByTime(20000);
+  expect(fake.played).toEqual(['dance', 'idle']);
+
+  unregister();
+});
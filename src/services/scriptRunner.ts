@@ -0,0 +1,197 @@
+// Plays a validated animation script against the app's characters.
+// Each step fires at its 'at' time; clips and speech go through the character's
+// sequencer, expressions, look targets and movement go to the avatar and camera cues go to the camera rig.
+
+import { estimateSpeechDuration, findAppCharacter, getScriptDuration } from './animationScript';
+import { getAnimationSequencer } from './animationSequencer';
+import { getAvatarController } from './avatarControllers';
+import { sendCameraCue } from './cameraCues';
+import { speakText } from './textLipSync';
+import { AnimationScript, Character, LookAtTarget, ScriptLookStep, ScriptStep } from '../types';
+
+export interface ScriptRunnerEvents {
+  onStep?: (step: ScriptStep, index: number) => void;
+  // Called with the line a character starts saying, and with null when they stop
+  onSpeech?: (characterId: string, text: string | null) => void;
+  onEnd?: () => void;
+}
+
+export class ScriptRunner {
+  private timers: ReturnType<typeof setTimeout>[] = [];
+  private characterIds = new Map<string, string>();
+  private activeLines = new Map<string, ScriptStep>();
+  private activeLooks = new Map<string, ScriptStep>();
+  private activeMoves = new Map<string, ScriptStep>();
+  private playing = false;
+
+  constructor(
+    private script: AnimationScript,
+    appCharacters: Character[],
+    private events: ScriptRunnerEvents = {}
+  ) {
+    // Map script character ids to app character ids
+    script.characters.forEach(character => {
+      const appCharacter = findAppCharacter(appCharacters, character.name);
+      if (appCharacter) {
+        this.characterIds.set(character.id, appCharacter.id);
+      }
+    });
+  }
+
+  play(): void {
+    this.stop();
+    this.playing = true;
+
+    this.script.steps.forEach((step, index) => {
+      this.schedule(step.at, () => {
+        this.runStep(step);
+        this.events.onStep?.(step, index);
+      });
+    });
+
+    this.schedule(getScriptDuration(this.script), () => {
+      this.playing = false;
+      this.events.onEnd?.();
+    });
+  }
+
+  stop(): void {
+    this.timers.forEach(timer => clearTimeout(timer));
+    this.timers = [];
+    this.activeLines.clear();
+    this.activeLooks.clear();
+    this.activeMoves.clear();
+
+    if (this.playing) {
+      this.playing = false;
+      this.characterIds.forEach(characterId => {
+        // Back to idle - looping clips and talk loops would otherwise outlive the script
+        const sequencer = getAnimationSequencer(characterId);
+        sequencer.clear();
+        sequencer.enqueue({ animation: 'idle' });
+        getAvatarController(characterId)?.setLipSync(null);
+        getAvatarController(characterId)?.setExpression(null);
+        getAvatarController(characterId)?.setLookAt(null);
+        getAvatarController(characterId)?.setLocomotion(null);
+        this.events.onSpeech?.(characterId, null);
+      });
+    }
+  }
+
+  isPlaying(): boolean {
+    return this.playing;
+  }
+
+  getDuration(): number {
+    return getScriptDuration(this.script);
+  }
+
+  private resolveLookTarget(target: ScriptLookStep['target']): LookAtTarget {
+    if (Array.isArray(target)) return { type: 'point', position: target };
+    if (target === 'camera' || target === 'ahead') return { type: target };
+    const characterId = this.characterIds.get(target);
+    return characterId ? { type: 'character', characterId } : { type: 'ahead' };
+  }
+
+  private schedule(seconds: number, callback: () => void): void {
+    this.timers.push(setTimeout(callback, seconds * 1000));
+  }
+
+  private runStep(step: ScriptStep): void {
+    if (step.type === 'camera') {
+      sendCameraCue({ position: step.position, target: step.target, transition: step.transition });
+      return;
+    }
+
+    const characterId = this.characterIds.get(step.character);
+    if (!characterId) {
+      console.warn(`Script character '${step.character}' is not in the character list, skipping step`);
+      return;
+    }
+
+    switch (step.type) {
+      case 'clip': {
+        // A new clip replaces whatever this character was doing
+        const sequencer = getAnimationSequencer(characterId);
+        sequencer.clear();
+        sequencer.enqueue({
+          animation: step.animation,
+          duration: step.duration,
+          loops: step.loops,
+          blendTime: step.blendTime
+        });
+        break;
+      }
+
+      case 'speech': {
+        // Mouth the line's visemes over the step's length
+        const duration = step.duration ?? estimateSpeechDuration(step.text);
+        speakText(characterId, step.text, { duration, animation: step.animation });
+
+        this.activeLines.set(characterId, step);
+        this.events.onSpeech?.(characterId, step.text);
+        this.schedule(duration, () => {
+          // Only clear the caption if the character hasn't started another line since
+          if (this.activeLines.get(characterId) === step) {
+            this.activeLines.delete(characterId);
+            this.events.onSpeech?.(characterId, null);
+          }
+        });
+        break;
+      }
+
+      case 'expression': {
+        const controller = getAvatarController(characterId);
+        if (!controller) {
+          console.warn(`Character '${step.character}' is not on screen, skipping expression '${step.expression}'`);
+          break;
+        }
+        controller.setExpression(step.expression, { intensity: step.intensity, duration: step.duration });
+        break;
+      }
+
+      case 'look': {
+        const controller = getAvatarController(characterId);
+        if (!controller) {
+          console.warn(`Character '${step.character}' is not on screen, skipping look step`);
+          break;
+        }
+        controller.setLookAt(this.resolveLookTarget(step.target));
+        this.activeLooks.set(characterId, step);
+        if (step.duration !== undefined) {
+          this.schedule(step.duration, () => {
+            // Back to the character's own look-at setting, unless another look step took over
+            if (this.activeLooks.get(characterId) === step) {
+              this.activeLooks.delete(characterId);
+              controller.setLookAt(null);
+            }
+          });
+        }
+        break;
+      }
+
+      case 'move': {
+        const controller = getAvatarController(characterId);
+        if (!controller) {
+          console.warn(`Character '${step.character}' is not on screen, skipping move step`);
+          break;
+        }
+        // Queued clips would take the character over again
+        getAnimationSequencer(characterId).clear();
+        const direction = ((step.direction ?? 0) * Math.PI) / 180;
+        controller.setLocomotion([Math.sin(direction) * step.speed, Math.cos(direction) * step.speed]);
+        this.activeMoves.set(characterId, step);
+        if (step.duration !== undefined) {
+          this.schedule(step.duration, () => {
+            // Stop, unless another move step took over
+            if (this.activeMoves.get(characterId) === step) {
+              this.activeMoves.delete(characterId);
+              controller.setLocomotion(null);
+            }
+          });
+        }
+        break;
+      }
+    }
+  }
+}
@@ -0,0 +1,91 @@
+import * as THREE from 'three';
+import { mapBoneNames, retargetClip, RPM_BONES } from './skeletonRetarget';
+
+test('maps Mixamo and RPM names straight across', () => {
+  expect(mapBoneNames(['mixamorig:Hips', 'mixamorigLeftArm', 'mixamorig:RightHandIndex2'])).toEqual({
+    'mixamorig:Hips': 'Hips',
+    mixamorigLeftArm: 'LeftArm',
+    'mixamorig:RightHandIndex2': 'RightHandIndex2'
+  });
+  const rpm = mapBoneNames(RPM_BONES);
+  expect(RPM_BONES.every(bone => rpm[bone] === bone)).toBe(true);
+});
+
+test('maps BVH, Biped and Blender style names', () => {
+  expect(mapBoneNames(['Hips', 'Chest', 'LeftHip', 'LeftKnee', 'LeftAnkle', 'RightWrist'])).toEqual({
+    Hips: 'Hips',
+    Chest: 'Spine1',
+    LeftHip: 'LeftUpLeg',
+    LeftKnee: 'LeftLeg',
+    LeftAnkle: 'LeftFoot',
+    RightWrist: 'RightHand'
+  });
+  expect(mapBoneNames(['Bip01 Pelvis', 'Bip01 L Thigh', 'Bip01 R Clavicle'])).toEqual({
+    'Bip01 Pelvis': 'Hips',
+    'Bip01 L Thigh': 'LeftUpLeg',
+    'Bip01 R Clavicle': 'RightShoulder'
+  });
+  expect(mapBoneNames(['upper_arm.L', 'forearm.R', 'shin.L'])).toEqual({
+    'upper_arm.L': 'LeftArm',
+    'forearm.R': 'RightForeArm',
+    'shin.L': 'LeftLeg'
+  });
+});
+
+test('a shoulder below a collar bone is the upper arm, and the first match wins', () => {
+  expect(mapBoneNames(['LeftCollar', 'LeftShoulder', 'LeftElbow'])).toEqual({
+    LeftCollar: 'LeftShoulder',
+    LeftShoulder: 'LeftArm',
+    LeftElbow: 'LeftForeArm'
+  });
+  expect(mapBoneNames(['LowerBack', 'Spine', 'LHipJoint'])).toEqual({ LowerBack: 'Spine' });
+});
+
+test('turns target bones by the same world rotation as the source, from their own rest pose', () => {
+  // Source in centimetres; the target in metres with its spine rolled at rest
+  const sourceRoot = new THREE.Group();
+  const sourceHips = new THREE.Bone();
+  sourceHips.name = 'mixamorigHips';
+  sourceHips.position.set(0, 100, 0);
+  const sourceSpine = new THREE.Bone();
+  sourceSpine.name = 'mixamorigSpine';
+  sourceSpine.position.set(0, 10, 0);
+  const sourceFoot = new THREE.Bone();
+  sourceFoot.name = 'mixamorigLeftFoot';
+  sourceFoot.position.set(10, -90, 0);
+  sourceHips.add(sourceSpine, sourceFoot);
+  sourceRoot.add(sourceHips);
+
+  const target = new THREE.Group();
+  const armature = new THREE.Group();
+  const targetHips = new THREE.Bone();
+  targetHips.name = 'Hips';
+  targetHips.position.set(0, 1, 0);
+  const targetSpine = new THREE.Bone();
+  targetSpine.name = 'Spine';
+  targetSpine.position.set(0, 0.1, 0);
+  targetSpine.quaternion.setFromAxisAngle(new THREE.Vector3(0, 0, 1), 0.3);
+  const targetFoot = new THREE.Bone();
+  targetFoot.name = 'LeftFoot';
+  targetFoot.position.set(0.1, -0.9, 0);
+  targetHips.add(targetSpine, targetFoot);
+  armature.add(targetHips);
+  target.add(armature);
+
+  // Spine turns a quarter round Y while the hips step 50cm forward
+  const turned = new THREE.Quaternion().setFromAxisAngle(new THREE.Vector3(0, 1, 0), Math.PI / 2);
+  const clip = new THREE.AnimationClip('test', 1, [
+    new THREE.QuaternionKeyframeTrack('mixamorigSpine.quaternion', [0, 1], [0, 0, 0, 1, ...turned.toArray()]),
+    new THREE.VectorKeyframeTrack('mixamorigHips.position', [0, 1], [0, 100, 0, 0, 100, 50])
+  ]);
+
+  const result = retargetClip({ root: sourceRoot, clip }, target, { name: 'test', frameRate: 10 });
+  const spine = result.tracks.find(track => track.name === 'Spine.quaternion')!;
+  const last = new THREE.Quaternion().fromArray(spine.values, spine.values.length - 4);
+  const expected = turned.clone().multiply(targetSpine.quaternion);
+  expect(Math.abs(last.dot(expected))).toBeCloseTo(1);
+
+  // Hips 90cm above the feet map to the target's 0.9m, so 50cm forward becomes 0.5m
+  const hips = result.tracks.find(track => track.name === 'Hips.position')!;
+  expect(Array.from(hips.values.slice(-3)).map(value => Number(value.toFixed(3)))).toEqual([0, 1, 0.5]);
+});
@@ -0,0 +1,246 @@
+// Retargeting of imported mocap onto the Ready Player Me skeleton.
+// Source bones are matched to RPM bones by name (Mixamo, BVH, 3ds Max Biped, Unreal and
+// Blender conventions), then every frame each matched bone is given the same world-space
+// rotation away from its rest pose as the source bone. Both skeletons are assumed to rest in
+// a T-pose facing +Z, which holds for Mixamo, most BVH mocap and RPM avatars.
+
+import * as THREE from 'three';
+
+// RPM skeleton, parents before children
+export const RPM_BONES = [
+  'Hips', 'Spine', 'Spine1', 'Spine2', 'Neck', 'Head',
+  ...(['Left', 'Right'] as const).flatMap(side => [
+    `${side}Shoulder`, `${side}Arm`, `${side}ForeArm`, `${side}Hand`,
+    ...['Thumb', 'Index', 'Middle', 'Ring', 'Pinky'].flatMap(finger => [1, 2, 3].map(joint => `${side}Hand${finger}${joint}`))
+  ]),
+  ...(['Left', 'Right'] as const).flatMap(side => [`${side}UpLeg`, `${side}Leg`, `${side}Foot`, `${side}ToeBase`])
+];
+
+// Other names for each part, lower case without separators
+const CENTER_ALIASES: Record<string, string[]> = {
+  Hips: ['hips', 'hip', 'pelvis'],
+  Spine: ['spine', 'abdomen', 'lowerback', 'spine01'],
+  Spine1: ['spine1', 'chest', 'spine02'],
+  Spine2: ['spine2', 'chest2', 'upperchest', 'spine03'],
+  Neck: ['neck', 'neck01'],
+  Head: ['head']
+};
+
+const SIDE_ALIASES: Record<string, string[]> = {
+  Shoulder: ['shoulder', 'collar', 'clavicle'],
+  Arm: ['arm', 'upperarm', 'uparm'],
+  ForeArm: ['forearm', 'lowerarm', 'elbow'],
+  Hand: ['hand', 'wrist'],
+  UpLeg: ['upleg', 'thigh', 'upperleg', 'hip'],
+  Leg: ['leg', 'knee', 'calf', 'shin', 'lowerleg'],
+  Foot: ['foot', 'ankle'],
+  ToeBase: ['toebase', 'toe', 'toes', 'ball'],
+  ...Object.fromEntries(['Thumb', 'Index', 'Middle', 'Ring', 'Pinky'].flatMap(finger => [1, 2, 3].map(joint => {
+    const names = finger === 'Pinky' ? ['pinky', 'little'] : [finger.toLowerCase()];
+    return [`Hand${finger}${joint}`, names.flatMap(name => [`hand${name}${joint}`, `${name}${joint}`, `finger${name}${joint}`])];
+  })))
+};
+
+const SIDES: { side: 'Left' | 'Right'; names: string[] }[] = [
+  { side: 'Left', names: ['left', 'l'] },
+  { side: 'Right', names: ['right', 'r'] }
+];
+
+// 'mixamorig:LeftArm', 'Bip01 L UpperArm', 'upperarm_l' -> 'leftarm', 'lupperarm', 'upperarml'
+function normalizeBoneName(name: string): string {
+  return name
+    .replace(/^.*[:|]/, '')
+    .replace(/^mixamorig\d*/i, '')
+    .toLowerCase()
+    .replace(/[^a-z0-9]/g, '')
+    .replace(/^(bip0?1|biped)/, '');
+}
+
+// RPM bone for one name, or null. Where a collar bone exists its 'shoulder' is the upper arm.
+function findRpmBone(key: string, collarSides: Set<string>): string | null {
+  const center = Object.keys(CENTER_ALIASES).find(bone => CENTER_ALIASES[bone].includes(key));
+  if (center) return center;
+
+  for (const { side, names } of SIDES) {
+    for (const [part, aliases] of Object.entries(SIDE_ALIASES)) {
+      const matches = aliases.some(alias => names.some(prefix => key === prefix + alias || key === alias + prefix));
+      if (!matches) continue;
+      if (part === 'Shoulder' && key.includes('shoulder') && collarSides.has(side)) return `${side}Arm`;
+      return `${side}${part}`;
+    }
+  }
+  return null;
+}
+
+/**
+ * Match source bone names to RPM bones. The first source bone matching an RPM bone wins.
+ * Returns source name -> RPM bone name for the bones that matched.
+ */
+export function mapBoneNames(names: string[]): Record<string, string> {
+  const keys = names.map(normalizeBoneName);
+  const collarSides = new Set(SIDES
+    .filter(({ names: prefixes }) => keys.some(key => ['collar', 'clavicle'].some(part => prefixes.some(p => key === p + part || key === part + p))))
+    .map(({ side }) => side));
+
+  const mapping: Record<string, string> = {};
+  const taken = new Set<string>();
+  names.forEach((name, index) => {
+    const bone = findRpmBone(keys[index], collarSides);
+    if (bone && !taken.has(bone)) {
+      mapping[name] = bone;
+      taken.add(bone);
+    }
+  });
+  return mapping;
+}
+
+// 'Hips.quaternion', '.bones[Hips].quaternion' and 'Armature/Hips.quaternion' -> ['Hips', 'quaternion']
+function parseTrack(name: string): [string, string] {
+  const parsed = THREE.PropertyBinding.parseTrackName(name);
+  const node = parsed.objectName === 'bones' ? String(parsed.objectIndex) : parsed.nodeName;
+  return [node, parsed.propertyName];
+}
+
+/**
+ * Whether a clip already animates the RPM skeleton by name, so it can be used as it is
+ */
+export function isRpmClip(clip: THREE.AnimationClip): boolean {
+  return clip.tracks.length > 0 && clip.tracks.every(track => RPM_BONES.includes(parseTrack(track.name)[0]));
+}
+
+export interface RetargetOptions {
+  name: string;
+  // Frames per second to sample the source at
+  frameRate?: number;
+}
+
+const DEFAULT_FRAME_RATE = 30;
+
+// Height of the hips above the lowest bone, for scaling hips movement between skeletons
+function getHipsHeight(bones: THREE.Object3D[], hips: THREE.Object3D): number {
+  const position = new THREE.Vector3();
+  const hipsY = hips.getWorldPosition(position).y;
+  const lowest = Math.min(...bones.map(bone => bone.getWorldPosition(position).y));
+  return hipsY - lowest;
+}
+
+/**
+ * Retarget a clip playing on a source hierarchy onto an RPM avatar's skeleton.
+ * The target is only read for its rest pose. Throws when either skeleton has no hips.
+ */
+export function retargetClip(
+  source: { root: THREE.Object3D; clip: THREE.AnimationClip },
+  target: THREE.Object3D,
+  options: RetargetOptions
+): THREE.AnimationClip {
+  const { root, clip: sourceClip } = source;
+  const frameRate = options.frameRate ?? DEFAULT_FRAME_RATE;
+
+  // Track names the mixer can bind to the source hierarchy's bones
+  const clip = new THREE.AnimationClip(sourceClip.name, sourceClip.duration, sourceClip.tracks
+    .map(track => {
+      const [node, property] = parseTrack(track.name);
+      const copy = track.clone();
+      copy.name = `${node}.${property}`;
+      return copy;
+    })
+    .filter(track => /\.(quaternion|position)$/.test(track.name)));
+  if (clip.duration <= 0) throw new Error('The file has no animation');
+
+  const sourceObjects: THREE.Object3D[] = [];
+  root.traverse(object => {
+    if (object.name) sourceObjects.push(object);
+  });
+  const mapping = mapBoneNames(sourceObjects.map(object => object.name));
+  const sourceBones = new Map<string, THREE.Object3D>();
+  sourceObjects.forEach(object => {
+    const bone = mapping[object.name];
+    if (bone && !sourceBones.has(bone)) sourceBones.set(bone, object);
+  });
+
+  const targetBones = RPM_BONES
+    .map(name => target.getObjectByName(name))
+    .filter((bone): bone is THREE.Object3D => !!bone);
+  const sourceHips = sourceBones.get('Hips');
+  const targetHips = target.getObjectByName('Hips');
+  if (!sourceHips) throw new Error('No hips bone found in the imported skeleton');
+  if (!targetHips?.parent) throw new Error('The avatar has no Hips bone to retarget onto');
+
+  // Rest poses
+  root.updateMatrixWorld(true);
+  target.updateMatrixWorld(true);
+  const sourceRest = new Map<string, THREE.Quaternion>();
+  sourceBones.forEach((bone, name) => sourceRest.set(name, bone.getWorldQuaternion(new THREE.Quaternion()).invert()));
+  const targetRest = new Map(targetBones.map(bone => [bone.name, bone.getWorldQuaternion(new THREE.Quaternion())]));
+  const targetHipsRest = targetHips.getWorldPosition(new THREE.Vector3());
+  const hipsParentInverse = targetHips.parent.matrixWorld.clone().invert();
+  const targetArmature = targetHips.parent.getWorldQuaternion(new THREE.Quaternion());
+
+  // Played once and held, so the last frame isn't wrapped back to the first
+  const mixer = new THREE.AnimationMixer(root);
+  const action = mixer.clipAction(clip);
+  action.setLoop(THREE.LoopOnce, 1);
+  action.clampWhenFinished = true;
+  action.play();
+
+  const frameCount = Math.max(2, Math.ceil(clip.duration * frameRate) + 1);
+  const times = new Float32Array(frameCount);
+  const rotations = new Map(targetBones.map(bone => [bone.name, new Float32Array(frameCount * 4)]));
+  const hipsPositions = new Float32Array(frameCount * 3);
+
+  const world = new Map<string, THREE.Quaternion>();
+  const worldRotation = new THREE.Quaternion();
+  const local = new THREE.Quaternion();
+  const previous = new THREE.Quaternion();
+  const hipsStart = new THREE.Vector3();
+  const hipsNow = new THREE.Vector3();
+  let hipsScale = 1;
+
+  for (let frame = 0; frame < frameCount; frame++) {
+    const time = Math.min(clip.duration, frame / frameRate);
+    times[frame] = time;
+    mixer.setTime(time);
+    root.updateMatrixWorld(true);
+
+    // Parents come first, so each bone's parent world rotation is known
+    targetBones.forEach(bone => {
+      const parentWorld = (bone.parent && world.get(bone.parent.name)) || targetArmature;
+      const sourceBone = sourceBones.get(bone.name);
+      if (sourceBone) {
+        sourceBone.getWorldQuaternion(worldRotation).multiply(sourceRest.get(bone.name)!).multiply(targetRest.get(bone.name)!);
+        local.copy(parentWorld).invert().multiply(worldRotation);
+      } else {
+        local.copy(bone.quaternion);
+        worldRotation.copy(parentWorld).multiply(local);
+      }
+      world.set(bone.name, (world.get(bone.name) ?? new THREE.Quaternion()).copy(worldRotation));
+
+      // Keep neighbouring keys on the same side so interpolation takes the short way
+      const values = rotations.get(bone.name)!;
+      if (frame > 0) {
+        previous.fromArray(values, (frame - 1) * 4);
+        if (previous.dot(local) < 0) local.set(-local.x, -local.y, -local.z, -local.w);
+      }
+      local.toArray(values, frame * 4);
+    });
+
+    // Hips move by the source's movement since the first frame, scaled to the avatar's size
+    sourceHips.getWorldPosition(hipsNow);
+    if (frame === 0) {
+      hipsStart.copy(hipsNow);
+      const sourceHeight = getHipsHeight(Array.from(sourceBones.values()), sourceHips);
+      const targetHeight = getHipsHeight(targetBones, targetHips);
+      hipsScale = sourceHeight > 0 ? targetHeight / sourceHeight : 1;
+    }
+    hipsNow.sub(hipsStart).multiplyScalar(hipsScale).add(targetHipsRest).applyMatrix4(hipsParentInverse);
+    hipsNow.toArray(hipsPositions, frame * 3);
+  }
+
+  mixer.stopAllAction();
+  mixer.uncacheRoot(root);
+
+  const tracks: THREE.KeyframeTrack[] = [new THREE.VectorKeyframeTrack('Hips.position', times, hipsPositions)];
+  // Bones the source doesn't have hold their rest pose, so the bones below them still line up
+  rotations.forEach((values, name) => tracks.push(new THREE.QuaternionKeyframeTrack(`${name}.quaternion`, times, values)));
+  return new THREE.AnimationClip(options.name, clip.duration, tracks);
+}
@@ -0,0 +1,58 @@
+import { LiveTimelineLipSync, pickTalkAnimation } from './speechSynthesis';
+import { textToVisemes } from './textLipSync';
+
+let clock = 0;
+
+beforeEach(() => {
+  clock = 0;
+  jest.spyOn(performance, 'now').mockImplementation(() => clock * 1000);
+});
+
+afterEach(() => {
+  jest.restoreAllMocks();
+});
+
+test('picks the talk clip from the line', () => {
+  expect(pickTalkAnimation('Watch out!')).toBe('talk3');
+  expect(pickTalkAnimation('Are you sure? ')).toBe('talk2');
+  expect(pickTalkAnimation('one two three four five six seven eight nine ten eleven twelve thirteen fourteen fifteen sixteen')).toBe('talk5');
+  expect(pickTalkAnimation('Good morning')).toBe('talk');
+  expect(pickTalkAnimation('Good morning everyone')).toBe('talk4');
+});
+
+test('places each word at the time it is spoken', () => {
+  const lipSync = new LiveTimelineLipSync(1);
+  lipSync.start();
+  expect(lipSync.hasCues()).toBe(false);
+
+  clock = 0.5;
+  lipSync.addWord('Bob');
+  expect(lipSync.hasCues()).toBe(true);
+  expect(lipSync.sample()).toHaveProperty('PP');
+
+  // Nothing before the word started
+  clock = 0.4;
+  expect(lipSync.sample()).toEqual({});
+
+  lipSync.end();
+  clock = 0.5;
+  expect(lipSync.sample()).toBeNull();
+});
+
+test('cuts off a word that overruns the next one', () => {
+  const lipSync = new LiveTimelineLipSync(1);
+  lipSync.start();
+  const hello = textToVisemes('hello');
+  const cut = hello[1].start + 0.01;
+  expect(hello[hello.length - 1].end).toBeGreaterThan(cut);
+
+  lipSync.addWord('hello');
+  clock = cut;
+  lipSync.addWord('Bob');
+
+  // The next word takes over where it starts, not the rest of hello
+  expect(lipSync.sample()).toHaveProperty('PP');
+  // Hello's start is kept
+  clock = hello[0].start + 0.01;
+  expect(lipSync.sample()).toHaveProperty(hello[0].viseme);
+});
@@ -0,0 +1,173 @@
+// Speaks typed text aloud with the browser's Web Speech API.
+// Word boundary events place each word's visemes on the avatar as it is spoken, so
+// the mouth follows the real voice. Voices without boundary events fall back to the
+// whole line's text timeline from the start event.
+
+import { getAnimationSequencer } from './animationSequencer';
+import { getAvatarController } from './avatarControllers';
+import { textToVisemes } from './textLipSync';
+import { sampleVisemeTimeline } from './visemes';
+import { Character, CharacterVoice, LipSyncSource, VisemeCue } from '../types';
+
+export const DEFAULT_VOICE: CharacterVoice = { rate: 1, pitch: 1 };
+
+// Talk clip length while speaking. The real length isn't known up front, so the clip is
+// given an hour and cut short by the end event clearing the queue.
+const UNTIL_SPEECH_ENDS = 3600;
+
+export interface SpeechPlayback {
+  stop: () => void;
+  // Resolves when the speech ends (or is stopped)
+  done: Promise<void>;
+}
+
+export function isSpeechSynthesisSupported(): boolean {
+  return typeof window !== 'undefined' && 'speechSynthesis' in window;
+}
+
+/**
+ * Installed voices. Some browsers load them asynchronously, so wait for voiceschanged.
+ */
+export function getVoices(): Promise<SpeechSynthesisVoice[]> {
+  if (!isSpeechSynthesisSupported()) return Promise.resolve([]);
+
+  const voices = window.speechSynthesis.getVoices();
+  if (voices.length > 0) return Promise.resolve(voices);
+
+  return new Promise(resolve => {
+    const handleVoicesChanged = () => {
+      window.speechSynthesis.removeEventListener('voiceschanged', handleVoicesChanged);
+      resolve(window.speechSynthesis.getVoices());
+    };
+    window.speechSynthesis.addEventListener('voiceschanged', handleVoicesChanged);
+    // Browsers without any voices never fire the event
+    setTimeout(handleVoicesChanged, 2000);
+  });
+}
+
+/**
+ * Talk clip that suits the line: lively for exclamations, questioning for questions,
+ * the long gesturing clip for long lines, otherwise one of the calmer two
+ */
+export function pickTalkAnimation(text: string): string {
+  const words = text.trim().split(/\s+/).filter(Boolean).length;
+  if (/!\s*$/.test(text)) return 'talk3';
+  if (/\?\s*$/.test(text)) return 'talk2';
+  if (words > 15) return 'talk5';
+  return words % 2 === 0 ? 'talk' : 'talk4';
+}
+
+/**
+ * Lip sync source whose timeline grows as words are spoken
+ */
+export class LiveTimelineLipSync implements LipSyncSource {
+  private cues: VisemeCue[] = [];
+  private startedAt = performance.now();
+  private ended = false;
+
+  constructor(private rate: number) {}
+
+  // The voice may take a moment to start after speak() is called
+  start(): void {
+    this.startedAt = performance.now();
+  }
+
+  // Seconds since the speech started
+  now(): number {
+    return (performance.now() - this.startedAt) / 1000;
+  }
+
+  // Place a word's visemes at the current time, cutting off the previous word if it overruns
+  addWord(word: string): void {
+    const time = this.now();
+    this.cues = this.cues
+      .filter(cue => cue.start < time)
+      .map(cue => (cue.end > time ? { ...cue, end: time } : cue));
+    textToVisemes(word, { rate: this.rate }).forEach(cue => {
+      this.cues.push({ ...cue, start: cue.start + time, end: cue.end + time });
+    });
+  }
+
+  addLine(text: string): void {
+    this.cues = [];
+    this.addWord(text);
+  }
+
+  hasCues(): boolean {
+    return this.cues.length > 0;
+  }
+
+  end(): void {
+    this.ended = true;
+  }
+
+  sample() {
+    return this.ended ? null : sampleVisemeTimeline(this.cues, this.now());
+  }
+}
+
+/**
+ * Speak a line with the character's voice: the talk clip plays while the browser
+ * speaks, the mouth follows the words and the character returns to idle at the end
+ */
+export function speakAloud(character: Character, text: string): SpeechPlayback {
+  const voice = { ...DEFAULT_VOICE, ...character.voice };
+  const utterance = new SpeechSynthesisUtterance(text);
+  utterance.rate = voice.rate;
+  utterance.pitch = voice.pitch;
+  const selectedVoice = window.speechSynthesis.getVoices().find(v => v.voiceURI === voice.voiceURI);
+  if (selectedVoice) utterance.voice = selectedVoice;
+
+  const lipSync = new LiveTimelineLipSync(voice.rate);
+  const sequencer = getAnimationSequencer(character.id);
+  let finished = false;
+  let resolveDone: () => void = () => {};
+  const done = new Promise<void>(resolve => {
+    resolveDone = resolve;
+  });
+
+  const finish = () => {
+    if (finished) return;
+    finished = true;
+    lipSync.end();
+    sequencer.clear();
+    sequencer.enqueue({ animation: 'idle' });
+    resolveDone();
+  };
+
+  utterance.onstart = () => {
+    sequencer.clear();
+    sequencer.enqueue({ animation: pickTalkAnimation(text), duration: UNTIL_SPEECH_ENDS });
+    lipSync.start();
+    getAvatarController(character.id)?.setLipSync(lipSync);
+
+    // Voices that never send boundary events get the whole line at once
+    setTimeout(() => {
+      if (!finished && !lipSync.hasCues()) lipSync.addLine(text);
+    }, 250);
+  };
+
+  utterance.onboundary = event => {
+    if (event.name && event.name !== 'word') return;
+    const length = event.charLength || text.slice(event.charIndex).search(/\s|$/);
+    lipSync.addWord(text.slice(event.charIndex, event.charIndex + length));
+  };
+
+  utterance.onend = finish;
+  utterance.onerror = event => {
+    if (event.error !== 'interrupted' && event.error !== 'canceled') {
+      console.warn('Speech synthesis failed:', event.error);
+    }
+    finish();
+  };
+
+  window.speechSynthesis.speak(utterance);
+
+  return {
+    stop: () => {
+      window.speechSynthesis.cancel();
+      finish();
+    },
+    done
+  };
+}
@@ -0,0 +1,54 @@
+import { registerAvatarController } from './avatarControllers';
+import { createFakeController } from './fakeAvatarController';
+import { speakText, spellToPhonemes, textToVisemes, wordToPhonemes } from './textLipSync';
+import { getTimelineDuration } from './visemes';
+
+test('looks words up in the dictionary and spells out unknown ones', () => {
+  expect(wordToPhonemes('Hello')).toEqual(['HH', 'AH', 'L', 'OW']);
+  expect(wordToPhonemes("don't")).toEqual(['D', 'OW', 'N', 'T']);
+  expect(spellToPhonemes('blorp')).toEqual(['B', 'L', 'AO', 'R', 'P']);
+  expect(spellToPhonemes('shine')).toEqual(['SH', 'AY', 'N']);
+  expect(spellToPhonemes('butter')).toEqual(['B', 'AH', 'T', 'ER']);
+  expect(spellToPhonemes('city')).toEqual(['S', 'IH', 'T', 'IY']);
+});
+
+test('turns a line into a timed viseme track', () => {
+  const timeline = textToVisemes('Hi, Bob!');
+
+  expect(timeline.map(cue => cue.viseme)).toEqual(['aa', 'I', 'sil', 'PP', 'aa', 'PP']);
+  // Cues follow each other without gaps
+  timeline.slice(1).forEach((cue, index) => expect(cue.start).toBeCloseTo(timeline[index].end));
+  expect(timeline[2].end - timeline[2].start).toBeGreaterThan(0.2);
+});
+
+test('scales with the speaking rate or a fixed duration', () => {
+  const normal = getTimelineDuration(textToVisemes('Welcome to the show'));
+  const fast = getTimelineDuration(textToVisemes('Welcome to the show', { rate: 2 }));
+
+  expect(fast).toBeCloseTo(normal / 2);
+  expect(getTimelineDuration(textToVisemes('Welcome to the show', { duration: 3 }))).toBeCloseTo(3);
+  expect(textToVisemes('... ,')).toEqual([]);
+});
+
+test('a line can be stopped before it ends', () => {
+  jest.useFakeTimers();
+  const fake = createFakeController('text-ola');
+  const unregister = registerAvatarController(fake.controller);
+  const onEnd = jest.fn();
+
+  const playback = speakText('text-ola', 'Welcome to the show', { duration: 3, onEnd });
+  expect(playback.duration).toBe(3);
+  expect(fake.played).toEqual(['talk']);
+
+  playback.stop();
+  expect(fake.played).toEqual(['talk', 'idle']);
+  expect(fake.lipSyncs[0]?.sample()).toBeNull();
+  expect(onEnd).toHaveBeenCalledTimes(1);
+
+  // The line's own end doesn't report again
+  jest.advanceTimersByTime(5000);
+  expect(onEnd).toHaveBeenCalledTimes(1);
+
+  unregister();
+  jest.useRealTimers();
+});
@@ -0,0 +1,241 @@
+// Text-to-viseme lip sync for dialogue without recorded audio.
+// Words are turned into ARPAbet phonemes with the bundled dictionary
+// (src/data/pronunciations.json), falling back to letter-to-sound rules, then each
+// phoneme becomes a timed mouth shape. Runs fully offline.
+
+import pronunciations from '../data/pronunciations.json';
+import { getAnimationSequencer } from './animationSequencer';
+import { getAvatarController } from './avatarControllers';
+import { createTimelineLipSync, getTimelineDuration, simplifyTimeline } from './visemes';
+import { VisemeCue, VisemeName } from '../types';
+
+export interface TextLipSyncOptions {
+  // 1 is a normal speaking pace, 2 twice as fast (same scale as speech synthesis)
+  rate?: number;
+  // Stretch or squash the track to exactly this many seconds
+  duration?: number;
+}
+
+export interface TextLipSyncPlayback {
+  duration: number;
+  stop: () => void;
+}
+
+const DICTIONARY = pronunciations as Record<string, string>;
+
+// Mouth shape for each ARPAbet phoneme, with how strongly it is formed
+const PHONEME_VISEMES: Record<string, [VisemeName, number]> = {
+  AA: ['aa', 1], AE: ['aa', 0.9], AH: ['aa', 0.7], AO: ['O', 1], AW: ['aa', 1], AY: ['aa', 1],
+  EH: ['E', 0.9], ER: ['RR', 0.8], EY: ['E', 1], IH: ['I', 0.7], IY: ['I', 0.9],
+  OW: ['O', 1], OY: ['O', 1], UH: ['U', 0.7], UW: ['U', 1],
+  B: ['PP', 1], P: ['PP', 1], M: ['PP', 1],
+  F: ['FF', 1], V: ['FF', 0.9],
+  TH: ['TH', 1], DH: ['TH', 0.8],
+  T: ['DD', 0.8], D: ['DD', 0.8],
+  K: ['kk', 0.8], G: ['kk', 0.8], NG: ['kk', 0.6],
+  CH: ['CH', 1], JH: ['CH', 1], SH: ['CH', 1], ZH: ['CH', 0.9],
+  S: ['SS', 0.9], Z: ['SS', 0.8],
+  N: ['nn', 0.8], L: ['nn', 0.7],
+  R: ['RR', 0.9], W: ['U', 0.8], Y: ['I', 0.6], HH: ['aa', 0.3],
+};
+
+// Diphthongs glide into a second shape
+const DIPHTHONG_ENDS: Record<string, VisemeName> = { AW: 'U', AY: 'I', EY: 'I', OW: 'U', OY: 'I' };
+
+const VOWELS = new Set(['AA', 'AE', 'AH', 'AO', 'AW', 'AY', 'EH', 'ER', 'EY', 'IH', 'IY', 'OW', 'OY', 'UH', 'UW']);
+
+// Seconds at rate 1
+const VOWEL_DURATION = 0.12;
+const CONSONANT_DURATION = 0.07;
+const WORD_GAP = 0.03;
+const SHORT_PAUSE = 0.2;
+const LONG_PAUSE = 0.4;
+
+// Letter patterns for words missing from the dictionary, longest first
+const LETTER_RULES: [string, string[]][] = [
+  ['tch', ['CH']], ['igh', ['AY']], ['eigh', ['EY']], ['ough', ['OW']], ['augh', ['AO']],
+  ['tion', ['SH', 'AH', 'N']], ['sion', ['ZH', 'AH', 'N']],
+  ['th', ['TH']], ['sh', ['SH']], ['ch', ['CH']], ['ph', ['F']], ['gh', []], ['ng', ['NG']],
+  ['ck', ['K']], ['qu', ['K', 'W']], ['wh', ['W']], ['wr', ['R']], ['kn', ['N']],
+  ['ee', ['IY']], ['ea', ['IY']], ['oo', ['UW']], ['ou', ['AW']], ['ow', ['OW']],
+  ['ai', ['EY']], ['ay', ['EY']], ['oi', ['OY']], ['oy', ['OY']], ['au', ['AO']], ['aw', ['AO']],
+  ['ie', ['IY']], ['ei', ['EY']], ['ey', ['EY']], ['ue', ['UW']], ['ew', ['UW']],
+  ['er', ['ER']], ['ir', ['ER']], ['ur', ['ER']], ['ar', ['AA', 'R']], ['or', ['AO', 'R']],
+  ['a', ['AE']], ['b', ['B']], ['d', ['D']], ['e', ['EH']], ['f', ['F']], ['h', ['HH']],
+  ['i', ['IH']], ['j', ['JH']], ['k', ['K']], ['l', ['L']], ['m', ['M']], ['n', ['N']],
+  ['o', ['AA']], ['p', ['P']], ['q', ['K']], ['r', ['R']], ['s', ['S']], ['t', ['T']],
+  ['u', ['AH']], ['v', ['V']], ['w', ['W']], ['x', ['K', 'S']], ['z', ['Z']],
+];
+
+// Long vowels for the silent-e pattern (make, time, home, cute)
+const MAGIC_E_VOWELS: Record<string, string> = { a: 'EY', e: 'IY', i: 'AY', o: 'OW', u: 'UW' };
+
+const DIGIT_WORDS = ['zero', 'one', 'two', 'three', 'four', 'five', 'six', 'seven', 'eight', 'nine'];
+
+/**
+ * Guess a word's phonemes from its spelling
+ */
+export function spellToPhonemes(word: string): string[] {
+  let letters = word.toLowerCase().replace(/[^a-z]/g, '');
+  const phonemes: string[] = [];
+
+  // Silent final e lengthens the vowel before the last consonant
+  let magicVowel: { index: number; phoneme: string } | null = null;
+  const magic = letters.match(/([aeiou])([^aeiou])e$/);
+  if (letters.length > 3 && magic && !/[aeiou]/.test(letters.charAt(letters.length - 4))) {
+    magicVowel = { index: letters.length - 3, phoneme: MAGIC_E_VOWELS[magic[1]] };
+    letters = letters.slice(0, -1);
+  }
+
+  let i = 0;
+  while (i < letters.length) {
+    if (magicVowel && i === magicVowel.index) {
+      phonemes.push(magicVowel.phoneme);
+      i++;
+      continue;
+    }
+
+    const rest = letters.slice(i);
+    const char = letters[i];
+    const next = letters[i + 1] || '';
+
+    // Letters whose sound depends on what follows
+    if (char === 'c') {
+      phonemes.push('eiy'.includes(next) && next !== '' ? 'S' : 'K');
+      i++;
+    } else if (char === 'g' && 'eiy'.includes(next) && next !== '' && next !== 'h') {
+      phonemes.push('JH');
+      i++;
+    } else if (char === 'y') {
+      phonemes.push(i === 0 ? 'Y' : i === letters.length - 1 ? 'IY' : 'IH');
+      i++;
+    } else if (char === 'e' && i === letters.length - 1 && letters.length > 2) {
+      // Silent final e
+      i++;
+    } else {
+      const rule = LETTER_RULES.find(([pattern]) => rest.startsWith(pattern));
+      if (rule) {
+        phonemes.push(...rule[1]);
+        i += rule[0].length;
+      } else {
+        i++;
+      }
+    }
+  }
+
+  // Collapse doubled consonants (butter -> B AH T ER)
+  return phonemes.filter((phoneme, index) => VOWELS.has(phoneme) || phoneme !== phonemes[index - 1]);
+}
+
+/**
+ * Phonemes for a word - dictionary first, spelling rules as a fallback
+ */
+export function wordToPhonemes(word: string): string[] {
+  const entry = DICTIONARY[word.toUpperCase()];
+  return entry ? entry.split(' ') : spellToPhonemes(word);
+}
+
+/**
+ * Split a line into words and pauses ('' marks a short pause, '.' a long one)
+ */
+function tokenize(text: string): string[] {
+  const tokens: string[] = [];
+  (text.match(/[A-Za-z']+|\d|[,;:]|[.!?]+/g) || []).forEach(token => {
+    if (/^\d$/.test(token)) tokens.push(DIGIT_WORDS[Number(token)]);
+    else if (/^[,;:]$/.test(token)) tokens.push('');
+    else if (/^[.!?]+$/.test(token)) tokens.push('.');
+    else tokens.push(token.replace(/^'+|'+$/g, ''));
+  });
+  return tokens.filter((token, index) => token !== '' || tokens[index - 1] !== '');
+}
+
+/**
+ * Timed viseme track for a line of dialogue
+ */
+export function textToVisemes(text: string, options: TextLipSyncOptions = {}): VisemeCue[] {
+  const rate = Math.max(0.1, options.rate ?? 1);
+  const cues: VisemeCue[] = [];
+  let time = 0;
+
+  const push = (viseme: VisemeName, weight: number, duration: number) => {
+    cues.push({ start: time, end: time + duration, viseme, weight });
+    time += duration;
+  };
+
+  tokenize(text).forEach(token => {
+    if (token === '' || token === '.') {
+      push('sil', 0, (token === '.' ? LONG_PAUSE : SHORT_PAUSE) / rate);
+      return;
+    }
+
+    wordToPhonemes(token).forEach(phoneme => {
+      const mapping = PHONEME_VISEMES[phoneme];
+      if (!mapping) return;
+      const [viseme, weight] = mapping;
+      const duration = (VOWELS.has(phoneme) ? VOWEL_DURATION : CONSONANT_DURATION) / rate;
+
+      const glideTo = DIPHTHONG_ENDS[phoneme];
+      if (glideTo) {
+        push(viseme, weight, duration * 0.6);
+        push(glideTo, weight * 0.8, duration * 0.6);
+      } else {
+        push(viseme, weight, duration);
+      }
+    });
+    push('sil', 0, WORD_GAP / rate);
+  });
+
+  // Trailing silence adds nothing
+  while (cues.length > 0 && cues[cues.length - 1].viseme === 'sil') {
+    cues.pop();
+  }
+
+  let timeline = simplifyTimeline(cues, 0);
+  const natural = getTimelineDuration(timeline);
+  if (options.duration !== undefined && natural > 0) {
+    const scale = options.duration / natural;
+    timeline = timeline.map(cue => ({ ...cue, start: cue.start * scale, end: cue.end * scale }));
+  }
+  return timeline;
+}
+
+/**
+ * Have a character mouth a line: a talk clip for the length of the line, with the
+ * mouth driven by the text's visemes. Stopping early sends the character back to idle.
+ */
+export function speakText(
+  characterId: string,
+  text: string,
+  options: TextLipSyncOptions & { animation?: string; onEnd?: () => void } = {}
+): TextLipSyncPlayback {
+  const timeline = textToVisemes(text, options);
+  const duration = options.duration ?? getTimelineDuration(timeline);
+
+  const sequencer = getAnimationSequencer(characterId);
+  sequencer.clear();
+  sequencer.enqueue({ animation: options.animation || 'talk', duration }, { animation: 'idle' });
+
+  const startedAt = performance.now();
+  const timelineLipSync = createTimelineLipSync(timeline, () => (performance.now() - startedAt) / 1000);
+  let stopped = false;
+  // Ending the line hands the mouth back on the avatar's next frame
+  getAvatarController(characterId)?.setLipSync({ sample: () => (stopped ? null : timelineLipSync.sample()) });
+
+  const finish = () => {
+    if (stopped) return;
+    stopped = true;
+    clearTimeout(endTimer);
+    options.onEnd?.();
+  };
+  const endTimer = setTimeout(finish, duration * 1000);
+
+  return {
+    duration,
+    stop: () => {
+      if (stopped) return;
+      sequencer.clear();
+      sequencer.enqueue({ animation: 'idle' });
+      finish();
+    }
+  };
+}
@@ -0,0 +1,55 @@
+import {
+  createTimeline,
+  getActiveBlock,
+  getBlockOverlaps,
+  getTimelineLength,
+  getTrackBlocks,
+  parseTimeline,
+  setTrackBlocks
+} from './timeline';
+
+const blocks = [
+  { id: 'a', start: 0, duration: 3, animation: 'idle' },
+  { id: 'b', start: 2.5, duration: 2, animation: 'wave' },
+  { id: 'c', start: 6, duration: 1, animation: 'clap' }
+];
+
+test('the later of two overlapping blocks wins and blends in over the overlap', () => {
+  expect(getActiveBlock(blocks, 1)?.block.id).toBe('a');
+  const active = getActiveBlock(blocks, 3);
+  expect(active?.block.id).toBe('b');
+  expect(active?.localTime).toBeCloseTo(0.5);
+  expect(active?.blendIn).toBeCloseTo(0.5);
+  expect(getActiveBlock(blocks, 5)).toBeNull();
+  expect(getActiveBlock(blocks, 6.5)?.blendIn).toBe(0);
+  expect(getBlockOverlaps(blocks)).toEqual([{ start: 2.5, end: 3 }]);
+});
+
+test('tracks are replaced per character and kept sorted', () => {
+  let timeline = setTrackBlocks(createTimeline(), 'body', 'char-1', [blocks[2], blocks[0]]);
+  timeline = setTrackBlocks(timeline, 'camera', undefined, [{ id: 'cam', start: 4, duration: 20, label: 'Wide', position: [0, 2, 6] }]);
+
+  expect(getTrackBlocks(timeline, 'body', 'char-1').map(block => block.id)).toEqual(['a', 'c']);
+  expect(getTrackBlocks(timeline, 'speech', 'char-2')).toEqual([]);
+  expect(getTimelineLength(timeline)).toBe(24);
+  expect(getTimelineLength(createTimeline())).toBe(10);
+});
+
+test('parses saved timelines and explains what is wrong with bad ones', () => {
+  const timeline = setTrackBlocks(createTimeline(), 'body', 'char-1', blocks);
+  expect(parseTimeline(JSON.stringify(timeline))).toEqual(timeline);
+
+  expect(() => parseTimeline('{')).toThrow('not valid JSON');
+  expect(() => parseTimeline('{"version": 2}')).toThrow('"version": 1');
+  const missingClip = { ...timeline, characters: [{ ...timeline.characters[0], body: [{ id: 'x', start: 0, duration: 1 }] }] };
+  expect(() => parseTimeline(JSON.stringify(missingClip))).toThrow("'animation'");
+});
+
+test('timelines saved before audio tracks load with empty ones', () => {
+  const saved = { version: 1, camera: [], characters: [{ characterId: 'char-1', body: blocks, expression: [], speech: [] }] };
+  const timeline = parseTimeline(JSON.stringify(saved));
+
+  expect(getTrackBlocks(timeline, 'audio', 'char-1')).toEqual([]);
+  const withAudio = setTrackBlocks(timeline, 'audio', 'char-1', [{ id: 'au', start: 1, duration: 30, audioId: 'file-1', fileName: 'intro.mp3' }]);
+  expect(getTimelineLength(withAudio)).toBe(31);
+});
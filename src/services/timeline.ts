@@ -0,0 +1,175 @@
+// Scene timelines for the timeline editor: per-character tracks of body clips, expressions,
+// speech and audio, plus a camera track, laid out as blocks in seconds. Blocks on a body or camera track
+// may overlap the block before them; the overlap is the crossfade into the later block.
+// Timelines are saved next to the characters in localStorage and export as JSON.
+
+import {
+  Timeline,
+  TimelineBlock,
+  TimelineCameraBlock,
+  TimelineCharacterTracks,
+  TimelineTrackKind
+} from '../types';
+
+export const TIMELINE_STORAGE_KEY = 'rpm-timeline';
+
+// Shortest block the editor allows, in seconds
+export const MIN_BLOCK_DURATION = 0.2;
+// Empty timelines still show this much
+const MIN_TIMELINE_LENGTH = 10;
+
+export function createTimeline(): Timeline {
+  return { version: 1, characters: [], camera: [] };
+}
+
+export function createCharacterTracks(characterId: string): TimelineCharacterTracks {
+  return { characterId, body: [], expression: [], speech: [], audio: [] };
+}
+
+export function getCharacterTracks(timeline: Timeline, characterId: string): TimelineCharacterTracks {
+  return timeline.characters.find(tracks => tracks.characterId === characterId) ?? createCharacterTracks(characterId);
+}
+
+/**
+ * Blocks on one track - the camera track, or a character's body, expression, speech or audio track
+ */
+export function getTrackBlocks(timeline: Timeline, kind: TimelineTrackKind, characterId?: string): TimelineBlock[] {
+  if (kind === 'camera') return timeline.camera;
+  return characterId ? getCharacterTracks(timeline, characterId)[kind] : [];
+}
+
+export type CharacterTrackKind = Exclude<TimelineTrackKind, 'camera'>;
+
+/**
+ * Copy of the timeline with one track's blocks replaced (kept sorted by start)
+ */
+export function setTrackBlocks(timeline: Timeline, kind: 'camera', characterId: undefined, blocks: TimelineCameraBlock[]): Timeline;
+export function setTrackBlocks<K extends CharacterTrackKind>(
+  timeline: Timeline,
+  kind: K,
+  characterId: string,
+  blocks: TimelineCharacterTracks[K]
+): Timeline;
+export function setTrackBlocks(
+  timeline: Timeline,
+  kind: TimelineTrackKind,
+  characterId: string | undefined,
+  blocks: TimelineBlock[]
+): Timeline {
+  const sorted = [...blocks].sort((a, b) => a.start - b.start);
+  // The overloads make sure the blocks suit the track
+  if (kind === 'camera') return { ...timeline, camera: sorted as TimelineCameraBlock[] };
+  if (!characterId) return timeline;
+
+  const tracks = { ...getCharacterTracks(timeline, characterId), [kind]: sorted };
+  const others = timeline.characters.filter(existing => existing.characterId !== characterId);
+  return { ...timeline, characters: [...others, tracks] };
+}
+
+export function getBlockEnd(block: TimelineBlock): number {
+  return block.start + block.duration;
+}
+
+/**
+ * End of the last block, or MIN_TIMELINE_LENGTH for short timelines
+ */
+export function getTimelineLength(timeline: Timeline): number {
+  const blocks: TimelineBlock[] = [
+    ...timeline.camera,
+    ...timeline.characters.flatMap(tracks => [...tracks.body, ...tracks.expression, ...tracks.speech, ...tracks.audio])
+  ];
+  return blocks.reduce((end, block) => Math.max(end, getBlockEnd(block)), MIN_TIMELINE_LENGTH);
+}
+
+export interface ActiveBlock<T extends TimelineBlock> {
+  block: T;
+  // Seconds since the block started
+  localTime: number;
+  // Crossfade from the block before, where the two overlap
+  blendIn: number;
+}
+
+/**
+ * Block playing at a time on a sorted track. Where blocks overlap the later one wins.
+ */
+export function getActiveBlock<T extends TimelineBlock>(blocks: T[], time: number): ActiveBlock<T> | null {
+  for (let i = blocks.length - 1; i >= 0; i--) {
+    const block = blocks[i];
+    if (time < block.start || time >= getBlockEnd(block)) continue;
+    const previous = blocks[i - 1];
+    const blendIn = previous ? Math.max(0, Math.min(getBlockEnd(previous), getBlockEnd(block)) - block.start) : 0;
+    return { block, localTime: time - block.start, blendIn };
+  }
+  return null;
+}
+
+/**
+ * Where neighbouring blocks on a sorted track overlap, for drawing the crossfades
+ */
+export function getBlockOverlaps(blocks: TimelineBlock[]): { start: number; end: number }[] {
+  const overlaps: { start: number; end: number }[] = [];
+  for (let i = 1; i < blocks.length; i++) {
+    const end = Math.min(getBlockEnd(blocks[i - 1]), getBlockEnd(blocks[i]));
+    if (end > blocks[i].start) overlaps.push({ start: blocks[i].start, end });
+  }
+  return overlaps;
+}
+
+function isBlock(value: any): value is TimelineBlock {
+  return !!value && typeof value.id === 'string' && typeof value.start === 'number' && typeof value.duration === 'number';
+}
+
+/**
+ * Read a timeline from JSON, throwing an Error that says what is wrong
+ */
+export function parseTimeline(json: string): Timeline {
+  let data: any;
+  try {
+    data = JSON.parse(json);
+  } catch (error) {
+    throw new Error(`Timeline is not valid JSON: ${(error as Error).message}`);
+  }
+
+  if (!data || data.version !== 1) throw new Error('Timeline must have "version": 1');
+  if (!Array.isArray(data.characters) || !Array.isArray(data.camera)) {
+    throw new Error('Timeline needs "characters" and "camera" arrays');
+  }
+
+  const checkTrack = (blocks: any, name: string, field: string) => {
+    if (!Array.isArray(blocks)) throw new Error(`Track ${name} must be an array`);
+    blocks.forEach((block, index) => {
+      if (typeof block?.[field] !== 'string' || !isBlock(block) || block.duration <= 0) {
+        throw new Error(`Block ${index + 1} on track ${name} needs an id, start, a positive duration and '${field}'`);
+      }
+    });
+  };
+
+  data.characters.forEach((tracks: any, index: number) => {
+    if (!tracks || typeof tracks.characterId !== 'string') {
+      throw new Error(`Character ${index + 1} needs a characterId`);
+    }
+    checkTrack(tracks.body, `${tracks.characterId}.body`, 'animation');
+    checkTrack(tracks.expression, `${tracks.characterId}.expression`, 'expression');
+    checkTrack(tracks.speech, `${tracks.characterId}.speech`, 'text');
+    // Timelines saved before audio tracks existed have none
+    tracks.audio = tracks.audio ?? [];
+    checkTrack(tracks.audio, `${tracks.characterId}.audio`, 'audioId');
+  });
+  checkTrack(data.camera, 'camera', 'label');
+
+  return data as Timeline;
+}
+
+export function loadSavedTimeline(): Timeline {
+  try {
+    const saved = localStorage.getItem(TIMELINE_STORAGE_KEY);
+    return saved ? parseTimeline(saved) : createTimeline();
+  } catch (error) {
+    console.error('Failed to load saved timeline:', error);
+    return createTimeline();
+  }
+}
+
+export function saveTimeline(timeline: Timeline): void {
+  localStorage.setItem(TIMELINE_STORAGE_KEY, JSON.stringify(timeline));
+}
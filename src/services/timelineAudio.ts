@@ -0,0 +1,67 @@
+// Audio files placed on the timeline's audio tracks. The files are kept in IndexedDB so a saved
+// timeline still has its sound after a reload; the player uses the decoded buffers, with the
+// mouth shapes analysed once when the file is loaded.
+
+import { analyseAudioBuffer, decodeAudioFile } from './audioLipSync';
+import { deleteStoredAudio, getStoredAudio, saveStoredAudio } from './animationStore';
+import { Timeline, VisemeCue } from '../types';
+
+export interface TimelineAudio {
+  fileName: string;
+  buffer: AudioBuffer;
+  visemes: VisemeCue[];
+}
+
+// Decoded audio by audio id
+const loaded = new Map<string, TimelineAudio>();
+
+/**
+ * Make decoded audio available to the player under an id
+ */
+export function registerTimelineAudio(audioId: string, audio: TimelineAudio): void {
+  loaded.set(audioId, audio);
+}
+
+export function getTimelineAudio(audioId: string): TimelineAudio | undefined {
+  return loaded.get(audioId);
+}
+
+/**
+ * Decode and store an audio file for a new audio block. Returns the block's audio id and the sound's length.
+ */
+export async function addTimelineAudio(file: File): Promise<{ audioId: string; duration: number }> {
+  const buffer = await decodeAudioFile(file);
+  const audioId = crypto.randomUUID();
+  await saveStoredAudio({ id: audioId, fileName: file.name, data: file });
+  registerTimelineAudio(audioId, { fileName: file.name, buffer, visemes: analyseAudioBuffer(buffer) });
+  return { audioId, duration: buffer.duration };
+}
+
+/**
+ * Decode the stored files of every audio block that isn't loaded yet.
+ * Returns the file names of the blocks whose audio isn't in the browser's storage.
+ */
+export async function loadTimelineAudio(timeline: Timeline): Promise<string[]> {
+  const missing: string[] = [];
+  for (const block of timeline.characters.flatMap(tracks => tracks.audio)) {
+    if (loaded.has(block.audioId)) continue;
+    try {
+      const stored = await getStoredAudio(block.audioId);
+      if (!stored) {
+        missing.push(block.fileName);
+        continue;
+      }
+      const buffer = await decodeAudioFile(stored.data);
+      registerTimelineAudio(block.audioId, { fileName: stored.fileName, buffer, visemes: analyseAudioBuffer(buffer) });
+    } catch (error) {
+      console.error(`Failed to load timeline audio ${block.fileName}:`, error);
+      missing.push(block.fileName);
+    }
+  }
+  return missing;
+}
+
+export async function deleteTimelineAudio(audioId: string): Promise<void> {
+  loaded.delete(audioId);
+  await deleteStoredAudio(audioId);
+}
@@ -0,0 +1,74 @@
+import { registerAvatarController } from './avatarControllers';
+import { installFakeAudioContext } from './fakeAudioContext';
+import { createFakeController } from './fakeAvatarController';
+import { createTimeline, setTrackBlocks } from './timeline';
+import { registerTimelineAudio } from './timelineAudio';
+import { TimelinePlayer } from './timelinePlayer';
+
+test('an edit only sends the tracks it changed again', () => {
+  const fake = createFakeController('sam');
+  const unregister = registerAvatarController(fake.controller);
+
+  let timeline = setTrackBlocks(createTimeline(), 'body', 'sam', [{ id: 'wave', start: 0, duration: 4, animation: 'wave' }]);
+  timeline = setTrackBlocks(timeline, 'speech', 'sam', [{ id: 'hi', start: 0, duration: 2, text: 'Hi there' }]);
+  const player = new TimelinePlayer(timeline);
+  player.apply(1, true);
+  expect(fake.played).toEqual(['wave']);
+  expect(fake.lipSyncs).toHaveLength(1);
+
+  // A new face block leaves the clip and the mouth alone
+  timeline = setTrackBlocks(timeline, 'expression', 'sam', [{ id: 'smile', start: 0, duration: 2, expression: 'happy' }]);
+  player.setTimeline(timeline);
+  player.apply(1.1, true);
+  expect(fake.played).toEqual(['wave']);
+  expect(fake.lipSyncs).toHaveLength(1);
+
+  // Moving the clip starts it again, and the mouth with it
+  timeline = setTrackBlocks(timeline, 'body', 'sam', [{ id: 'wave', start: 0.5, duration: 4, animation: 'wave' }]);
+  player.setTimeline(timeline);
+  player.apply(1.2, true);
+  expect(fake.played).toEqual(['wave', 'wave']);
+  expect(fake.lipSyncs).toHaveLength(2);
+
+  unregister();
+});
+
+test('audio blocks play from the playhead and follow it when scrubbed', () => {
+  const audio = installFakeAudioContext();
+  registerTimelineAudio('intro-audio', {
+    fileName: 'intro.mp3',
+    buffer: { duration: 6 } as AudioBuffer,
+    visemes: [{ start: 0, end: 6, viseme: 'aa', weight: 1 }]
+  });
+  const fake = createFakeController('noa');
+  const unregister = registerAvatarController(fake.controller);
+
+  const timeline = setTrackBlocks(createTimeline(), 'audio', 'noa', [
+    { id: 'intro', start: 2, duration: 6, audioId: 'intro-audio', fileName: 'intro.mp3' }
+  ]);
+  const player = new TimelinePlayer(timeline);
+
+  // Paused: the mouth follows the playhead, nothing is heard
+  player.apply(3, false);
+  expect(audio.sources).toHaveLength(0);
+  expect(fake.lipSyncs[fake.lipSyncs.length - 1]?.sample()).toHaveProperty('aa');
+
+  // Playing starts the sound a second in, and leaves the body alone
+  player.apply(3, true);
+  expect(audio.sources.map(source => source.offset)).toEqual([1]);
+  expect(fake.played).toEqual([]);
+
+  // Keeping up with the playhead doesn't restart it
+  audio.currentTime = 0.55;
+  player.apply(3.5, true);
+  expect(audio.sources).toHaveLength(1);
+
+  // Scrubbing does
+  player.apply(6, true);
+  expect(audio.sources[0].stopped).toBe(true);
+  expect(audio.sources.map(source => source.offset)).toEqual([1, 4]);
+
+  player.stop();
+  expect(audio.sources[1].stopped).toBe(true);
+  unregister();
+});
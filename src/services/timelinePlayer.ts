@@ -0,0 +1,180 @@
+// Drives the characters and camera from a scene timeline at the editor's playhead.
+// Each track only sends something when the block under the playhead changes; body clips are
+// then kept in step with the playhead, seeking whenever the clip drifts or the playhead is
+// scrubbed, so every character's mixer shows the same moment of the scene. Audio blocks play
+// their sound from the playhead while playing and only move the mouth while paused.
+
+import { AudioLipSyncPlayback, playAudioLipSync } from './audioLipSync';
+import { getAvatarController } from './avatarControllers';
+import { sendCameraCue } from './cameraCues';
+import { textToVisemes } from './textLipSync';
+import { ActiveBlock, getActiveBlock } from './timeline';
+import { getTimelineAudio } from './timelineAudio';
+import { createTimelineLipSync } from './visemes';
+import { AvatarController, Timeline, TimelineAudioBlock } from '../types';
+
+// Seconds a playing clip may drift from the playhead before it is pulled back
+const MAX_DRIFT = 0.1;
+// Crossfade into idle after a character's last body block
+const IDLE_BLEND_TIME = 0.3;
+
+interface PlayingAudio {
+  blockId: string;
+  // Null while paused - then only the mouth follows the playhead
+  playback: AudioLipSyncPlayback | null;
+}
+
+export class TimelinePlayer {
+  // Block id under the playhead per track, keyed 'characterId:kind' or 'camera'
+  private activeBlocks = new Map<string, string | null>();
+  // Audio block each character is playing, by character id
+  private audio = new Map<string, PlayingAudio>();
+  private characterIds = new Set<string>();
+  private time = 0;
+
+  constructor(private timeline: Timeline) {}
+
+  /**
+   * Swap in an edited timeline. Edits replace only the tracks they touch, so tracks that are
+   * the same as before keep playing and only the edited ones are sent again.
+   */
+  setTimeline(timeline: Timeline): void {
+    const previous = this.timeline;
+    this.timeline = timeline;
+
+    if (timeline.camera !== previous.camera) this.activeBlocks.delete('camera');
+    const kinds = ['body', 'expression', 'speech'] as const;
+    previous.characters.forEach(tracks => {
+      const next = timeline.characters.find(existing => existing.characterId === tracks.characterId);
+      kinds.forEach(kind => {
+        if (next?.[kind] !== tracks[kind]) this.activeBlocks.delete(`${tracks.characterId}:${kind}`);
+      });
+      if (next?.audio !== tracks.audio) this.stopAudio(tracks.characterId);
+    });
+  }
+
+  /**
+   * Show the scene at a time. While playing, clips run on their own and are only
+   * corrected when they drift; while paused, every character holds the exact frame.
+   */
+  apply(time: number, playing: boolean): void {
+    this.time = time;
+    this.timeline.characters.forEach(tracks => {
+      const controller = getAvatarController(tracks.characterId);
+      if (!controller) return;
+      this.characterIds.add(tracks.characterId);
+
+      controller.setPlayback({ paused: !playing });
+
+      // Body first - starting a clip drops the lip sync, so speech is sent again after it
+      const body = getActiveBlock(tracks.body, time);
+      const bodyKey = `${tracks.characterId}:body`;
+      if (this.changed(bodyKey, body?.block.id ?? null)) {
+        this.activeBlocks.delete(`${tracks.characterId}:speech`);
+        if (body) {
+          controller.play(body.block.animation, { blendTime: playing ? body.blendIn : 0, autoFollowUp: false });
+        } else if (tracks.body.length > 0) {
+          controller.play('idle', { blendTime: playing ? IDLE_BLEND_TIME : 0 });
+        }
+      }
+      if (body) {
+        const playback = controller.getPlayback();
+        if (playback?.animation === body.block.animation && playback.duration > 0) {
+          const target = playback.loop ? body.localTime % playback.duration : Math.min(body.localTime, playback.duration);
+          if (!playing || Math.abs(playback.time - target) > MAX_DRIFT) controller.seek(target);
+        }
+      }
+
+      const expression = getActiveBlock(tracks.expression, time);
+      if (this.changed(`${tracks.characterId}:expression`, expression?.block.id ?? null)) {
+        controller.setExpression(
+          expression ? expression.block.expression : null,
+          expression ? { intensity: expression.block.intensity } : undefined
+        );
+      }
+
+      const speech = getActiveBlock(tracks.speech, time);
+      if (this.changed(`${tracks.characterId}:speech`, speech?.block.id ?? null)) {
+        if (speech) {
+          const { start, duration, text } = speech.block;
+          const visemes = textToVisemes(text, { duration });
+          controller.setLipSync(createTimelineLipSync(visemes, () => this.time - start));
+        } else {
+          controller.setLipSync(null);
+        }
+      }
+
+      this.applyAudio(controller, getActiveBlock(tracks.audio, time), playing);
+    });
+
+    const shot = getActiveBlock(this.timeline.camera, time);
+    if (this.changed('camera', shot?.block.id ?? null) && shot) {
+      const { position, target } = shot.block;
+      sendCameraCue({ position, target, transition: playing ? shot.blendIn : 0 });
+    }
+  }
+
+  /**
+   * Hand the characters back - clips run freely again and faces and mouths relax
+   */
+  stop(): void {
+    this.characterIds.forEach(characterId => {
+      const controller = getAvatarController(characterId);
+      controller?.setPlayback({ paused: false });
+      controller?.setExpression(null);
+      controller?.setLipSync(null);
+    });
+    this.characterIds.clear();
+    this.activeBlocks.clear();
+    Array.from(this.audio.keys()).forEach(characterId => this.stopAudio(characterId));
+  }
+
+  // Play the audio block under the playhead from where the playhead is, restarting it when
+  // playback starts or stops, the block changes or the playhead is scrubbed away from the sound
+  private applyAudio(controller: AvatarController, active: ActiveBlock<TimelineAudioBlock> | null, playing: boolean): void {
+    const { characterId } = controller;
+    const current = this.audio.get(characterId);
+    if (current && active && current.blockId === active.block.id && !!current.playback === playing) {
+      const { playback } = current;
+      if (!playback) return;
+      // Past the end of the sound there is nothing left to keep in step
+      const end = playback.duration;
+      if (Math.abs(Math.min(playback.getTime(), end) - Math.min(active.localTime, end)) <= MAX_DRIFT) return;
+    }
+
+    this.stopAudio(characterId);
+    if (!active) {
+      // Stopping a playback hands the mouth back by itself
+      if (current && !current.playback) controller.setLipSync(null);
+      return;
+    }
+    // Not decoded yet - tried again on the next update
+    const sound = getTimelineAudio(active.block.audioId);
+    if (!sound) return;
+
+    if (playing) {
+      const playback = playAudioLipSync(characterId, sound.buffer, {
+        timeline: sound.visemes,
+        offset: active.localTime,
+        talkClip: false
+      });
+      this.audio.set(characterId, { blockId: active.block.id, playback });
+    } else {
+      const { start } = active.block;
+      controller.setLipSync(createTimelineLipSync(sound.visemes, () => this.time - start));
+      this.audio.set(characterId, { blockId: active.block.id, playback: null });
+    }
+  }
+
+  private stopAudio(characterId: string): void {
+    this.audio.get(characterId)?.playback?.stop();
+    this.audio.delete(characterId);
+  }
+
+  // Record the block now under the playhead, reporting whether it differs from last time
+  private changed(key: string, blockId: string | null): boolean {
+    if (this.activeBlocks.has(key) && this.activeBlocks.get(key) === blockId) return false;
+    this.activeBlocks.set(key, blockId);
+    return true;
+  }
+}
@@ -0,0 +1,131 @@
+// Viseme timelines and the lip sync sources built from them.
+// Every lip sync input (audio analysis, text, cue files...) ends up as a list of
+// VisemeCues; the avatar samples the source each frame and smooths the result.
+
+import { LipSyncSource, VisemeCue, VisemeName, VisemeWeights } from '../types';
+
+export const VISEME_NAMES: VisemeName[] = [
+  'sil', 'PP', 'FF', 'TH', 'DD', 'kk', 'CH', 'SS', 'nn', 'RR', 'aa', 'E', 'I', 'O', 'U'
+];
+
+// How far each viseme opens the jaw, for avatars with only a mouthOpen morph
+export const VISEME_OPENNESS: Record<VisemeName, number> = {
+  sil: 0, PP: 0, FF: 0.15, TH: 0.2, DD: 0.3, kk: 0.35, CH: 0.3, SS: 0.15,
+  nn: 0.2, RR: 0.35, aa: 1, E: 0.7, I: 0.5, O: 0.8, U: 0.45
+};
+
+// Seconds either side of a cue boundary over which neighbouring shapes blend
+const COARTICULATION = 0.04;
+
+// Syllable pattern mouthed by talk clips when nothing else drives the mouth
+const BABBLE_PATTERN: [VisemeName, number][] = [
+  ['aa', 0.14], ['nn', 0.08], ['E', 0.12], ['SS', 0.09], ['O', 0.15], ['sil', 0.06],
+  ['PP', 0.07], ['I', 0.11], ['DD', 0.08], ['U', 0.13], ['kk', 0.07], ['aa', 0.12],
+  ['RR', 0.09], ['E', 0.1], ['sil', 0.12], ['FF', 0.08], ['O', 0.14], ['nn', 0.1],
+];
+
+export function getMorphTargetName(viseme: VisemeName): string {
+  return `viseme_${viseme}`;
+}
+
+export function getTimelineDuration(timeline: VisemeCue[]): number {
+  return timeline.reduce((end, cue) => Math.max(end, cue.end), 0);
+}
+
+/**
+ * Viseme weights at a point in time, crossfading into the next cue near boundaries
+ */
+export function sampleVisemeTimeline(timeline: VisemeCue[], time: number): VisemeWeights {
+  const index = timeline.findIndex(cue => time >= cue.start && time < cue.end);
+  if (index < 0) return {};
+
+  const cue = timeline[index];
+  const weights: VisemeWeights = {};
+  const add = (viseme: VisemeName, weight: number) => {
+    weights[viseme] = Math.max(weights[viseme] ?? 0, weight);
+  };
+
+  const next = timeline[index + 1];
+  const untilEnd = cue.end - time;
+  if (next && next.start - cue.end < COARTICULATION && untilEnd < COARTICULATION) {
+    const blend = 0.5 * (1 - untilEnd / COARTICULATION);
+    add(cue.viseme, cue.weight * (1 - blend));
+    add(next.viseme, next.weight * blend);
+  } else {
+    add(cue.viseme, cue.weight);
+  }
+
+  delete weights.sil;
+  return weights;
+}
+
+/**
+ * Lip sync source that plays a timeline against a clock (seconds). Ends after the
+ * last cue unless it loops.
+ */
+export function createTimelineLipSync(
+  timeline: VisemeCue[],
+  getTime: () => number,
+  loop = false
+): LipSyncSource {
+  const duration = getTimelineDuration(timeline);
+
+  return {
+    sample: () => {
+      let time = getTime();
+      if (duration <= 0) return null;
+      if (loop) {
+        time %= duration;
+      } else if (time > duration) {
+        return null;
+      }
+      return sampleVisemeTimeline(timeline, Math.max(0, time));
+    }
+  };
+}
+
+/**
+ * Looping nonsense syllables for talk clips that have no real speech behind them
+ */
+export function createBabbleLipSync(): LipSyncSource {
+  const timeline: VisemeCue[] = [];
+  let time = 0;
+  BABBLE_PATTERN.forEach(([viseme, duration], index) => {
+    timeline.push({ start: time, end: time + duration, viseme, weight: 0.55 + (index % 3) * 0.15 });
+    time += duration;
+  });
+
+  const startedAt = performance.now();
+  return createTimelineLipSync(timeline, () => (performance.now() - startedAt) / 1000, true);
+}
+
+/**
+ * Merge runs of the same viseme and fold cues shorter than minDuration into
+ * their neighbour, so the mouth doesn't flicker
+ */
+export function simplifyTimeline(timeline: VisemeCue[], minDuration = 0.05): VisemeCue[] {
+  const merged: VisemeCue[] = [];
+
+  timeline.forEach(cue => {
+    const last = merged[merged.length - 1];
+    if (last && last.viseme === cue.viseme && cue.start - last.end < 1e-6) {
+      const lastLength = last.end - last.start;
+      const cueLength = cue.end - cue.start;
+      last.weight = (last.weight * lastLength + cue.weight * cueLength) / (lastLength + cueLength);
+      last.end = cue.end;
+    } else {
+      merged.push({ ...cue });
+    }
+  });
+
+  const result: VisemeCue[] = [];
+  merged.forEach(cue => {
+    const last = result[result.length - 1];
+    if (last && cue.end - cue.start < minDuration && cue.start - last.end < 1e-6) {
+      last.end = cue.end;
+    } else {
+      result.push(cue);
+    }
+  });
+  return result;
+}
@@ -3,4 +3,333 @@ export interface Character {
   name: string;
   avatarUrl: string;
   currentAnimation?: string;
-}
\ No newline at end of file
+  // Where the character stands on the stage: [x, z] on the ground plane
+  position?: [number, number];
+  // Facing on the stage in radians around the vertical axis (0 faces the camera)
+  rotation?: number;
+  // Speech synthesis settings, so each character keeps the same voice
+  voice?: CharacterVoice;
+  // Procedural blinking and eye movement, on with the defaults when missing
+  faceLife?: FaceLifeSettings;
+  // What the character looks at when no script says otherwise, straight ahead when missing
+  lookAt?: LookAtTarget;
+}
+
+export interface CharacterVoice {
+  // SpeechSynthesisVoice.voiceURI, the browser default when missing or unavailable
+  voiceURI?: string;
+  rate: number;
+  pitch: number;
+}
+
+export interface FaceLifeSettings {
+  blink: boolean;
+  blinksPerMinute: number;
+  // Small random eye movements
+  saccades: boolean;
+}
+
+export type AnimationCategory = 'basic' | 'movement' | 'idle' | 'expression' | 'gesture' | 'dance';
+
+export type AnimationLoopMode = 'repeat' | 'once';
+
+// What happens to the clip's horizontal hips movement:
+// - inPlace: removed, the character stays where it stands
+// - extract: removed from the pose and applied to the character's position, so it walks
+//   across the stage (in-place where the avatar can't move, e.g. the single-avatar view)
+// - raw: kept as recorded
+export type RootMotionMode = 'inPlace' | 'extract' | 'raw';
+
+// What a one-shot clip does once it has finished playing
+export type AnimationFollowUp =
+  | { mode: 'previous' } // return to the looping clip that was playing before it
+  | { mode: 'idle' }
+  | { mode: 'next'; animation: string };
+
+export interface AnimationDefinition {
+  id: string;
+  label: string;
+  category: AnimationCategory;
+  file: string;
+  loop: AnimationLoopMode;
+  lipSync: boolean;
+  preload: boolean;
+  blendTime: number;
+  // Clips in the same sync group keep their gait phase when crossfading
+  syncGroup?: string;
+  // Only used by one-shots, defaults to returning to the previous clip
+  followUp?: AnimationFollowUp;
+  // Facial expression shown while the clip plays
+  expression?: string;
+  // Defaults to extract for clips the manifest found root motion in, otherwise in-place
+  rootMotion?: RootMotionMode;
+  // Imported by the user and kept in IndexedDB instead of public/animations
+  custom?: boolean;
+}
+
+// Entry written by src/scripts/buildAnimationManifest.js for each GLB clip
+export interface AnimationManifestEntry {
+  id: string;
+  file: string;
+  clipName: string;
+  duration: number;
+  frameRate: number;
+  trackCount: number;
+  bones: string[];
+  rootMotion: boolean;
+  rootDisplacement: [number, number];
+  suggestedCategory: AnimationCategory;
+}
+
+export interface PlayAnimationOptions {
+  // Crossfade duration, defaults to the registry's transition blend time
+  blendTime?: number;
+  // Number of times to play the clip before 'finished' is reported.
+  // One-shots then hold their last frame, looping clips keep looping.
+  loops?: number;
+  // Set to false to hold the last frame instead of moving on to the clip's follow-up
+  autoFollowUp?: boolean;
+}
+
+// Transport state of the clip an avatar is playing
+export interface PlaybackState {
+  animation: string;
+  time: number;
+  duration: number;
+  frameRate: number;
+  paused: boolean;
+  // 0.1 to 2
+  speed: number;
+  loop: boolean;
+  // A-B loop range in seconds, played over and over while set
+  range: [number, number] | null;
+}
+
+export type PlaybackChanges = Partial<Pick<PlaybackState, 'paused' | 'speed' | 'loop' | 'range'>>;
+
+export type BoneMaskName = 'upperBody' | 'lowerBody' | 'leftArm' | 'rightArm' | 'head';
+
+export interface AnimationLayerOptions {
+  // Bones the layer plays on; the base clip keeps the rest
+  mask: BoneMaskName;
+  // 0-1, how much of the layer shows over the base clip
+  weight?: number;
+  // Seconds to fade the layer in, defaults to the clip's blend time
+  blendTime?: number;
+  // Times to play a one-shot before the layer fades out again
+  loops?: number;
+}
+
+// Mouth shapes, named after the avatar's viseme_* morph targets (Oculus viseme set)
+export type VisemeName =
+  | 'sil' | 'PP' | 'FF' | 'TH' | 'DD' | 'kk' | 'CH' | 'SS'
+  | 'nn' | 'RR' | 'aa' | 'E' | 'I' | 'O' | 'U';
+
+export type VisemeWeights = Partial<Record<VisemeName, number>>;
+
+// One mouth shape held between start and end (seconds)
+export interface VisemeCue {
+  start: number;
+  end: number;
+  viseme: VisemeName;
+  weight: number;
+}
+
+// Drives an avatar's mouth. Sampled every frame; returning null means the source has ended.
+export interface LipSyncSource {
+  sample: () => VisemeWeights | null;
+}
+
+// ARKit blend shape weights, e.g. { mouthSmile: 0.8, browInnerUp: 0.3 }.
+// Symmetric names without Left/Right apply to both sides.
+export type BlendShapeWeights = Record<string, number>;
+
+export interface FacialExpression {
+  id: string;
+  label: string;
+  shapes: BlendShapeWeights;
+  // Wide-eyed expressions hold off blinking
+  suppressBlink?: boolean;
+}
+
+export interface ExpressionOptions {
+  // 0-1, scales every blend shape of the expression
+  intensity?: number;
+  // Seconds before the face relaxes again, held until replaced when missing
+  duration?: number;
+}
+
+// Something an avatar turns its head and eyes towards
+export type LookAtTarget =
+  | { type: 'ahead' }
+  | { type: 'camera' }
+  | { type: 'character'; characterId: string }
+  | { type: 'point'; position: Vector3Tuple };
+
+// [right, forward] in metres per second, in the character's own space
+export type LocomotionVelocity = [number, number];
+
+// Imperative handle on one avatar's mixer, registered by FinalAnimator while the avatar is mounted
+export interface AvatarController {
+  characterId: string;
+  // Resolves false when the clip can't be loaded, so nothing will play or finish
+  play: (animationType: string, options?: PlayAnimationOptions) => Promise<boolean>;
+  getCurrentAnimation: () => string | null;
+  onFinished: (listener: (animationType: string) => void) => () => void;
+  // Called every frame with the clip time that passed - scaled by the transport's speed, 0 while paused
+  onUpdate: (listener: (delta: number) => void) => () => void;
+  // Take over the mouth from the talk clips' default babble (null hands it back)
+  setLipSync: (source: LipSyncSource | null) => void;
+  // Show a facial expression over whatever the clip shows (null relaxes the face)
+  setExpression: (expression: string | null, options?: ExpressionOptions) => void;
+  // Look at a target instead of the character's own setting (null hands it back)
+  setLookAt: (target: LookAtTarget | null) => void;
+  // Play a clip on part of the body over the base clip, replacing any layer on the same mask
+  playLayer: (animationType: string, options: AnimationLayerOptions) => void;
+  setLayerWeight: (mask: BoneMaskName, weight: number) => void;
+  stopLayer: (mask: BoneMaskName, blendTime?: number) => void;
+  // Blend the directional movement clips to move at this velocity (null goes back to idle)
+  setLocomotion: (velocity: LocomotionVelocity | null) => void;
+  // Transport controls for the clip playing now (null while nothing is playing)
+  getPlayback: () => PlaybackState | null;
+  setPlayback: (changes: PlaybackChanges) => void;
+  seek: (time: number) => void;
+  // Pause and move by whole frames, negative steps back
+  stepFrames: (count: number) => void;
+  // World position of the head, for other avatars to look at
+  getHeadPosition: () => Vector3Tuple | null;
+}
+
+// Animation scripts - see src/data/animationScript.schema.json
+export type Vector3Tuple = [number, number, number];
+
+export interface ScriptCharacter {
+  // Id used by the script's steps
+  id: string;
+  // Name of the character in the app's character list
+  name: string;
+}
+
+export interface ScriptClipStep {
+  type: 'clip';
+  at: number;
+  character: string;
+  animation: string;
+  duration?: number;
+  loops?: number;
+  blendTime?: number;
+}
+
+export interface ScriptExpressionStep {
+  type: 'expression';
+  at: number;
+  character: string;
+  expression: string;
+  intensity?: number;
+  duration?: number;
+}
+
+export interface ScriptSpeechStep {
+  type: 'speech';
+  at: number;
+  character: string;
+  text: string;
+  duration?: number;
+  // Talk clip to play while speaking
+  animation?: string;
+}
+
+export interface ScriptLookStep {
+  type: 'look';
+  at: number;
+  character: string;
+  // 'camera', 'ahead', another script character's id or a point in the scene
+  target: string | Vector3Tuple;
+  // Seconds before looking ahead again, held until the next look step when missing
+  duration?: number;
+}
+
+export interface ScriptMoveStep {
+  type: 'move';
+  at: number;
+  character: string;
+  // Metres per second, 0 stands still
+  speed: number;
+  // Degrees from the way the character faces: 0 forwards, 90 right, -90 left, 180 backwards
+  direction?: number;
+  // Seconds before standing idle again, keeps moving until the next clip or move step when missing
+  duration?: number;
+}
+
+export interface ScriptCameraStep {
+  type: 'camera';
+  at: number;
+  position: Vector3Tuple;
+  target?: Vector3Tuple;
+  transition?: number;
+}
+
+export type ScriptStep =
+  | ScriptClipStep
+  | ScriptExpressionStep
+  | ScriptSpeechStep
+  | ScriptLookStep
+  | ScriptMoveStep
+  | ScriptCameraStep;
+
+export interface AnimationScript {
+  version: 1;
+  title?: string;
+  characters: ScriptCharacter[];
+  steps: ScriptStep[];
+}
+
+// Scene timeline - see src/services/timeline.ts
+export interface TimelineBlock {
+  id: string;
+  // Seconds from the start of the timeline
+  start: number;
+  duration: number;
+}
+
+export interface TimelineClipBlock extends TimelineBlock {
+  animation: string;
+}
+
+export interface TimelineExpressionBlock extends TimelineBlock {
+  expression: string;
+  intensity?: number;
+}
+
+export interface TimelineSpeechBlock extends TimelineBlock {
+  text: string;
+}
+
+export interface TimelineAudioBlock extends TimelineBlock {
+  // Key of the audio file in the browser's storage - see src/services/timelineAudio.ts
+  audioId: string;
+  fileName: string;
+}
+
+export interface TimelineCameraBlock extends TimelineBlock {
+  label: string;
+  position: Vector3Tuple;
+  target?: Vector3Tuple;
+}
+
+// Tracks for one character, by app character id
+export interface TimelineCharacterTracks {
+  characterId: string;
+  body: TimelineClipBlock[];
+  expression: TimelineExpressionBlock[];
+  speech: TimelineSpeechBlock[];
+  audio: TimelineAudioBlock[];
+}
+
+export type TimelineTrackKind = 'body' | 'expression' | 'speech' | 'audio' | 'camera';
+
+export interface Timeline {
+  version: 1;
+  characters: TimelineCharacterTracks[];
+  camera: TimelineCameraBlock[];
+}